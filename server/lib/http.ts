@@ -0,0 +1,136 @@
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from 'node:http';
+
+/**
+ * Minimal HTTP helpers shared by the reference servers
+ *
+ * The reference servers are intentionally dependency-free (node:http only) so
+ * they can be read top to bottom and run with `tsx` without extra setup.
+ */
+
+export type RouteHandler = (
+  req: IncomingMessage,
+  res: ServerResponse,
+  url: URL
+) => Promise<void> | void;
+
+export class HttpError extends Error {
+  constructor(
+    public readonly status: number,
+    message: string
+  ) {
+    super(message);
+  }
+}
+
+/**
+ * Send a JSON response with permissive CORS headers (the app runs on another origin)
+ */
+export function sendJson(res: ServerResponse, status: number, body: unknown): void {
+  res.writeHead(status, {
+    'Content-Type': 'application/json',
+    ...corsHeaders(),
+  });
+  res.end(JSON.stringify(body));
+}
+
+/**
+ * Send a redirect response
+ */
+export function redirect(res: ServerResponse, location: string): void {
+  res.writeHead(302, { Location: location });
+  res.end();
+}
+
+/**
+ * Read and parse a JSON request body
+ *
+ * @throws HttpError(400) if the body is not valid JSON
+ */
+export async function readJsonBody<T = unknown>(req: IncomingMessage): Promise<T> {
+  const raw = await readBody(req);
+  try {
+    return JSON.parse(raw) as T;
+  } catch {
+    throw new HttpError(400, 'Request body must be valid JSON');
+  }
+}
+
+/**
+ * Read the raw request body as a string
+ */
+export async function readBody(req: IncomingMessage): Promise<string> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) {
+    chunks.push(chunk as Buffer);
+  }
+  return Buffer.concat(chunks).toString('utf8');
+}
+
+function corsHeaders(): Record<string, string> {
+  return {
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+    'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+  };
+}
+
+/**
+ * Start an HTTP server from a `METHOD /path` route table
+ *
+ * Handles CORS preflight, unknown routes (404) and maps thrown HttpErrors to
+ * JSON error responses of the shape `{ error: string }`.
+ *
+ * @param name - Server name used in the startup log line
+ * @param port - Port to listen on
+ * @param routes - Map of `"GET /path"` keys to handlers
+ */
+export function startServer(
+  name: string,
+  port: number,
+  routes: Record<string, RouteHandler>
+): Server {
+  const server = createServer(async (req, res) => {
+    const url = new URL(req.url ?? '/', `http://${req.headers.host ?? 'localhost'}`);
+
+    if (req.method === 'OPTIONS') {
+      res.writeHead(204, corsHeaders());
+      res.end();
+      return;
+    }
+
+    const handler = routes[`${req.method} ${url.pathname}`];
+    if (!handler) {
+      sendJson(res, 404, { error: `No route for ${req.method} ${url.pathname}` });
+      return;
+    }
+
+    try {
+      await handler(req, res, url);
+    } catch (error) {
+      if (error instanceof HttpError) {
+        sendJson(res, error.status, { error: error.message });
+        return;
+      }
+      console.error(`[${name}]`, error);
+      sendJson(res, 500, { error: 'Internal server error' });
+    }
+  });
+
+  server.listen(port, () => {
+    console.log(`[${name}] listening on http://localhost:${port}`);
+  });
+  return server;
+}
+
+/**
+ * Read a required environment variable
+ *
+ * @throws Error if the variable is missing
+ */
+export function requireEnv(key: string): string {
+  const value = process.env[key];
+  if (!value) {
+    throw new Error(`Missing required environment variable ${key}`);
+  }
+  return value;
+}
@@ -0,0 +1,301 @@
+import {
+  createPublicKey,
+  createSign,
+  createHmac,
+  createVerify,
+  generateKeyPairSync,
+  randomBytes,
+  timingSafeEqual,
+  type JsonWebKey,
+  type KeyObject,
+} from 'node:crypto';
+import { HttpError } from './http';
+
+/**
+ * JWT helpers shared by the reference servers
+ */
+
+export interface SigningKey {
+  kid: string;
+  privateKey: KeyObject;
+  publicJwk: JsonWebKey & { kid: string; alg: 'RS256'; use: 'sig' };
+}
+
+export function base64UrlEncode(input: Buffer | string): string {
+  return Buffer.from(input).toString('base64url');
+}
+
+export function base64UrlDecode(input: string): Buffer {
+  return Buffer.from(input, 'base64url');
+}
+
+/**
+ * Generate an RS256 signing key with its public JWK
+ */
+export function generateSigningKey(): SigningKey {
+  const { privateKey, publicKey } = generateKeyPairSync('rsa', { modulusLength: 2048 });
+  const kid = randomBytes(8).toString('hex');
+  return {
+    kid,
+    privateKey,
+    publicJwk: { ...publicKey.export({ format: 'jwk' }), kid, alg: 'RS256', use: 'sig' },
+  };
+}
+
+/**
+ * Sign a JWT with RS256
+ */
+export function signJwt(payload: Record<string, unknown>, key: SigningKey): string {
+  const header = base64UrlEncode(JSON.stringify({ alg: 'RS256', typ: 'JWT', kid: key.kid }));
+  const body = base64UrlEncode(JSON.stringify(payload));
+  const signer = createSign('RSA-SHA256');
+  signer.update(`${header}.${body}`);
+  return `${header}.${body}.${signer.sign(key.privateKey).toString('base64url')}`;
+}
+
+export interface ApiTokenClaims {
+  // Sui address the token was issued to
+  sub: string;
+  exp: number;
+  iat: number;
+  [key: string]: unknown;
+}
+
+/**
+ * Sign an API token (HS256 JWT) issued by one of our servers
+ *
+ * @param claims - Token claims; `iat` is set to now
+ * @param secret - Server secret (at least 32 bytes)
+ * @param exp - Expiry in seconds since the Unix epoch
+ */
+export function signApiToken(
+  claims: { sub: string; [key: string]: unknown },
+  secret: Buffer,
+  exp: number
+): string {
+  const now = Math.floor(Date.now() / 1000);
+  const header = base64UrlEncode(JSON.stringify({ alg: 'HS256', typ: 'JWT' }));
+  const body = base64UrlEncode(JSON.stringify({ ...claims, iat: now, exp }));
+  const signature = createHmac('sha256', secret).update(`${header}.${body}`).digest('base64url');
+  return `${header}.${body}.${signature}`;
+}
+
+/**
+ * Verify an API token signed with `signApiToken`
+ *
+ * @throws HttpError(401) if the token is malformed, not signed with `secret` or expired
+ */
+export function verifyApiToken(token: string, secret: Buffer): ApiTokenClaims {
+  const [encodedHeader, encodedPayload, signature] = token.split('.');
+  if (!encodedHeader || !encodedPayload || !signature) {
+    throw new HttpError(401, 'Malformed API token');
+  }
+
+  const expected = createHmac('sha256', secret)
+    .update(`${encodedHeader}.${encodedPayload}`)
+    .digest();
+  const actual = base64UrlDecode(signature);
+  if (actual.length !== expected.length || !timingSafeEqual(actual, expected)) {
+    throw new HttpError(401, 'Invalid API token signature');
+  }
+
+  let claims: Partial<ApiTokenClaims>;
+  try {
+    claims = JSON.parse(base64UrlDecode(encodedPayload).toString('utf8'));
+  } catch {
+    throw new HttpError(401, 'Malformed API token');
+  }
+  if (typeof claims.sub !== 'string' || typeof claims.exp !== 'number') {
+    throw new HttpError(401, 'Malformed API token');
+  }
+  if (claims.exp < Math.floor(Date.now() / 1000)) {
+    throw new HttpError(401, 'API token has expired');
+  }
+  return claims as ApiTokenClaims;
+}
+
+/**
+ * Read a bearer token from the Authorization header
+ *
+ * @throws HttpError(401) without a bearer token
+ */
+export function readBearerToken(authorization: string | undefined): string {
+  const match = /^Bearer\s+(\S+)$/i.exec(authorization ?? '');
+  if (!match) {
+    throw new HttpError(401, 'Missing bearer token');
+  }
+  return match[1];
+}
+
+export interface IdTokenClaims {
+  iss: string;
+  sub: string;
+  aud: string | string[];
+  exp: number;
+  iat?: number;
+  [key: string]: unknown;
+}
+
+export interface VerifyIdTokenOptions {
+  // Accepted `iss` values
+  issuers: string[];
+  // Accepted client IDs (`aud`)
+  audiences: string[];
+  keyStore: IssuerKeyStore;
+  clockSkewSeconds?: number;
+}
+
+/**
+ * Verify an RS256 id_token from an allowed issuer
+ *
+ * Checks the signature against the issuer's JWKS, then `iss`, `aud`, `exp` and
+ * `iat`. The nonce is not checked: it binds the token to the browser's
+ * ephemeral key, which only the app and the prover care about.
+ *
+ * @throws HttpError(401) if the token is malformed, unsigned by the issuer, or
+ *   its claims are not accepted
+ */
+export async function verifyIdToken(
+  token: string,
+  options: VerifyIdTokenOptions
+): Promise<IdTokenClaims> {
+  const [encodedHeader, encodedPayload, signature] = token.split('.');
+  if (!encodedHeader || !encodedPayload || !signature) {
+    throw new HttpError(401, 'Malformed JWT');
+  }
+
+  let header: { alg?: string; kid?: string };
+  let claims: Partial<IdTokenClaims>;
+  try {
+    header = JSON.parse(base64UrlDecode(encodedHeader).toString('utf8'));
+    claims = JSON.parse(base64UrlDecode(encodedPayload).toString('utf8'));
+  } catch {
+    throw new HttpError(401, 'Malformed JWT');
+  }
+
+  if (header.alg !== 'RS256') {
+    throw new HttpError(401, `Unsupported JWT algorithm ${header.alg}`);
+  }
+  if (typeof claims.iss !== 'string' || !options.issuers.includes(claims.iss)) {
+    throw new HttpError(401, `Issuer ${claims.iss} is not allowed`);
+  }
+
+  const key = await options.keyStore.getKey(claims.iss, header.kid);
+  const verifier = createVerify('RSA-SHA256');
+  verifier.update(`${encodedHeader}.${encodedPayload}`);
+  if (!verifier.verify(key, base64UrlDecode(signature))) {
+    throw new HttpError(401, 'Invalid JWT signature');
+  }
+
+  const audiences = Array.isArray(claims.aud) ? claims.aud : [claims.aud];
+  if (!audiences.some(aud => typeof aud === 'string' && options.audiences.includes(aud))) {
+    throw new HttpError(401, 'JWT audience is not allowed');
+  }
+  if (typeof claims.sub !== 'string' || !claims.sub) {
+    throw new HttpError(401, 'JWT has no subject');
+  }
+
+  const now = Math.floor(Date.now() / 1000);
+  const skew = options.clockSkewSeconds ?? 60;
+  if (typeof claims.exp !== 'number' || claims.exp + skew < now) {
+    throw new HttpError(401, 'JWT has expired');
+  }
+  if (typeof claims.iat === 'number' && claims.iat - skew > now) {
+    throw new HttpError(401, 'JWT was issued in the future');
+  }
+
+  return claims as IdTokenClaims;
+}
+
+export interface IssuerKeyStore {
+  getKey: (issuer: string, kid: string | undefined) => Promise<KeyObject>;
+}
+
+/**
+ * Cache of issuers' signing keys, found through OIDC discovery
+ *
+ * Keys are cached per issuer and refetched after `ttlMs` or when a token
+ * carries an unknown `kid` (key rotation). Any caller can send an unknown
+ * `kid`, so an issuer is fetched at most once per `minRefetchMs`: an unknown
+ * `kid` within that interval is rejected without contacting the issuer, and
+ * concurrent requests share one fetch.
+ */
+export function createIssuerKeyStore(
+  ttlMs = 10 * 60 * 1000,
+  minRefetchMs = 60 * 1000
+): IssuerKeyStore {
+  const cache = new Map<string, { keys: Map<string, KeyObject>; fetchedAt: number }>();
+  // Last fetch attempt per issuer, successful or not
+  const attemptedAt = new Map<string, number>();
+  const inFlight = new Map<string, Promise<Map<string, KeyObject>>>();
+
+  const fetchKeys = async (issuer: string): Promise<Map<string, KeyObject>> => {
+    // Google tokens may carry the bare host as issuer
+    const base = issuer.startsWith('http') ? issuer : `https://${issuer}`;
+    const discovery = await fetchJson<{ jwks_uri?: string }>(
+      `${base.replace(/\/+$/, '')}/.well-known/openid-configuration`
+    );
+    if (!discovery.jwks_uri) {
+      throw new Error(`Discovery document of ${issuer} has no jwks_uri`);
+    }
+
+    const jwks = await fetchJson<{ keys?: (JsonWebKey & { kid?: string; kty?: string })[] }>(
+      discovery.jwks_uri
+    );
+    const keys = new Map<string, KeyObject>();
+    for (const jwk of jwks.keys ?? []) {
+      if (jwk.kid && jwk.kty === 'RSA') {
+        keys.set(jwk.kid, createPublicKey({ key: jwk, format: 'jwk' }));
+      }
+    }
+    cache.set(issuer, { keys, fetchedAt: Date.now() });
+    return keys;
+  };
+
+  // Fetch the issuer's keys unless it was tried within `minRefetchMs`
+  const refresh = (issuer: string): Promise<Map<string, KeyObject>> | undefined => {
+    const pending = inFlight.get(issuer);
+    if (pending) {
+      return pending;
+    }
+    if (Date.now() - (attemptedAt.get(issuer) ?? 0) < minRefetchMs) {
+      return undefined;
+    }
+
+    attemptedAt.set(issuer, Date.now());
+    const request = fetchKeys(issuer).finally(() => inFlight.delete(issuer));
+    inFlight.set(issuer, request);
+    return request;
+  };
+
+  return {
+    async getKey(issuer, kid) {
+      const cached = cache.get(issuer);
+      let keys = cached?.keys;
+      if (!cached || Date.now() - cached.fetchedAt >= ttlMs) {
+        const request = refresh(issuer);
+        if (request) {
+          keys = await request;
+        } else if (!keys) {
+          throw new HttpError(503, `Signing keys of ${issuer} are unavailable`);
+        }
+      } else if (kid && !keys?.has(kid)) {
+        keys = (await refresh(issuer)) ?? keys;
+      }
+
+      const key = kid ? keys?.get(kid) : keys?.size === 1 ? [...keys.values()][0] : undefined;
+      if (!key) {
+        throw new HttpError(401, `Unknown signing key ${kid} for ${issuer}`);
+      }
+      return key;
+    },
+  };
+}
+
+async function fetchJson<T>(url: string): Promise<T> {
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`GET ${url} failed with ${response.status}`);
+  }
+  return (await response.json()) as T;
+}
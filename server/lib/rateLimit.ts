@@ -0,0 +1,42 @@
+import { HttpError } from './http';
+
+/**
+ * Fixed-window rate limiter kept in memory
+ *
+ * Good enough for a single-process reference server; use a shared store
+ * (Redis, the API gateway) when running several instances.
+ */
+
+export interface RateLimiter {
+  /**
+   * Count a request for `key`
+   *
+   * @throws HttpError(429) once `limit` requests were made in the current window
+   */
+  consume: (key: string) => void;
+}
+
+export function createRateLimiter(options: { limit: number; windowMs: number }): RateLimiter {
+  const windows = new Map<string, { count: number; resetAt: number }>();
+
+  return {
+    consume(key) {
+      const now = Date.now();
+      // Drop finished windows so the map does not grow with every key ever seen
+      for (const [storedKey, window] of windows) {
+        if (window.resetAt <= now) {
+          windows.delete(storedKey);
+        }
+      }
+
+      const window = windows.get(key) ?? { count: 0, resetAt: now + options.windowMs };
+      window.count += 1;
+      windows.set(key, window);
+
+      if (window.count > options.limit) {
+        const retryAfter = Math.ceil((window.resetAt - now) / 1000);
+        throw new HttpError(429, `Too many requests, retry in ${retryAfter}s`);
+      }
+    },
+  };
+}
@@ -0,0 +1,167 @@
+import { createHash, randomBytes } from 'node:crypto';
+import { readBody, redirect, sendJson, startServer, HttpError } from '../lib/http';
+import { generateSigningKey, signJwt } from '../lib/jwt';
+
+/**
+ * Local Stand-in OIDC Issuer
+ *
+ * A tiny OpenID Connect issuer for local development and manual testing of the
+ * generic OIDC provider support. It publishes a discovery document and JWKS,
+ * and its authorize endpoint immediately signs in a fixed test user (no login
+ * screen). It supports both the implicit flow (id_token in the redirect) and
+ * the authorization code flow with PKCE (S256) via its token endpoint.
+ *
+ * ⚠️ DEVELOPMENT ONLY: every request is signed in, keys are regenerated on start.
+ *
+ * Tokens from this issuer are not accepted by the Mysten prover; combine it
+ * with a prover that accepts any issuer when testing the full flow.
+ *
+ * Environment:
+ * - PORT: port to listen on (default 9400)
+ * - ISSUER_URL: issuer identifier (default http://localhost:<PORT>)
+ * - TEST_SUB / TEST_EMAIL / TEST_NAME: identity of the signed-in test user
+ *   (`login_hint` on the authorize request overrides the subject)
+ *
+ * App configuration:
+ * ```env
+ * VITE_OIDC_ISSUERS=[{"id":"local","name":"Local OIDC","issuer":"http://localhost:9400","clientId":"local-app"}]
+ * ```
+ *
+ * Run: `pnpm server:oidc-issuer`
+ */
+
+const PORT = Number(process.env.PORT ?? 9400);
+const ISSUER_URL = process.env.ISSUER_URL ?? `http://localhost:${PORT}`;
+const TEST_SUB = process.env.TEST_SUB ?? 'local-test-user';
+const TEST_EMAIL = process.env.TEST_EMAIL ?? 'test-user@example.com';
+const TEST_NAME = process.env.TEST_NAME ?? 'Local Test User';
+const TOKEN_TTL_SECONDS = 3600;
+const CODE_TTL_MS = 60_000;
+
+interface PendingCode {
+  clientId: string;
+  redirectUri: string;
+  codeChallenge: string;
+  claims: Record<string, unknown>;
+  expiresAt: number;
+}
+
+const signingKey = generateSigningKey();
+const pendingCodes = new Map<string, PendingCode>();
+
+function issueIdToken(claims: Record<string, unknown>): string {
+  const now = Math.floor(Date.now() / 1000);
+  return signJwt(
+    { ...claims, iat: now, exp: now + TOKEN_TTL_SECONDS, jti: randomBytes(8).toString('hex') },
+    signingKey
+  );
+}
+
+startServer('oidc-issuer', PORT, {
+  'GET /.well-known/openid-configuration': (_req, res) => {
+    sendJson(res, 200, {
+      issuer: ISSUER_URL,
+      authorization_endpoint: `${ISSUER_URL}/authorize`,
+      token_endpoint: `${ISSUER_URL}/token`,
+      jwks_uri: `${ISSUER_URL}/jwks`,
+      response_types_supported: ['id_token', 'code'],
+      grant_types_supported: ['implicit', 'authorization_code'],
+      code_challenge_methods_supported: ['S256'],
+      token_endpoint_auth_methods_supported: ['none'],
+      subject_types_supported: ['public'],
+      id_token_signing_alg_values_supported: ['RS256'],
+      scopes_supported: ['openid', 'email', 'profile'],
+      claims_supported: ['sub', 'iss', 'aud', 'exp', 'iat', 'nonce', 'email', 'name'],
+    });
+  },
+
+  'GET /jwks': (_req, res) => {
+    sendJson(res, 200, { keys: [signingKey.publicJwk] });
+  },
+
+  'GET /authorize': (_req, res, url) => {
+    const params = url.searchParams;
+    const clientId = params.get('client_id');
+    const redirectUri = params.get('redirect_uri');
+    const responseType = params.get('response_type');
+    if (!clientId || !redirectUri) {
+      throw new HttpError(400, 'client_id and redirect_uri are required');
+    }
+
+    const callback = new URL(redirectUri);
+    const response = new URLSearchParams();
+    const state = params.get('state');
+    if (state) {
+      response.set('state', state);
+    }
+
+    const claims = {
+      iss: ISSUER_URL,
+      aud: clientId,
+      sub: params.get('login_hint') || TEST_SUB,
+      email: TEST_EMAIL,
+      email_verified: true,
+      name: TEST_NAME,
+      nonce: params.get('nonce') ?? undefined,
+    };
+
+    if (responseType === 'id_token') {
+      response.set('id_token', issueIdToken(claims));
+    } else if (responseType === 'code') {
+      const codeChallenge = params.get('code_challenge');
+      if (!codeChallenge || params.get('code_challenge_method') !== 'S256') {
+        response.set('error', 'invalid_request');
+        response.set('error_description', 'PKCE with code_challenge_method=S256 is required');
+      } else {
+        const code = randomBytes(16).toString('hex');
+        pendingCodes.set(code, {
+          clientId,
+          redirectUri,
+          codeChallenge,
+          claims,
+          expiresAt: Date.now() + CODE_TTL_MS,
+        });
+        response.set('code', code);
+      }
+    } else {
+      response.set('error', 'unsupported_response_type');
+    }
+
+    callback.hash = response.toString();
+    redirect(res, callback.toString());
+  },
+
+  'POST /token': async (req, res) => {
+    const params = new URLSearchParams(await readBody(req));
+    const code = params.get('code') ?? '';
+    const pending = pendingCodes.get(code);
+    // Codes are single-use
+    pendingCodes.delete(code);
+
+    if (params.get('grant_type') !== 'authorization_code') {
+      throw new HttpError(400, 'unsupported_grant_type');
+    }
+    if (!pending || pending.expiresAt < Date.now()) {
+      throw new HttpError(400, 'invalid_grant: unknown or expired code');
+    }
+    if (
+      params.get('client_id') !== pending.clientId ||
+      params.get('redirect_uri') !== pending.redirectUri
+    ) {
+      throw new HttpError(400, 'invalid_grant: client_id or redirect_uri mismatch');
+    }
+
+    const verifier = params.get('code_verifier') ?? '';
+    const challenge = createHash('sha256').update(verifier).digest('base64url');
+    if (challenge !== pending.codeChallenge) {
+      throw new HttpError(400, 'invalid_grant: PKCE verification failed');
+    }
+
+    sendJson(res, 200, {
+      access_token: randomBytes(16).toString('hex'),
+      token_type: 'Bearer',
+      expires_in: TOKEN_TTL_SECONDS,
+      id_token: issueIdToken(pending.claims),
+    });
+  },
+});
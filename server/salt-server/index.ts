@@ -0,0 +1,96 @@
+import { createHmac } from 'node:crypto';
+import { HttpError, readJsonBody, requireEnv, sendJson, startServer } from '../lib/http';
+import { createIssuerKeyStore, verifyIdToken } from '../lib/jwt';
+import { createRateLimiter } from '../lib/rateLimit';
+
+/**
+ * Deterministic Salt Server
+ *
+ * Reference backend for `BackendSaltService` (`VITE_USE_BACKEND_SALT_SERVICE`).
+ * It verifies the posted id_token and derives the user's salt from a master
+ * seed, so the same identity gets the same salt, and therefore the same
+ * address, on every device without storing anything:
+ *
+ *   salt = first 16 bytes of HMAC-SHA256(master seed, "iss|aud|sub")  (< 2^128)
+ *
+ * ⚠️ The master seed is the root of every address it serves: losing it loses
+ * the addresses, leaking it links every address to its identity. Keep it in a
+ * secret manager and never rotate it without migrating users.
+ *
+ * API:
+ * - `POST /salt` with `{ "jwtToken": "<id_token>" }` → `{ "salt": "<decimal string>" }`
+ *   (401 invalid token, 429 rate limited)
+ *
+ * Environment:
+ * - SALT_MASTER_SEED (required): at least 32 random bytes, hex (`openssl rand -hex 32`)
+ * - ALLOWED_AUDIENCES (required): comma-separated OAuth client IDs of the app
+ * - ALLOWED_ISSUERS: comma-separated issuers (default Google)
+ * - RATE_LIMIT_PER_MINUTE: requests per subject and minute (default 10)
+ * - PORT: port to listen on (default 9500)
+ *
+ * App configuration:
+ * ```env
+ * VITE_USE_BACKEND_SALT_SERVICE=true
+ * VITE_SALT_SERVICE_URL=http://localhost:9500/salt
+ * ```
+ *
+ * Run: `pnpm server:salt`
+ */
+
+const PORT = Number(process.env.PORT ?? 9500);
+const ALLOWED_ISSUERS = splitList(
+  process.env.ALLOWED_ISSUERS ?? 'https://accounts.google.com,accounts.google.com'
+);
+const ALLOWED_AUDIENCES = splitList(requireEnv('ALLOWED_AUDIENCES'));
+const RATE_LIMIT_PER_MINUTE = Number(process.env.RATE_LIMIT_PER_MINUTE ?? 10);
+
+const masterSeed = Buffer.from(requireEnv('SALT_MASTER_SEED'), 'hex');
+if (masterSeed.length < 32) {
+  throw new Error('SALT_MASTER_SEED must be at least 32 bytes of hex (openssl rand -hex 32)');
+}
+
+const keyStore = createIssuerKeyStore();
+const rateLimiter = createRateLimiter({ limit: RATE_LIMIT_PER_MINUTE, windowMs: 60_000 });
+
+function splitList(value: string): string[] {
+  return value
+    .split(',')
+    .map(item => item.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Derive the salt of an identity
+ *
+ * 16 bytes of the HMAC make a 128-bit integer, below the 2^128 bound zkLogin
+ * salts must respect. The audience is part of the input, like it is part of
+ * the address: each app (client ID) gets unlinkable addresses.
+ */
+function deriveSalt(iss: string, aud: string, sub: string): string {
+  // Google issues both forms of its issuer for the same user
+  const issuer = iss === 'accounts.google.com' ? 'https://accounts.google.com' : iss;
+  const digest = createHmac('sha256', masterSeed).update(`${issuer}|${aud}|${sub}`).digest();
+  return BigInt(`0x${digest.subarray(0, 16).toString('hex')}`).toString();
+}
+
+startServer('salt-server', PORT, {
+  'POST /salt': async (req, res) => {
+    const body = await readJsonBody<{ jwtToken?: unknown }>(req);
+    if (typeof body?.jwtToken !== 'string' || !body.jwtToken) {
+      throw new HttpError(400, 'jwtToken is required');
+    }
+
+    const claims = await verifyIdToken(body.jwtToken, {
+      issuers: ALLOWED_ISSUERS,
+      audiences: ALLOWED_AUDIENCES,
+      keyStore,
+    });
+    rateLimiter.consume(`${claims.iss}|${claims.sub}`);
+
+    // Several audiences are possible; use the one this server accepts
+    const audiences = Array.isArray(claims.aud) ? claims.aud : [claims.aud];
+    const aud = audiences.find(value => ALLOWED_AUDIENCES.includes(value)) as string;
+
+    sendJson(res, 200, { salt: deriveSalt(claims.iss, aud, claims.sub) });
+  },
+});
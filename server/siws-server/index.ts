@@ -0,0 +1,235 @@
+import { randomBytes } from 'node:crypto';
+import { getFullnodeUrl, SuiClient } from '@mysten/sui/client';
+import { parseSerializedSignature } from '@mysten/sui/cryptography';
+import { isValidSuiAddress, normalizeSuiAddress, toBase64 } from '@mysten/sui/utils';
+import { verifyPersonalMessageSignature } from '@mysten/sui/verify';
+import { ZkLoginPublicIdentifier } from '@mysten/sui/zklogin';
+import { HttpError, readJsonBody, requireEnv, sendJson, startServer } from '../lib/http';
+import { readBearerToken, signApiToken, verifyApiToken } from '../lib/jwt';
+import { createRateLimiter } from '../lib/rateLimit';
+
+/**
+ * Sign-In with Sui (SIWS) Server
+ *
+ * Reference backend for `SiwsClient` (`VITE_SIWS_URL`): a challenge/response
+ * handshake that turns a zkLogin session into an API token for our own APIs.
+ *
+ * 1. The app asks for a challenge for its address and network
+ * 2. The server returns a one-time message (domain, address, nonce, expiry)
+ * 3. The app signs it as a personal message with its zkLogin session
+ * 4. The server checks the signature, address and maxEpoch, and returns an
+ *    HS256 API token for the address (valid until the session's last epoch
+ *    ends at the latest)
+ *
+ * Verification:
+ * - network (default): the full node verifies the zkLogin signature (proof,
+ *   issuer JWK, maxEpoch) through `sui_verifyZkLoginSignature`
+ * - local: stand-in for the mock prover and tests. Checks the ephemeral
+ *   signature and the address only, NOT the proof.
+ *   ⚠️ Anyone can forge a session that passes; never use it in production.
+ *
+ * API:
+ * - `POST /challenge` with `{ "address", "network" }` → `{ "nonce", "message", "expiresAt" }`
+ * - `POST /verify` with `{ "nonce", "signature" }` → `{ "token", "address", "expiresAt" }`
+ *   (401 when the challenge, signature, address or session is not accepted)
+ * - `GET /me` with `Authorization: Bearer <token>` → `{ "address", "expiresAt" }`
+ *
+ * Environment:
+ * - TOKEN_SECRET (required): at least 32 random bytes, hex (`openssl rand -hex 32`)
+ * - SIWS_DOMAIN: host the app runs on, shown in the message (default localhost:5173)
+ * - SUI_NETWORK: network sessions must belong to (default devnet)
+ * - SUI_RPC_URL: full node of that network (default the public one)
+ * - VERIFIER: `network` or `local` (default network)
+ * - CHALLENGE_TTL_SECONDS (default 300), TOKEN_TTL_SECONDS (default 3600)
+ * - RATE_LIMIT_PER_MINUTE: challenges per address and minute (default 10)
+ * - PORT: port to listen on (default 9600)
+ *
+ * App configuration:
+ * ```env
+ * VITE_SIWS_URL=http://localhost:9600
+ * ```
+ *
+ * Run: `pnpm server:siws`
+ */
+
+const PORT = Number(process.env.PORT ?? 9600);
+const SIWS_DOMAIN = process.env.SIWS_DOMAIN ?? 'localhost:5173';
+const SUI_NETWORK = (process.env.SUI_NETWORK ?? 'devnet') as SuiNetwork;
+const SUI_RPC_URL = process.env.SUI_RPC_URL ?? getFullnodeUrl(SUI_NETWORK);
+const VERIFIER = process.env.VERIFIER ?? 'network';
+const CHALLENGE_TTL_SECONDS = Number(process.env.CHALLENGE_TTL_SECONDS ?? 300);
+const TOKEN_TTL_SECONDS = Number(process.env.TOKEN_TTL_SECONDS ?? 3600);
+const RATE_LIMIT_PER_MINUTE = Number(process.env.RATE_LIMIT_PER_MINUTE ?? 10);
+
+const tokenSecret = Buffer.from(requireEnv('TOKEN_SECRET'), 'hex');
+if (tokenSecret.length < 32) {
+  throw new Error('TOKEN_SECRET must be at least 32 bytes of hex (openssl rand -hex 32)');
+}
+if (VERIFIER !== 'network' && VERIFIER !== 'local') {
+  throw new Error('VERIFIER must be "network" or "local"');
+}
+if (VERIFIER === 'local') {
+  console.warn('[siws-server] VERIFIER=local: zkLogin proofs are NOT verified (development only)');
+}
+
+type SuiNetwork = Parameters<typeof getFullnodeUrl>[0];
+
+interface Challenge {
+  address: string;
+  message: string;
+  expiresAt: number;
+}
+
+const client = new SuiClient({ url: SUI_RPC_URL });
+const challenges = new Map<string, Challenge>();
+const rateLimiter = createRateLimiter({ limit: RATE_LIMIT_PER_MINUTE, windowMs: 60_000 });
+
+/**
+ * Build the message the app signs (EIP-4361 style, readable in a wallet prompt)
+ */
+function buildMessage(address: string, nonce: string, issuedAt: Date, expiresAt: Date): string {
+  return [
+    `${SIWS_DOMAIN} wants you to sign in with your Sui account:`,
+    address,
+    '',
+    'Sign in to use the app API. This does not send a transaction or cost gas.',
+    '',
+    `Network: ${SUI_NETWORK}`,
+    `Nonce: ${nonce}`,
+    `Issued At: ${issuedAt.toISOString()}`,
+    `Expiration Time: ${expiresAt.toISOString()}`,
+  ].join('\n');
+}
+
+/**
+ * Take a challenge out of the store (each nonce can be used once)
+ */
+function takeChallenge(nonce: string): Challenge {
+  const now = Date.now();
+  // Drop expired challenges so the map does not grow with abandoned logins
+  for (const [storedNonce, challenge] of challenges) {
+    if (challenge.expiresAt <= now) {
+      challenges.delete(storedNonce);
+    }
+  }
+
+  const challenge = challenges.get(nonce);
+  challenges.delete(nonce);
+  if (!challenge) {
+    throw new HttpError(401, 'Unknown or expired challenge');
+  }
+  return challenge;
+}
+
+/**
+ * Check a zkLogin personal message signature for an address
+ *
+ * @returns maxEpoch of the signing session and its estimated end (seconds since the Unix epoch)
+ * @throws HttpError(401) if the signature is not accepted
+ */
+async function verifyZkLoginSignature(
+  message: Uint8Array,
+  signature: string,
+  address: string
+): Promise<{ maxEpoch: number; sessionEndsAt: number }> {
+  let parsed: ReturnType<typeof parseSerializedSignature>;
+  try {
+    parsed = parseSerializedSignature(signature);
+  } catch {
+    throw new HttpError(401, 'Malformed signature');
+  }
+  if (parsed.signatureScheme !== 'ZkLogin') {
+    throw new HttpError(401, 'Only zkLogin signatures are accepted');
+  }
+
+  // The identifier (issuer + address seed) must derive the challenged address
+  if (!new ZkLoginPublicIdentifier(parsed.publicKey).verifyAddress(address)) {
+    throw new HttpError(401, 'Signature does not belong to the address');
+  }
+
+  // The session must still be valid on this network
+  const maxEpoch = Number(parsed.zkLogin.maxEpoch);
+  const state = await client.getLatestSuiSystemState();
+  const epoch = Number(state.epoch);
+  if (maxEpoch < epoch) {
+    throw new HttpError(401, `zkLogin session expired at epoch ${maxEpoch} (current ${epoch})`);
+  }
+
+  try {
+    if (VERIFIER === 'local') {
+      // Ephemeral key signature only: the proof is not checked
+      await verifyPersonalMessageSignature(
+        message,
+        toBase64(Uint8Array.from(parsed.zkLogin.userSignature))
+      );
+    } else {
+      await verifyPersonalMessageSignature(message, signature, { client, address });
+    }
+  } catch (error) {
+    console.warn('[siws-server] signature rejected:', (error as Error).message);
+    throw new HttpError(401, 'Invalid signature');
+  }
+
+  // Epochs last epochDurationMs, so the end of maxEpoch can be estimated
+  const sessionEndsAtMs =
+    Number(state.epochStartTimestampMs) + (maxEpoch - epoch + 1) * Number(state.epochDurationMs);
+  return { maxEpoch, sessionEndsAt: Math.floor(sessionEndsAtMs / 1000) };
+}
+
+startServer('siws-server', PORT, {
+  'POST /challenge': async (req, res) => {
+    const body = await readJsonBody<{ address?: unknown; network?: unknown }>(req);
+    if (typeof body?.address !== 'string' || !isValidSuiAddress(body.address)) {
+      throw new HttpError(400, 'A valid address is required');
+    }
+    if (body.network !== SUI_NETWORK) {
+      throw new HttpError(400, `This server accepts ${SUI_NETWORK} sessions only`);
+    }
+
+    const address = normalizeSuiAddress(body.address);
+    rateLimiter.consume(address);
+
+    const nonce = randomBytes(16).toString('hex');
+    const issuedAt = new Date();
+    const expiresAt = new Date(issuedAt.getTime() + CHALLENGE_TTL_SECONDS * 1000);
+    const message = buildMessage(address, nonce, issuedAt, expiresAt);
+    challenges.set(nonce, { address, message, expiresAt: expiresAt.getTime() });
+
+    sendJson(res, 200, { nonce, message, expiresAt: expiresAt.toISOString() });
+  },
+
+  'POST /verify': async (req, res) => {
+    const body = await readJsonBody<{ nonce?: unknown; signature?: unknown }>(req);
+    if (typeof body?.nonce !== 'string' || typeof body.signature !== 'string') {
+      throw new HttpError(400, 'nonce and signature are required');
+    }
+
+    const challenge = takeChallenge(body.nonce);
+    const { maxEpoch, sessionEndsAt } = await verifyZkLoginSignature(
+      new TextEncoder().encode(challenge.message),
+      body.signature,
+      challenge.address
+    );
+
+    // The token never outlives the zkLogin session
+    const exp = Math.min(Math.floor(Date.now() / 1000) + TOKEN_TTL_SECONDS, sessionEndsAt);
+    const token = signApiToken(
+      { sub: challenge.address, network: SUI_NETWORK, maxEpoch },
+      tokenSecret,
+      exp
+    );
+    sendJson(res, 200, {
+      token,
+      address: challenge.address,
+      expiresAt: new Date(exp * 1000).toISOString(),
+    });
+  },
+
+  'GET /me': async (req, res) => {
+    const claims = verifyApiToken(readBearerToken(req.headers.authorization), tokenSecret);
+    sendJson(res, 200, {
+      address: claims.sub,
+      expiresAt: new Date(claims.exp * 1000).toISOString(),
+    });
+  },
+});
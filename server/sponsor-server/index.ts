@@ -0,0 +1,253 @@
+import { getFullnodeUrl, SuiClient, type ObjectOwner } from '@mysten/sui/client';
+import { Ed25519Keypair } from '@mysten/sui/keypairs/ed25519';
+import { Transaction } from '@mysten/sui/transactions';
+import { fromBase64, isValidSuiAddress, normalizeSuiAddress } from '@mysten/sui/utils';
+import { HttpError, readJsonBody, requireEnv, sendJson, startServer } from '../lib/http';
+import { readBearerToken, verifyApiToken } from '../lib/jwt';
+import { createRateLimiter } from '../lib/rateLimit';
+
+/**
+ * Gas Station (Sponsor) Server
+ *
+ * Reference backend for `SponsorService` (`VITE_SPONSOR_URL`): pays the gas of
+ * transactions from users who hold no SUI. The app sends a transaction kind
+ * (commands and inputs, no gas); the server checks it against its policy,
+ * sets itself as gas owner with its own gas coins, and co-signs. The app adds
+ * the zkLogin signature and executes with both signatures.
+ *
+ * 🛡️ POLICY:
+ * - Move calls only into `ALLOWED_PACKAGES`; no publish or upgrade
+ * - The gas coin cannot be used as an argument (it is the sponsor's SUI)
+ * - No objects owned by the sponsor as inputs, and the sponsor cannot be the
+ *   sender: its signature would authorize spending its own objects
+ * - At most `MAX_GAS_BUDGET_MIST` per transaction and `USER_BUDGET_MIST` per
+ *   sender and day, charged with the gas budget when a transaction is signed
+ * - With `TOKEN_SECRET` set, requests need an API token from `siws-server`
+ *   (same secret) issued to the sender
+ *
+ * ⚠️ Budgets are kept in memory and gas coins are not locked: two sponsored
+ * transactions signed at once can pick the same coin, and only the first to
+ * execute succeeds. Production gas stations reserve coins per transaction.
+ *
+ * API:
+ * - `POST /sponsor` with `{ "sender", "network", "transactionKindBytes" }` (base64) →
+ *   `{ "bytes", "signature", "sponsor", "gasBudget" }`
+ *   (403 policy violation or budget used up, 400 when the transaction cannot be built)
+ *
+ * Environment:
+ * - SPONSOR_SECRET_KEY (required): `suiprivkey...` key of the funded sponsor address
+ * - ALLOWED_PACKAGES: comma-separated package IDs Move calls may target (default 0x2)
+ * - SUI_NETWORK: network to sponsor on (default devnet), SUI_RPC_URL: its full node
+ * - MAX_GAS_BUDGET_MIST: per transaction (default 50000000 = 0.05 SUI)
+ * - USER_BUDGET_MIST: per sender and day (default 200000000 = 0.2 SUI)
+ * - TOKEN_SECRET: require SIWS API tokens (hex, same as siws-server)
+ * - RATE_LIMIT_PER_MINUTE: requests per sender and minute (default 10)
+ * - PORT: port to listen on (default 9700)
+ *
+ * App configuration:
+ * ```env
+ * VITE_SPONSOR_URL=http://localhost:9700
+ * ```
+ *
+ * Run: `pnpm server:sponsor`
+ */
+
+type SuiNetwork = Parameters<typeof getFullnodeUrl>[0];
+
+const PORT = Number(process.env.PORT ?? 9700);
+const SUI_NETWORK = (process.env.SUI_NETWORK ?? 'devnet') as SuiNetwork;
+const SUI_RPC_URL = process.env.SUI_RPC_URL ?? getFullnodeUrl(SUI_NETWORK);
+const ALLOWED_PACKAGES = splitList(process.env.ALLOWED_PACKAGES ?? '0x2').map(id =>
+  normalizeSuiAddress(id)
+);
+const MAX_GAS_BUDGET_MIST = BigInt(process.env.MAX_GAS_BUDGET_MIST ?? 50_000_000);
+const USER_BUDGET_MIST = BigInt(process.env.USER_BUDGET_MIST ?? 200_000_000);
+const RATE_LIMIT_PER_MINUTE = Number(process.env.RATE_LIMIT_PER_MINUTE ?? 10);
+const BUDGET_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+const tokenSecret = process.env.TOKEN_SECRET ? Buffer.from(process.env.TOKEN_SECRET, 'hex') : null;
+const sponsor = Ed25519Keypair.fromSecretKey(requireEnv('SPONSOR_SECRET_KEY'));
+const sponsorAddress = sponsor.toSuiAddress();
+
+const client = new SuiClient({ url: SUI_RPC_URL });
+const rateLimiter = createRateLimiter({ limit: RATE_LIMIT_PER_MINUTE, windowMs: 60_000 });
+const budgets = new Map<string, { spent: bigint; resetAt: number }>();
+
+function splitList(value: string): string[] {
+  return value
+    .split(',')
+    .map(item => item.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Whether an argument tree refers to the gas coin
+ */
+function usesGasCoin(value: unknown): boolean {
+  if (Array.isArray(value)) {
+    return value.some(usesGasCoin);
+  }
+  if (typeof value === 'object' && value !== null) {
+    if ((value as { $kind?: unknown }).$kind === 'GasCoin') {
+      return true;
+    }
+    return Object.values(value).some(usesGasCoin);
+  }
+  return false;
+}
+
+/**
+ * Check a transaction kind against the sponsorship policy
+ *
+ * @throws HttpError(403) naming the first command that is not allowed
+ */
+function checkPolicy(transaction: Transaction): void {
+  const { commands } = transaction.getData();
+  if (commands.length === 0) {
+    throw new HttpError(403, 'Empty transactions are not sponsored');
+  }
+
+  commands.forEach((command, index) => {
+    if (command.$kind === 'Publish' || command.$kind === 'Upgrade') {
+      throw new HttpError(403, `Command ${index}: publishing packages is not sponsored`);
+    }
+    if (command.$kind === 'MoveCall') {
+      const target = normalizeSuiAddress(command.MoveCall.package);
+      if (!ALLOWED_PACKAGES.includes(target)) {
+        throw new HttpError(403, `Command ${index}: package ${target} is not sponsored`);
+      }
+    }
+    if (usesGasCoin(command)) {
+      throw new HttpError(403, `Command ${index}: the gas coin cannot be used`);
+    }
+  });
+}
+
+/**
+ * Address an object belongs to, if an address owns it
+ */
+function getOwnerAddress(owner: ObjectOwner | null | undefined): string | null {
+  if (typeof owner !== 'object' || owner === null) {
+    return null;
+  }
+  if ('AddressOwner' in owner) {
+    return owner.AddressOwner;
+  }
+  if ('ConsensusAddressOwner' in owner) {
+    return owner.ConsensusAddressOwner.owner;
+  }
+  return null;
+}
+
+/**
+ * Check that no input object of a built transaction belongs to the sponsor
+ *
+ * @throws HttpError(403) naming the first sponsor-owned input
+ */
+async function checkInputOwners(transaction: Transaction): Promise<void> {
+  const objectIds = transaction.getData().inputs.flatMap(input => {
+    const object = input.Object;
+    const ref = object?.ImmOrOwnedObject ?? object?.Receiving ?? object?.SharedObject;
+    return ref ? [ref.objectId] : [];
+  });
+
+  // multiGetObjects takes at most 50 ids per request
+  for (let start = 0; start < objectIds.length; start += 50) {
+    const objects = await client.multiGetObjects({
+      ids: objectIds.slice(start, start + 50),
+      options: { showOwner: true },
+    });
+    for (const object of objects) {
+      const ownerAddress = getOwnerAddress(object.data?.owner);
+      if (ownerAddress && normalizeSuiAddress(ownerAddress) === sponsorAddress) {
+        throw new HttpError(403, `Object ${object.data?.objectId} belongs to the sponsor`);
+      }
+    }
+  }
+}
+
+/**
+ * Charge a sender's daily budget
+ *
+ * @throws HttpError(403) when the budget does not cover `amount`
+ */
+function chargeBudget(sender: string, amount: bigint): void {
+  const now = Date.now();
+  const current = budgets.get(sender);
+  const budget =
+    current && current.resetAt > now ? current : { spent: 0n, resetAt: now + BUDGET_WINDOW_MS };
+
+  if (budget.spent + amount > USER_BUDGET_MIST) {
+    const resetIn = Math.ceil((budget.resetAt - now) / 60_000);
+    throw new HttpError(403, `Sponsorship budget used up, resets in ${resetIn} min`);
+  }
+  budgets.set(sender, { ...budget, spent: budget.spent + amount });
+}
+
+startServer('sponsor-server', PORT, {
+  'POST /sponsor': async (req, res) => {
+    const body = await readJsonBody<{
+      sender?: unknown;
+      network?: unknown;
+      transactionKindBytes?: unknown;
+    }>(req);
+    if (typeof body?.sender !== 'string' || !isValidSuiAddress(body.sender)) {
+      throw new HttpError(400, 'A valid sender address is required');
+    }
+    if (typeof body.transactionKindBytes !== 'string' || !body.transactionKindBytes) {
+      throw new HttpError(400, 'transactionKindBytes is required');
+    }
+    if (body.network !== SUI_NETWORK) {
+      throw new HttpError(400, `This server sponsors ${SUI_NETWORK} transactions only`);
+    }
+
+    const sender = normalizeSuiAddress(body.sender);
+    if (sender === sponsorAddress) {
+      throw new HttpError(403, 'The sponsor cannot be the sender');
+    }
+    if (tokenSecret) {
+      const claims = verifyApiToken(readBearerToken(req.headers.authorization), tokenSecret);
+      if (normalizeSuiAddress(claims.sub) !== sender) {
+        throw new HttpError(403, 'API token was issued to another address');
+      }
+    }
+    rateLimiter.consume(sender);
+
+    let transaction: Transaction;
+    try {
+      transaction = Transaction.fromKind(fromBase64(body.transactionKindBytes));
+    } catch {
+      throw new HttpError(400, 'transactionKindBytes is not a transaction kind');
+    }
+    checkPolicy(transaction);
+
+    // Gas comes from the sponsor's coins; the budget is estimated with a dry run
+    transaction.setSender(sender);
+    transaction.setGasOwner(sponsorAddress);
+    let bytes: Uint8Array;
+    try {
+      bytes = await transaction.build({ client });
+    } catch (error) {
+      throw new HttpError(400, `Transaction cannot be built: ${(error as Error).message}`);
+    }
+
+    const built = Transaction.from(bytes);
+    const gasBudget = BigInt(built.getData().gasData.budget ?? 0);
+    if (gasBudget > MAX_GAS_BUDGET_MIST) {
+      throw new HttpError(403, `Gas budget ${gasBudget} exceeds ${MAX_GAS_BUDGET_MIST} MIST`);
+    }
+    // Inputs are resolved now, with their owners known on chain
+    await checkInputOwners(built);
+    chargeBudget(sender, gasBudget);
+
+    const { signature } = await sponsor.signTransaction(bytes);
+    sendJson(res, 200, {
+      bytes: Buffer.from(bytes).toString('base64'),
+      signature,
+      sponsor: sponsorAddress,
+      gasBudget: gasBudget.toString(),
+    });
+  },
+});
+
+console.log(`[sponsor-server] sponsor address ${sponsorAddress} on ${SUI_NETWORK}`);
@@ -11,7 +11,8 @@ export default function Home() {
           <h1 className='text-6xl font-bold gradient-text leading-tight'>Welcome to Sui zkLogin</h1>
           <p className='text-xl text-white/70 max-w-2xl mx-auto leading-relaxed'>
             Experience the future of Web3 authentication with zero-knowledge proofs. Connect your
-            Google account seamlessly without compromising your privacy.
+            Google, Apple, Twitch or other OAuth account seamlessly without compromising your
+            privacy.
           </p>
         </div>
 
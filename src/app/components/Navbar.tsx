@@ -1,6 +1,7 @@
 import { Link, useLocation } from 'react-router-dom';
-import { useZkLogin } from '@/features/auth';
-import { ConnectWalletButton, UserWalletButton } from '@/shared/ui';
+import { isAuthInProgress, useZkLogin } from '@/features/auth';
+import type { SuiNetwork } from '@/config';
+import { ConnectWalletButton, NetworkSwitcher, UserWalletButton } from '@/shared/ui';
 // import DropdownMenu from "./DropdownMenu";
 
 // ============================================================================
@@ -18,6 +19,7 @@ interface NavigationItem {
 
 const NAVIGATION_ITEMS: NavigationItem[] = [
   { to: '/profile', label: 'Profile' },
+  { to: '/send', label: 'Send' },
   { to: '/test_tx', label: 'Test TX' },
   { to: '/gallery', label: 'UI Gallery' },
 ];
@@ -64,9 +66,11 @@ const TEXT = {
  *
  * Features:
  * - Logo and brand name with hover effects
- * - Navigation links (Profile, Test TX) - desktop only
+ * - Navigation links (Profile, Send, Test TX) - desktop only
  * - Authentication state management with loading states
  * - Connect/Disconnect wallet functionality with dropdown
+ * - Switching between, adding and signing out of zkLogin accounts
+ * - Sui network switcher (devnet/testnet/mainnet/localnet)
  * - Mobile navigation integrated in dropdown menu
  * - Responsive design with different layouts for desktop/mobile
  *
@@ -77,7 +81,19 @@ export default function Navbar() {
   // HOOKS & STATE
   // ============================================================================
 
-  const { account, isRestoring, logout } = useZkLogin();
+  const {
+    account,
+    accounts,
+    authState,
+    isRestoring,
+    logout,
+    addAccount,
+    switchAccount,
+    logoutAccount,
+    network,
+    networks,
+    switchNetwork,
+  } = useZkLogin();
   const location = useLocation();
 
   // ============================================================================
@@ -101,6 +117,10 @@ export default function Navbar() {
         <UserWalletButton
           address={account.address}
           onDisconnect={logout}
+          accounts={accounts}
+          onSwitchAccount={address => void switchAccount(address)}
+          onAddAccount={() => void addAccount()}
+          onSignOutAccount={address => void logoutAccount(address)}
           isMobile={isMobile}
           includeNavigation={isMobile}
           navigationItems={isMobile ? NAVIGATION_ITEMS : []}
@@ -142,6 +162,14 @@ export default function Navbar() {
 
         {/* Right Side - Desktop Auth & Mobile Menu */}
         <div className={STYLES.rightSide}>
+          {/* Network Switcher (sessions are kept per network) */}
+          <NetworkSwitcher
+            networks={networks}
+            activeNetwork={network.id}
+            onSwitch={id => void switchNetwork(id as SuiNetwork)}
+            disabled={isRestoring || isAuthInProgress(authState)}
+          />
+
           {/* Desktop Authentication */}
           <div className={STYLES.desktopAuth}>{renderAuthState(false)}</div>
 
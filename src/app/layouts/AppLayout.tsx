@@ -1,6 +1,7 @@
 import React from 'react';
 import { Outlet } from 'react-router-dom';
 import { Navbar } from '@/app/components';
+import { useSessionMonitor } from '@/features/auth';
 
 // ============================================================================
 // TYPES & INTERFACES
@@ -49,10 +50,14 @@ const BACKGROUND_EFFECTS = [
  * - Animated background effects for visual appeal
  * - Responsive design with proper spacing and z-index management
  * - Glass morphism effects for modern UI aesthetics
+ * - Session expiry warnings and renewal on every page
  *
  * @returns JSX element containing the complete app layout
  */
 export default function AppLayout() {
+  // Warn before the zkLogin session expires and offer a renewal
+  useSessionMonitor();
+
   return (
     <div className={LAYOUT_CLASSES.container}>
       {/* Animated Background Effects */}
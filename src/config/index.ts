@@ -18,7 +18,7 @@ import { createAppError, type AppError, type Result, ok, err } from '@/shared/li
  * import { getConfig } from './config';
  * const configResult = getConfig();
  * if (configResult.ok) {
- *   console.log(configResult.data.googleClientId); // Type-safe access
+ *   console.log(configResult.data.googleClientId); // Type-safe access (optional per provider)
  *   console.log(configResult.data.redirectUrl); // Auto-generated: http://localhost:5173/auth/callback
  * }
  * ```
@@ -28,30 +28,211 @@ import { createAppError, type AppError, type Result, ok, err } from '@/shared/li
 // CONFIGURATION SCHEMA
 // ============================================================================
 
+/**
+ * Config keys holding OAuth client IDs, one per provider in the OAuth provider registry.
+ * At least one of them must be set for the app to offer a sign-in option.
+ */
+export const OAUTH_CLIENT_ID_KEYS = [
+    'googleClientId',
+    'facebookClientId',
+    'twitchClientId',
+    'appleClientId',
+    'kakaoClientId',
+    'slackClientId',
+    'microsoftClientId',
+] as const;
+
+export type OAuthClientIdConfigKey = (typeof OAUTH_CLIENT_ID_KEYS)[number];
+
+/**
+ * Generic OpenID Connect issuer, configured by URL.
+ * Endpoints and the JWKS URI are learned from the issuer's discovery document
+ * (`<issuer>/.well-known/openid-configuration`) at login time.
+ */
+const oidcIssuerSchema = z.object({
+    id: z.string().regex(/^[a-z0-9-]+$/, 'OIDC issuer id must be lowercase letters, digits or dashes'),
+    name: z.string().min(1),
+    issuer: z.url('Invalid OIDC issuer URL'),
+    clientId: z.string().min(1),
+    scopes: z.array(z.string()).default(['openid', 'email', 'profile']),
+    subjectClaim: z.string().min(1).default('sub'),
+});
+
+export type OidcIssuerConfig = z.infer<typeof oidcIssuerSchema>;
+
+/**
+ * OAuth flow per provider: `implicit` receives the id_token directly in the redirect,
+ * `code` uses the authorization code flow with PKCE and exchanges the code for an id_token.
+ */
+export const oauthFlowModeSchema = z.enum(['implicit', 'code']);
+
+export type OAuthFlowMode = z.infer<typeof oauthFlowModeSchema>;
+
+/**
+ * How the provider's sign-in page is shown: `redirect` navigates the whole page,
+ * `popup` opens it in a window and keeps the current page (falls back to redirect when blocked).
+ */
+export const loginModeSchema = z.enum(['redirect', 'popup']);
+
+export type LoginMode = z.infer<typeof loginModeSchema>;
+
+/**
+ * Where ephemeral secrets (key, randomness, JWT, proof, salt) are kept: `indexeddb` encrypts them
+ * with a non-extractable WebCrypto key, `session` uses per-tab sessionStorage, `memory` keeps them
+ * until reload. Unavailable backends fall back in that order.
+ */
+export const secureStorageKindSchema = z.enum(['indexeddb', 'session', 'memory']);
+
+export type SecureStorageKind = z.infer<typeof secureStorageKindSchema>;
+
+/**
+ * Sui network the app talks to (selects per-network settings such as the session window).
+ */
+export const suiNetworkSchema = z.enum(['devnet', 'testnet', 'mainnet', 'localnet']);
+
+export type SuiNetwork = z.infer<typeof suiNetworkSchema>;
+
+/**
+ * Per-network overrides for the built-in network registry (RPC, prover, faucet and explorer URLs).
+ * `null` removes a faucet or explorer; `enabled` shows or hides the network in the switcher
+ * (localnet is hidden unless enabled or selected as the default network).
+ */
+const suiNetworkOverrideSchema = z.object({
+    enabled: z.boolean().optional(),
+    rpcUrl: z.url('Invalid Sui RPC URL').optional(),
+    proverUrl: z.url('Invalid prover URL format').optional(),
+    faucetUrl: z.url('Invalid faucet URL').nullable().optional(),
+    explorerObjectBaseUrl: z.url('Invalid explorer URL').nullable().optional(),
+    explorerTxBaseUrl: z.url('Invalid explorer URL').nullable().optional(),
+});
+
+export type SuiNetworkOverride = z.infer<typeof suiNetworkOverrideSchema>;
+
+/**
+ * Session lifetime policy: how many epochs after the login epoch the ephemeral key stays valid
+ * (`maxEpoch = currentEpoch + epochs`). A wall-clock target, when set, is converted to epochs
+ * using the network's epoch duration and takes precedence over the epoch windows.
+ */
+const sessionPolicySchema = z.object({
+    // Default epoch window
+    epochs: z.number().int().min(1).default(2),
+    // Epoch window per network, e.g. {"mainnet": 7}
+    epochsByNetwork: z.partialRecord(suiNetworkSchema, z.number().int().min(1)).default({}),
+    // Upper bound for any window (validators reject maxEpoch beyond current epoch + 30)
+    maxEpochs: z.number().int().min(1).max(30).default(30),
+    // Optional wall-clock session length in minutes
+    targetDurationMinutes: z.number().positive().optional(),
+}).refine(
+    (policy) => [policy.epochs, ...Object.values(policy.epochsByNetwork)].every((epochs) => epochs <= policy.maxEpochs),
+    { message: 'Session epoch windows must not exceed maxEpochs', path: ['epochs'] }
+);
+
+export type SessionPolicyConfig = z.infer<typeof sessionPolicySchema>;
+
+/**
+ * Backend salt API request shape (JSON in VITE_SALT_SERVICE). The defaults match
+ * `server/salt-server`: POST `{ "jwtToken": "<jwt>" }`, response `{ "salt": "..." }`.
+ * Mysten's salt server: `{"tokenField":"token"}`. Enoki (`/v1/zklogin`): `{"method":"GET","tokenField":null,
+ * "tokenHeader":"zklogin-jwt","saltPath":"data.salt","headers":{"Authorization":"Bearer <public API key>"}}`.
+ */
+export const saltServiceConfigSchema = z.object({
+    method: z.enum(['POST', 'GET']).default('POST'),
+    // JSON body field carrying the JWT (null sends no body)
+    tokenField: z.string().min(1).nullable().default('jwtToken'),
+    // Header carrying the JWT instead of (or as well as) the body
+    tokenHeader: z.string().min(1).optional(),
+    // Extra request headers (e.g. an API key)
+    headers: z.record(z.string(), z.string()).default({}),
+    // Dot path of the salt in the response
+    saltPath: z.string().min(1).default('salt'),
+    timeoutMs: z.number().int().positive().default(10_000),
+    // Retries after network errors, timeouts, 429 and 5xx responses (exponential backoff)
+    retries: z.number().int().min(0).max(5).default(2),
+    retryDelayMs: z.number().int().positive().default(500),
+}).refine(
+    (saltService) => saltService.tokenField !== null || !!saltService.tokenHeader,
+    { message: 'The salt request needs a tokenField or a tokenHeader', path: ['tokenField'] }
+);
+
+export type SaltServiceConfig = z.infer<typeof saltServiceConfigSchema>;
+
 const configSchema = z.object({
-    // OAuth Configuration
-    googleClientId: z.string().min(1, 'Google Client ID is required'),
+    // OAuth Configuration (client IDs per provider, all optional individually)
+    googleClientId: z.string().min(1).optional(),
+    facebookClientId: z.string().min(1).optional(),
+    twitchClientId: z.string().min(1).optional(),
+    appleClientId: z.string().min(1).optional(),
+    kakaoClientId: z.string().min(1).optional(),
+    slackClientId: z.string().min(1).optional(),
+    microsoftClientId: z.string().min(1).optional(),
+
+    // Generic OIDC issuers (JSON array in VITE_OIDC_ISSUERS)
+    oidcIssuers: z.array(oidcIssuerSchema).default([]),
+
+    // OAuth flow overrides keyed by provider id, e.g. {"google":"code"} (JSON in VITE_OAUTH_FLOWS)
+    oauthFlows: z.record(z.string(), oauthFlowModeSchema).default({}),
+    // Backend that exchanges authorization codes for providers requiring a client secret
+    oauthTokenProxyUrl: z.url('Invalid OAuth token proxy URL').optional(),
+    // Default login mode (VITE_LOGIN_MODE)
+    loginMode: loginModeSchema.default('redirect'),
+    // Storage backend for ephemeral secrets (VITE_SECURE_STORAGE)
+    secureStorage: secureStorageKindSchema.default('indexeddb'),
 
     // Dynamic redirect URL generation
     redirectUrl: z.url('Invalid redirect URL format'),
 
     // ZK Prover Service
-    proverUrl: z.url('Invalid prover URL format').default('https://prover-dev.mystenlabs.com/v1'),
+    // mysten: Mysten HTTP prover, self-hosted: docker-compose.yml prover, enoki: Enoki API, mock: fake proofs (dev only)
+    proverType: z.enum(['mysten', 'self-hosted', 'enoki', 'mock']).default('mysten'),
+    // Overrides the default network's prover (the registry picks one per network otherwise); required for self-hosted
+    proverUrl: z.url('Invalid prover URL format').optional(),
+    enokiApiKey: z.string().min(1).optional(),
+    // Enoki proves for the active network; this one is used on localnet
+    enokiNetwork: z.enum(['devnet', 'testnet', 'mainnet']).default('devnet'),
 
     // Salt Service Configuration
     useBackendSaltService: z.boolean().default(false),
     saltServiceUrl: z.url('Invalid salt service URL').optional(),
+    saltService: saltServiceConfigSchema.prefault({}),
+
+    // Sign-In with Sui backend that issues API tokens (server/siws-server)
+    siwsUrl: z.url('Invalid SIWS server URL').optional(),
+    // Gas station that sponsors transaction gas (server/sponsor-server)
+    sponsorUrl: z.url('Invalid sponsor URL').optional(),
 
     // Sui Blockchain Configuration
-    suiRpcUrl: z.url('Invalid Sui RPC URL').default('https://fullnode.devnet.sui.io:443'),
+    // Network selected on first visit; users can switch at runtime (VITE_SUI_NETWORK)
+    suiNetwork: suiNetworkSchema.default('devnet'),
+    // Overrides the default network's RPC URL
+    suiRpcUrl: z.url('Invalid Sui RPC URL').optional(),
+    // Registry overrides keyed by network, e.g. {"localnet":{"enabled":true}} (JSON in VITE_SUI_NETWORKS)
+    networks: z.partialRecord(suiNetworkSchema, suiNetworkOverrideSchema).default({}),
 
-    // Explorer Configuration
+    // Session lifetime (JSON in VITE_SESSION_POLICY)
+    sessionPolicy: sessionPolicySchema.prefault({}),
+
+    // Explorer Configuration (overrides the default network's object page base URL)
     explorerObjectBaseUrl: z.url('Invalid explorer URL').optional(),
 
     // Development Configuration
     isDevelopment: z.boolean().default(import.meta.env.DEV),
     logLevel: z.enum(['debug', 'info', 'warn', 'error']).default('info'),
-});
+}).refine(
+    (config) => OAUTH_CLIENT_ID_KEYS.some((key) => !!config[key]) || config.oidcIssuers.length > 0,
+    { message: 'At least one OAuth client ID (e.g. VITE_GOOGLE_CLIENT_ID) or OIDC issuer (VITE_OIDC_ISSUERS) is required', path: ['googleClientId'] }
+).refine(
+    (config) => new Set(config.oidcIssuers.map((issuer) => issuer.id)).size === config.oidcIssuers.length,
+    { message: 'OIDC issuer ids must be unique', path: ['oidcIssuers'] }
+).refine(
+    (config) => config.proverType !== 'self-hosted' || !!config.proverUrl,
+    { message: 'VITE_ZK_PROVER_URL is required when VITE_ZK_PROVER_TYPE=self-hosted', path: ['proverUrl'] }
+).refine(
+    (config) => config.proverType !== 'enoki' || !!config.enokiApiKey,
+    { message: 'VITE_ENOKI_API_KEY is required when VITE_ZK_PROVER_TYPE=enoki', path: ['enokiApiKey'] }
+).refine(
+    (config) => config.networks[config.suiNetwork]?.enabled !== false,
+    { message: 'The default network (VITE_SUI_NETWORK) cannot be disabled in VITE_SUI_NETWORKS', path: ['networks'] }
+);
 
 // ============================================================================
 // UTILITY FUNCTIONS
@@ -116,6 +297,28 @@ const getEnvVar = (key: string, fallback?: string): string | undefined => {
     return import.meta.env[key] || fallback;
 };
 
+/**
+ * Get a JSON-encoded environment variable
+ * 
+ * @param key - Environment variable key
+ * @returns Parsed value, or undefined if not set
+ * @throws AppError if the value is not valid JSON
+ */
+const getJsonEnvVar = (key: string): unknown => {
+    const raw = getEnvVar(key);
+    if (!raw) {
+        return undefined;
+    }
+    try {
+        return JSON.parse(raw);
+    } catch (error) {
+        throw createAppError('Validation', `${key} must be valid JSON`, {
+            cause: error,
+            details: { context: 'parseConfig', key }
+        });
+    }
+};
+
 // ============================================================================
 // CONFIGURATION PARSING
 // ============================================================================
@@ -144,11 +347,31 @@ const parseConfig = (): Result<Config, AppError> => {
         // Parse configuration
         const rawConfig = {
             googleClientId: getEnvVar('VITE_GOOGLE_CLIENT_ID'),
+            facebookClientId: getEnvVar('VITE_FACEBOOK_CLIENT_ID'),
+            twitchClientId: getEnvVar('VITE_TWITCH_CLIENT_ID'),
+            appleClientId: getEnvVar('VITE_APPLE_CLIENT_ID'),
+            kakaoClientId: getEnvVar('VITE_KAKAO_CLIENT_ID'),
+            slackClientId: getEnvVar('VITE_SLACK_CLIENT_ID'),
+            microsoftClientId: getEnvVar('VITE_MICROSOFT_CLIENT_ID'),
+            oidcIssuers: getJsonEnvVar('VITE_OIDC_ISSUERS'),
+            oauthFlows: getJsonEnvVar('VITE_OAUTH_FLOWS'),
+            oauthTokenProxyUrl: getEnvVar('VITE_OAUTH_TOKEN_PROXY_URL'),
+            loginMode: getEnvVar('VITE_LOGIN_MODE'),
+            secureStorage: getEnvVar('VITE_SECURE_STORAGE'),
             redirectUrl,
+            proverType: getEnvVar('VITE_ZK_PROVER_TYPE'),
             proverUrl: getEnvVar('VITE_ZK_PROVER_URL'),
+            enokiApiKey: getEnvVar('VITE_ENOKI_API_KEY'),
+            enokiNetwork: getEnvVar('VITE_ENOKI_NETWORK'),
             useBackendSaltService: getEnvVar('VITE_USE_BACKEND_SALT_SERVICE') === 'true',
             saltServiceUrl: getEnvVar('VITE_SALT_SERVICE_URL'),
+            saltService: getJsonEnvVar('VITE_SALT_SERVICE'),
+            siwsUrl: getEnvVar('VITE_SIWS_URL'),
+            sponsorUrl: getEnvVar('VITE_SPONSOR_URL'),
+            suiNetwork: getEnvVar('VITE_SUI_NETWORK'),
             suiRpcUrl: getEnvVar('VITE_SUI_RPC_URL'),
+            networks: getJsonEnvVar('VITE_SUI_NETWORKS'),
+            sessionPolicy: getJsonEnvVar('VITE_SESSION_POLICY'),
             explorerObjectBaseUrl: getEnvVar('VITE_EXPLORER_OBJECT_BASE_URL'),
             isDevelopment: import.meta.env.DEV,
             logLevel: getEnvVar('VITE_LOG_LEVEL', 'info') as 'debug' | 'info' | 'warn' | 'error',
@@ -244,14 +467,23 @@ export const validateProductionConfig = (): Result<{ isValid: boolean; issues: s
     const config = configResult.data;
     const issues: string[] = [];
 
-    if (!config.googleClientId) {
-        issues.push('Google Client ID is required for production');
+    if (!OAUTH_CLIENT_ID_KEYS.some((key) => !!config[key]) && config.oidcIssuers.length === 0) {
+        issues.push('At least one OAuth client ID or OIDC issuer is required for production');
+    }
+
+    const insecureIssuers = config.oidcIssuers.filter((issuer) => !issuer.issuer.startsWith('https://'));
+    if (insecureIssuers.length > 0) {
+        issues.push(`OIDC issuers must use HTTPS in production: ${insecureIssuers.map((issuer) => issuer.id).join(', ')}`);
     }
 
     if (config.useBackendSaltService && !config.saltServiceUrl) {
         issues.push('Salt Service URL is required when using backend salt service');
     }
 
+    if (config.proverType === 'mock') {
+        issues.push('Mock prover produces proofs that are rejected on-chain');
+    }
+
     if (config.isDevelopment) {
         issues.push('Application is running in development mode');
     }
@@ -270,10 +502,22 @@ export const validateProductionConfig = (): Result<{ isValid: boolean; issues: s
  */
 export const getConfigSummary = (): Result<{
     redirectUrl: string;
+    oauthClientIds: OAuthClientIdConfigKey[];
+    oidcIssuers: string[];
+    oauthFlows: Record<string, OAuthFlowMode>;
+    oauthTokenProxyUrl: string;
+    loginMode: LoginMode;
+    secureStorage: SecureStorageKind;
+    proverType: string;
     proverUrl: string;
     useBackendSaltService: boolean;
     saltServiceUrl: string;
+    siwsUrl: string;
+    sponsorUrl: string;
+    suiNetwork: SuiNetwork;
     suiRpcUrl: string;
+    networkOverrides: SuiNetwork[];
+    sessionPolicy: SessionPolicyConfig;
     isDevelopment: boolean;
     logLevel: string;
 }, AppError> => {
@@ -285,10 +529,22 @@ export const getConfigSummary = (): Result<{
     const config = configResult.data;
     return ok({
         redirectUrl: config.redirectUrl,
-        proverUrl: config.proverUrl,
+        oauthClientIds: OAUTH_CLIENT_ID_KEYS.filter((key) => !!config[key]),
+        oidcIssuers: config.oidcIssuers.map((issuer) => issuer.issuer),
+        oauthFlows: config.oauthFlows,
+        oauthTokenProxyUrl: config.oauthTokenProxyUrl ?? 'not configured',
+        loginMode: config.loginMode,
+        secureStorage: config.secureStorage,
+        proverType: config.proverType,
+        proverUrl: config.proverUrl ?? 'network default',
         useBackendSaltService: config.useBackendSaltService,
         saltServiceUrl: config.saltServiceUrl ? '***configured***' : 'not configured',
-        suiRpcUrl: config.suiRpcUrl,
+        siwsUrl: config.siwsUrl ?? 'not configured',
+        sponsorUrl: config.sponsorUrl ?? 'not configured',
+        suiNetwork: config.suiNetwork,
+        suiRpcUrl: config.suiRpcUrl ?? 'network default',
+        networkOverrides: Object.keys(config.networks) as SuiNetwork[],
+        sessionPolicy: config.sessionPolicy,
         isDevelopment: config.isDevelopment,
         logLevel: config.logLevel,
     });
@@ -1,7 +1,6 @@
 import React, { useEffect, createContext, useContext } from 'react';
 import { useZkLoginStore as useZkLoginStoreInternal } from '@/features/auth/store';
 import { useCrossTabSync } from '@/features/auth/hooks';
-import { client as sharedClient } from '@/shared/lib';
 import type { ZkLoginContext } from '@/features/auth/types';
 
 const ZkLoginCtx = createContext<ZkLoginContext | null>(null);
@@ -22,7 +21,7 @@ const ZkLoginCtx = createContext<ZkLoginContext | null>(null);
  *
  * 🏗️ ARCHITECTURE:
  * - Wraps Zustand store with React Context
- * - Provides Sui client for blockchain operations
+ * - Provides Sui client for the active network (rebuilt on network switch)
  * - Handles session restoration and error states
  * - Enables cross-tab synchronization
  *
@@ -46,23 +45,37 @@ const ZkLoginCtx = createContext<ZkLoginContext | null>(null);
 export function ZkLoginProvider({ children }: { children: React.ReactNode }) {
   const {
     account,
+    accounts,
     decodedJwt,
     isRestoring,
     salt,
-    status,
+    provider,
+    authState,
     error,
+    client,
+    network,
+    networks,
     loginWithProvider,
     completeLogin,
+    completeLoginWithCode,
     ensureZkSession,
     logout,
     clearSalt,
     clearError,
     checkSessionValidity,
     ensureValidSession,
+    renewSession,
+    cancelLogin,
+    addAccount,
+    switchAccount,
+    logoutAccount,
+    switchNetwork,
+    exportBackup,
+    importBackup,
+    verifyPersonalMessage,
+    signInWithSui,
   } = useZkLoginStoreInternal();
 
-  const client = sharedClient;
-
   // Enable cross-tab synchronization for seamless experience across browser tabs
   useCrossTabSync();
 
@@ -86,7 +99,7 @@ export function ZkLoginProvider({ children }: { children: React.ReactNode }) {
    * 🏗️ IMPLEMENTATION:
    * - Runs on component mount and when dependencies change
    * - Uses ensureZkSession to restore cryptographic material
-   * - Provides small delay for store hydration
+   * - Re-runs once the store has hydrated from secure storage (async)
    * - Cleans up timers to prevent memory leaks
    */
   useEffect(() => {
@@ -122,20 +135,35 @@ export function ZkLoginProvider({ children }: { children: React.ReactNode }) {
   // Create context value with all zkLogin functionality
   const value: ZkLoginContext = {
     client,
+    network,
+    networks,
     account,
+    accounts,
     decodedJwt,
     isRestoring,
     salt,
-    status,
+    provider,
+    authState,
     error,
     loginWithProvider,
     completeLogin,
+    completeLoginWithCode,
     ensureZkSession,
     logout,
     clearSalt,
     clearError,
     checkSessionValidity,
     ensureValidSession,
+    renewSession,
+    cancelLogin,
+    addAccount,
+    switchAccount,
+    logoutAccount,
+    switchNetwork,
+    exportBackup,
+    importBackup,
+    verifyPersonalMessage,
+    signInWithSui,
   };
 
   return <ZkLoginCtx.Provider value={value}>{children}</ZkLoginCtx.Provider>;
@@ -155,9 +183,15 @@ export function ZkLoginProvider({ children }: { children: React.ReactNode }) {
  * - Provides user account and authentication state
  *
  * 🏗️ USAGE PATTERNS:
- * - Authentication: loginWithProvider, completeLogin, logout
- * - Transaction signing: ensureZkSession
- * - State access: account, decodedJwt, isRestoring
+ * - Authentication: loginWithProvider, completeLogin, completeLoginWithCode, logout
+ * - Transaction signing: ensureZkSession (session.signer)
+ * - Message signing: session.signPersonalMessage, verifyPersonalMessage
+ * - Backend login: signInWithSui (API token from the SIWS server)
+ * - Session lifetime: checkSessionValidity, renewSession (see useSessionMonitor)
+ * - Multiple accounts: accounts, addAccount, switchAccount, logoutAccount
+ * - Networks: network, networks, switchNetwork (client follows the active network)
+ * - Backups: exportBackup, importBackup (passphrase-encrypted salt and session)
+ * - State access: account, decodedJwt, isRestoring, authState (step of the auth flow)
  * - Utility functions: clearSalt
  *
  * @returns ZkLoginContext - Complete zkLogin functionality and state
@@ -197,18 +231,33 @@ export function useZkLoginStore() {
   // Return only the public interface, hiding internal methods
   return {
     account: store.account,
+    accounts: store.accounts,
     decodedJwt: store.decodedJwt,
     isRestoring: store.isRestoring,
     salt: store.salt,
-    status: store.status,
+    provider: store.provider,
+    authState: store.authState,
     error: store.error,
+    network: store.network,
+    networks: store.networks,
     loginWithProvider: store.loginWithProvider,
     completeLogin: store.completeLogin,
+    completeLoginWithCode: store.completeLoginWithCode,
     ensureZkSession: store.ensureZkSession,
     logout: store.logout,
     clearSalt: store.clearSalt,
     clearError: store.clearError,
     checkSessionValidity: store.checkSessionValidity,
     ensureValidSession: store.ensureValidSession,
+    renewSession: store.renewSession,
+    cancelLogin: store.cancelLogin,
+    addAccount: store.addAccount,
+    switchAccount: store.switchAccount,
+    logoutAccount: store.logoutAccount,
+    switchNetwork: store.switchNetwork,
+    exportBackup: store.exportBackup,
+    importBackup: store.importBackup,
+    verifyPersonalMessage: store.verifyPersonalMessage,
+    signInWithSui: store.signInWithSui,
   };
 }
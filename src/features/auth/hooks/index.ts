@@ -1,3 +1,5 @@
 // Auth hooks exports
 export { useCrossTabSync } from './useCrossTabSync';
 export { ZkLoginProvider, useZkLogin } from './ZkLoginProvider';
+export { useSessionMonitor } from './useSessionMonitor';
+export type { SessionMonitorOptions, SessionMonitorState } from './useSessionMonitor';
@@ -0,0 +1,202 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { useZkLoginStore as useZkLoginStoreInternal, isAuthInProgress } from '@/features/auth/store';
+import { subscribeEpochLeadership, subscribeTabSync, postTabSyncMessage } from '@/features/auth/services';
+import type { SessionInfo, SessionValidation } from '@/features/auth/types';
+import { useNotifications } from '@/app';
+import { sessionCookieStorage } from '@/shared/utils';
+import { createAppError, toAppError, type AppError } from '@/shared/lib';
+
+export interface SessionMonitorOptions {
+    // Warn when this many epochs (or fewer) remain (default: 1)
+    warnAtEpochs?: number;
+    // How often the polling leader tab checks the session (default: 60s)
+    pollIntervalMs?: number;
+    // Show notifications when the session is about to expire or has expired (default: true)
+    notify?: boolean;
+    // Try a silent renewal (prompt=none) once per session when it is about to expire (default: false)
+    autoRenew?: boolean;
+}
+
+export interface SessionMonitorState {
+    sessionInfo: SessionInfo | null;
+    isChecking: boolean;
+    error: AppError | null;
+    isExpiringSoon: boolean;
+    isExpired: boolean;
+    isRenewing: boolean;
+    refresh: () => Promise<void>;
+    renew: () => Promise<void>;
+}
+
+// Remembers the session (by maxEpoch) a silent renewal was tried for, so a
+// failed attempt does not loop after redirecting back
+const SILENT_RENEWAL_KEY = "zk_silent_renewal_epoch";
+
+/**
+ * useSessionMonitor Hook
+ *
+ * Tracks how many epochs the current zkLogin session has left and renews it
+ * before `currentEpoch > maxEpoch` ends it.
+ *
+ * How it works:
+ * 1. Checks the session on mount and on account change; one tab (the leader,
+ *    elected with Web Locks) also polls every `pollIntervalMs` and shares its
+ *    results with the other tabs, which do not poll
+ * 2. When `warnAtEpochs` or fewer epochs remain, shows a warning notification
+ *    with a one-click "Renew session" action (once per session)
+ * 3. With `autoRenew`, the leader tab tries a silent renewal (`prompt=none`) first
+ * 4. When the session has expired, shows an error with a "Sign in again" action
+ *
+ * Renewal signs in again with the same provider and account, so the address
+ * stays the same, and returns to the current route.
+ *
+ * Mount it once with notifications (the app layout) and with `notify: false`
+ * wherever the status is displayed.
+ */
+export function useSessionMonitor(options: SessionMonitorOptions = {}): SessionMonitorState {
+    const { warnAtEpochs = 1, pollIntervalMs = 60_000, notify = true, autoRenew = false } = options;
+    const { account, network, authState, checkSessionValidity, renewSession } = useZkLoginStoreInternal();
+    const isLoggingIn = isAuthInProgress(authState);
+    const { addNotification } = useNotifications();
+
+    const [sessionInfo, setSessionInfo] = useState<SessionInfo | null>(null);
+    const [isChecking, setIsChecking] = useState(false);
+    const [error, setError] = useState<AppError | null>(null);
+    const [isExpired, setIsExpired] = useState(false);
+    const [isRenewing, setIsRenewing] = useState(false);
+    const [isLeader, setIsLeader] = useState(false);
+    const notifiedRef = useRef<string | null>(null);
+
+    const isExpiringSoon = !!sessionInfo && !isExpired && sessionInfo.epochsRemaining <= warnAtEpochs;
+
+    const renew = useCallback(async () => {
+        setIsRenewing(true);
+        try {
+            await renewSession();
+        } finally {
+            setIsRenewing(false);
+        }
+    }, [renewSession]);
+
+    const applyValidation = useCallback((validation: SessionValidation) => {
+        // Same rule as createSession: the session signs until currentEpoch > maxEpoch.
+        // Other failures (an unreadable epoch, missing data) do not mean it expired
+        const info = validation.sessionInfo;
+        setSessionInfo(info ?? null);
+        setIsExpired(info ? info.currentEpoch > info.maxEpoch : validation.error?.kind === 'SessionExpired');
+        setError(validation.isValid ? null : validation.error ?? createAppError('SessionExpired', 'Session has expired'));
+    }, []);
+
+    const refresh = useCallback(async () => {
+        if (!account) {
+            setSessionInfo(null);
+            setIsExpired(false);
+            setError(null);
+            return;
+        }
+
+        setIsChecking(true);
+        try {
+            const validation = await checkSessionValidity();
+            applyValidation(validation);
+            if (isLeader) {
+                // The error cause may hold objects that cannot be cloned into a message
+                const shared = validation.error ? { ...validation, error: { ...validation.error, cause: undefined } } : validation;
+                postTabSyncMessage({ type: 'session', network: network.id, address: account.address, validation: shared });
+            }
+        } catch (checkError) {
+            setError(toAppError(checkError, 'Session check failed'));
+        } finally {
+            setIsChecking(false);
+        }
+    }, [account, network.id, isLeader, checkSessionValidity, applyValidation]);
+
+    // Compete to be the tab that polls epochs
+    useEffect(() => subscribeEpochLeadership(setIsLeader), []);
+
+    // Check on mount / account change, then poll (leader only)
+    useEffect(() => {
+        // Skip while a login is completing: the session data is being replaced
+        if (isLoggingIn) {
+            return;
+        }
+        void refresh();
+        if (!isLeader) {
+            return;
+        }
+        const interval = setInterval(() => void refresh(), pollIntervalMs);
+        return () => clearInterval(interval);
+    }, [refresh, pollIntervalMs, isLoggingIn, isLeader]);
+
+    // Followers take the leader's checks of the same session
+    useEffect(() => {
+        if (isLeader || !account) {
+            return;
+        }
+        return subscribeTabSync((message) => {
+            if (message.type === 'session' && message.network === network.id && message.address === account.address) {
+                applyValidation(message.validation);
+            }
+        });
+    }, [isLeader, account, network.id, applyValidation]);
+
+    // Warn / renew as expiry approaches
+    useEffect(() => {
+        if (!account) {
+            return;
+        }
+
+        if (isExpired) {
+            const key = `expired:${account.address}`;
+            if (notify && notifiedRef.current !== key) {
+                notifiedRef.current = key;
+                addNotification({
+                    type: 'error',
+                    title: 'Session expired',
+                    message: 'Your zkLogin session has expired. Sign in again to keep using this address.',
+                    duration: 0,
+                    action: { label: 'Sign in again', onClick: () => void renew() },
+                });
+            }
+            return;
+        }
+
+        if (!sessionInfo || !isExpiringSoon) {
+            return;
+        }
+
+        const lastSilentRenewal = sessionCookieStorage.getItem(SILENT_RENEWAL_KEY) as string | null;
+        if (autoRenew && isLeader && lastSilentRenewal !== String(sessionInfo.maxEpoch)) {
+            sessionCookieStorage.setItem(SILENT_RENEWAL_KEY, String(sessionInfo.maxEpoch));
+            void renewSession({ silent: true });
+            return;
+        }
+
+        const key = `expiring:${sessionInfo.maxEpoch}`;
+        if (notify && notifiedRef.current !== key) {
+            notifiedRef.current = key;
+            addNotification({
+                type: 'warning',
+                title: 'Session expiring soon',
+                message: describeRemaining(sessionInfo),
+                duration: 15_000,
+                action: { label: 'Renew session', onClick: () => void renew() },
+            });
+        }
+    }, [account, sessionInfo, isExpired, isExpiringSoon, isLeader, autoRenew, notify, addNotification, renew, renewSession]);
+
+    return { sessionInfo, isChecking, error, isExpiringSoon, isExpired, isRenewing, refresh, renew };
+}
+
+function describeRemaining(sessionInfo: SessionInfo): string {
+    const epochs = sessionInfo.epochsRemaining === 0
+        ? 'with this epoch'
+        : `in ${sessionInfo.epochsRemaining} epoch${sessionInfo.epochsRemaining === 1 ? '' : 's'}`;
+    const expiresAtMs = sessionInfo.expiresAtMs ?? sessionInfo.policy?.expiresAtMs;
+    if (!expiresAtMs) {
+        return `Your session ends ${epochs}. Renew it to keep signing transactions.`;
+    }
+    const minutes = Math.max(1, Math.round((expiresAtMs - Date.now()) / 60_000));
+    const remaining = minutes >= 120 ? `about ${Math.round(minutes / 60)} hours` : `about ${minutes} minutes`;
+    return `Your session ends ${epochs} (${remaining}). Renew it to keep signing transactions.`;
+}
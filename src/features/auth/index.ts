@@ -5,4 +5,4 @@ export * from './services';
 export * from './store';
 
 // Types
-export type { ZkSession, ZkLoginState, ZkLoginStoreState, ZkLoginContext, JwtPayload, GoogleJwtPayload, SaltService } from './types';
+export type { ZkSession, SessionPolicy, SessionInfo, SessionValidation, RenewSessionOptions, AuthState, LoginProgressStep, ZkLoginState, ZkLoginStoreState, ZkLoginContext, JwtPayload, GoogleJwtPayload, SaltService, ProverService, ZkProof, ZkProofRequest, OAuthProviderId, OAuthProviderDefinition, OAuthProviderOption, OAuthResponseType, BuiltInOAuthProviderId, OidcProviderId, OidcDiscoveryDocument, OAuthCallbackParams, LoginOptions, StoredAccount, SessionBackup, RestoredBackup, VerifiedMessage, MessageVerifier, SiwsToken } from './types';
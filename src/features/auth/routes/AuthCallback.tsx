@@ -1,27 +1,69 @@
 import { useEffect, useRef } from 'react';
 import { useNavigate, useSearchParams } from 'react-router-dom';
-import { useZkLogin } from '@/features/auth';
+import {
+  useZkLogin,
+  AUTH_STATE_LABELS,
+  consumeOAuthState,
+  isAuthInProgress,
+  isLoginPopup,
+  postCallbackToOpener,
+  readOAuthCallbackParams,
+} from '@/features/auth';
 import { useNotifications } from '@/app';
+import { getErrorRemediation } from '@/shared/lib';
 
 /**
  * AuthCallback Component
  *
- * This component handles the OAuth callback from Google after user authentication.
+ * This component handles the OAuth callback from the provider after user authentication.
  * It's the final step in the zkLogin flow where we receive the JWT token and
- * complete the authentication process.
+ * complete the authentication process. It works for any provider in the OAuth
+ * provider registry.
  *
  * Flow:
- * 1. User clicks "Connect Wallet" → redirected to Google
- * 2. User authenticates with Google → Google redirects back here
- * 3. This component extracts JWT from URL and completes zkLogin
+ * 1. User clicks "Connect Wallet" → redirected to the chosen provider
+ * 2. User authenticates with the provider → provider redirects back here
+ * 3. This component validates the OAuth state, extracts the JWT (implicit flow)
+ *    or authorization code (code + PKCE flow) from the URL and completes zkLogin
  * 4. User is redirected to their intended destination
+ *
+ * The state must match the single-use value stored when the login started;
+ * mismatched or replayed callbacks are rejected. The return path comes from
+ * that stored state, never from the URL.
+ *
+ * In popup mode this route loads inside the login popup: it only forwards the
+ * OAuth response to the opener (same origin) and closes; the opener validates
+ * the state and completes the login.
  */
+// OIDC errors returned for `prompt=none` when the provider would have to show UI
+const SILENT_RENEWAL_ERRORS = [
+  'login_required',
+  'interaction_required',
+  'consent_required',
+  'account_selection_required',
+];
+
 export default function AuthCallback() {
   const [_params] = useSearchParams();
   const navigate = useNavigate();
-  const { completeLogin, status, error, clearError } = useZkLogin();
-  const { showError } = useNotifications();
+  const {
+    completeLogin,
+    completeLoginWithCode,
+    cancelLogin,
+    loginWithProvider,
+    renewSession,
+    authState,
+    error,
+    provider,
+    clearError,
+  } = useZkLogin();
+  const { showError, showWarning } = useNotifications();
   const processedRef = useRef(false);
+  const returnToRef = useRef('/');
+  // A failed renewal is retried as a renewal: same identity, current session kept
+  const isRenewalRef = useRef(false);
+  // Set once this page's login is under way, so an already signed-in state does not redirect
+  const loginStartedRef = useRef(false);
 
   useEffect(() => {
     // Prevent multiple processing in React StrictMode
@@ -30,32 +72,80 @@ export default function AuthCallback() {
     }
 
     const processCallback = async () => {
-      // Parse both query params and fragment params
-      // Google OAuth can return data in either location depending on configuration
-      const queryParams = new URLSearchParams(window.location.search);
-      const fragmentParams = new URLSearchParams(window.location.hash.substring(1));
+      // Extract JWT token or authorization code from OAuth response
+      // Providers can return data in the query or the fragment depending on response_mode
+      const callbackParams = readOAuthCallbackParams();
+      const { idToken, code, state, error: providerError, errorDescription } = callbackParams;
 
-      // Extract JWT token and return URL from OAuth response
-      const idToken = queryParams.get('id_token') || fragmentParams.get('id_token');
-      const state = queryParams.get('state') || fragmentParams.get('state');
-      const returnTo = state ? decodeURIComponent(state) : '/';
+      // Popup mode: hand the response to the page that opened the popup
+      if (isLoginPopup()) {
+        processedRef.current = true;
+        postCallbackToOpener(callbackParams);
+        return;
+      }
 
       // Check if we're already logged in and this is a duplicate callback
       const existingJwt = sessionStorage.getItem('zk:jwt');
-      if (existingJwt && !idToken) {
+      if (existingJwt && !idToken && !code && !providerError) {
         navigate('/profile', { replace: true });
         return;
       }
 
+      // Mark as processed before validating: the state is single-use
+      processedRef.current = true;
+
+      // Reject responses that do not belong to a login started in this browser session
+      const stateResult = consumeOAuthState(state);
+      if (!stateResult.ok) {
+        showError(stateResult.error);
+        navigate('/', { replace: true });
+        return;
+      }
+      const { returnTo, renewal } = stateResult.data;
+      returnToRef.current = returnTo;
+      isRenewalRef.current = renewal;
+
+      // Keep the previous session when this was a renewal the provider refused
+      if (providerError) {
+        await cancelLogin();
+      }
+
+      // Silent renewal (prompt=none) needs user interaction: keep the current
+      // session and let the session monitor offer an interactive renewal
+      if (providerError && SILENT_RENEWAL_ERRORS.includes(providerError)) {
+        showWarning(
+          'Session not renewed',
+          'Your sign-in provider needs you to sign in again to renew the session.'
+        );
+        navigate(returnTo, { replace: true });
+        return;
+      }
+
+      if (providerError) {
+        showError({
+          kind: 'OAuth',
+          message: errorDescription || `Sign-in was rejected by the provider (${providerError})`,
+          details: { error: providerError },
+        });
+        navigate('/', { replace: true });
+        return;
+      }
+
+      if (!idToken && code) {
+        // Authorization code flow: exchange the code (with the stored PKCE verifier)
+        await completeLoginWithCode(code, returnTo);
+        return;
+      }
+
       if (!idToken) {
         showError({
           kind: 'OAuth',
-          message: 'Missing authentication token from Google',
+          message: 'Missing authentication token from the sign-in provider',
           details: {
             possibleCauses: [
-              'Google OAuth is not configured to return id_token',
-              'The response_type should be "id_token" not "code"',
-              'Check your Google OAuth client configuration',
+              'The OAuth client is not configured to return id_token or code',
+              'The response_type does not match the flow selected in VITE_OAUTH_FLOWS',
+              'Check the OAuth client configuration of your provider',
               'There might be too many redirects causing the token to be lost',
               'You might already be logged in',
             ],
@@ -65,29 +155,26 @@ export default function AuthCallback() {
         return;
       }
 
-      // Mark as processed before starting to prevent duplicate processing
-      processedRef.current = true;
-
       // Complete the zkLogin process with the received JWT
       await completeLogin(idToken, returnTo);
     };
 
     processCallback();
-  }, [completeLogin, navigate]);
+  }, [completeLogin, completeLoginWithCode, cancelLogin, navigate]);
 
   // Handle success state - redirect to intended destination
   useEffect(() => {
-    if (status === 'success') {
-      const queryParams = new URLSearchParams(window.location.search);
-      const fragmentParams = new URLSearchParams(window.location.hash.substring(1));
-      const state = queryParams.get('state') || fragmentParams.get('state');
-      const returnTo = state ? decodeURIComponent(state) : '/';
-      navigate(returnTo, { replace: true });
+    if (isAuthInProgress(authState)) {
+      loginStartedRef.current = true;
     }
-  }, [status, navigate]);
+    if (authState === 'ready' && loginStartedRef.current) {
+      navigate(returnToRef.current, { replace: true });
+    }
+  }, [authState, navigate]);
 
-  // Show error state
-  if (status === 'error' && error) {
+  // Show error state, with what to do next depending on the error kind
+  if (authState === 'error' && error) {
+    const remediation = getErrorRemediation(error);
     return (
       <div className='min-h-screen flex items-center justify-center'>
         <div className='glass-effect rounded-2xl p-12 text-center max-w-md mx-auto'>
@@ -106,8 +193,9 @@ export default function AuthCallback() {
               />
             </svg>
           </div>
-          <h2 className='text-2xl font-bold text-white mb-3'>Authentication Failed</h2>
-          <p className='text-white/70 mb-4'>{error}</p>
+          <h2 className='text-2xl font-bold text-white mb-3'>{remediation.title}</h2>
+          <p className='text-white/70 mb-2'>{error.message}</p>
+          <p className='text-white/50 text-sm mb-4'>{remediation.hint}</p>
 
           <div className='flex gap-3 justify-center'>
             <button
@@ -116,16 +204,23 @@ export default function AuthCallback() {
             >
               Go Home
             </button>
-            <button
-              onClick={() => {
-                clearError();
-                // Retry the process
-                window.location.reload();
-              }}
-              className='px-6 py-2 bg-gradient-to-r from-purple-500 to-blue-500 hover:from-purple-600 hover:to-blue-600 text-white rounded-lg transition-colors'
-            >
-              Try Again
-            </button>
+            {remediation.action !== 'none' && (
+              <button
+                onClick={() => {
+                  clearError();
+                  // The OAuth response is single-use: both retry and sign-in start a new
+                  // sign-in with the same provider (a renewal again, for the same identity)
+                  if (isRenewalRef.current) {
+                    void renewSession({ returnTo: returnToRef.current });
+                  } else {
+                    void loginWithProvider(provider ?? 'google', returnToRef.current);
+                  }
+                }}
+                className='px-6 py-2 bg-gradient-to-r from-purple-500 to-blue-500 hover:from-purple-600 hover:to-blue-600 text-white rounded-lg transition-colors'
+              >
+                {remediation.action === 'signIn' ? 'Sign In Again' : 'Try Again'}
+              </button>
+            )}
           </div>
         </div>
       </div>
@@ -140,7 +235,11 @@ export default function AuthCallback() {
           <div className='w-8 h-8 border-2 border-white/30 border-t-white rounded-full animate-spin'></div>
         </div>
         <h2 className='text-2xl font-bold text-white mb-3'>Completing Login</h2>
-        <p className='text-white/70'>Please wait while we authenticate your account...</p>
+        <p className='text-white/70'>
+          {isAuthInProgress(authState)
+            ? `${AUTH_STATE_LABELS[authState]}...`
+            : 'Please wait while we authenticate your account...'}
+        </p>
         <div className='mt-6 flex items-center justify-center gap-2 text-sm text-white/50'>
           <span>Powered by</span>
           <span className='font-bold gradient-text'>Sui zkLogin</span>
@@ -0,0 +1,126 @@
+import type { SuiNetwork } from '@/config';
+import { Result, ok, err } from '@/shared/lib';
+import { createAppError, type AppError } from '@/shared/lib';
+import { getActiveNetwork, getSuiClient } from '@/shared/lib';
+
+/**
+ * Epoch Clock - Current Epoch and Wall-Clock Estimates
+ *
+ * A zkLogin session is valid until the end of its `maxEpoch`. Epochs have a
+ * fixed target duration, so the system state's `epochStartTimestampMs` and
+ * `epochDurationMs` turn an epoch number into an estimated end time: enough to
+ * show "expires in 3h 12m" instead of "2 epochs remaining".
+ *
+ * ⏱️ CACHING:
+ * - One snapshot of the system state per network, reused for `ttlMs` (30s by
+ *   default) and never past the estimated end of its epoch
+ * - Concurrent lookups share a single RPC request
+ * - Failed lookups are not cached
+ *
+ * Estimates assume every later epoch lasts `epochDurationMs`; reconfiguration
+ * can make an epoch end a little late, never early.
+ *
+ * @example
+ * ```typescript
+ * const clock = createEpochClock();
+ * const snapshot = await clock.getSnapshot();
+ * if (snapshot.ok) {
+ *   const expiresAtMs = estimateEpochEndMs(snapshot.data, maxEpoch);
+ * }
+ * ```
+ */
+
+const DEFAULT_TTL_MS = 30_000;
+
+/**
+ * System state timing of one network at the time it was fetched
+ */
+export interface EpochSnapshot {
+    network: SuiNetwork;
+    epoch: number;
+    epochStartMs: number;
+    epochDurationMs: number;
+    fetchedAt: number;
+}
+
+/**
+ * Estimate when an epoch ends (when a session with this `maxEpoch` expires)
+ *
+ * @param snapshot - Current epoch timing
+ * @param epoch - Epoch to estimate the end of (current or later)
+ * @returns End time in ms since the Unix epoch
+ */
+export function estimateEpochEndMs(snapshot: EpochSnapshot, epoch: number): number {
+    return snapshot.epochStartMs + (epoch - snapshot.epoch + 1) * snapshot.epochDurationMs;
+}
+
+export class EpochClock {
+    private readonly ttlMs: number;
+    private snapshots = new Map<SuiNetwork, { snapshot: EpochSnapshot; validUntil: number }>();
+    private pending = new Map<SuiNetwork, Promise<Result<EpochSnapshot, AppError>>>();
+
+    constructor(ttlMs: number = DEFAULT_TTL_MS) {
+        this.ttlMs = ttlMs;
+    }
+
+    /**
+     * Get the epoch timing of the active network, from the cache when fresh
+     *
+     * @param now - Current time in ms (for testing)
+     * @returns Result with the snapshot, or a Network error when the RPC fails
+     */
+    async getSnapshot(now: number = Date.now()): Promise<Result<EpochSnapshot, AppError>> {
+        const network = getActiveNetwork().id;
+        const cached = this.snapshots.get(network);
+        if (cached && now < cached.validUntil) {
+            return ok(cached.snapshot);
+        }
+
+        const pending = this.pending.get(network);
+        if (pending) {
+            return pending;
+        }
+
+        const request = this.fetchSnapshot(network).finally(() => this.pending.delete(network));
+        this.pending.set(network, request);
+        return request;
+    }
+
+    /**
+     * Drop the cached snapshots (e.g. after an epoch change was detected elsewhere)
+     */
+    invalidate(): void {
+        this.snapshots.clear();
+    }
+
+    private async fetchSnapshot(network: SuiNetwork): Promise<Result<EpochSnapshot, AppError>> {
+        try {
+            const systemState = await getSuiClient().getLatestSuiSystemState();
+            const snapshot: EpochSnapshot = {
+                network,
+                epoch: Number(systemState.epoch),
+                epochStartMs: Number(systemState.epochStartTimestampMs),
+                epochDurationMs: Number(systemState.epochDurationMs),
+                fetchedAt: Date.now(),
+            };
+
+            // The epoch number goes stale when the epoch ends; a late epoch change
+            // (end already passed) only keeps the TTL
+            const epochEndMs = estimateEpochEndMs(snapshot, snapshot.epoch);
+            const ttlEnd = snapshot.fetchedAt + this.ttlMs;
+            const validUntil = epochEndMs > snapshot.fetchedAt ? Math.min(ttlEnd, epochEndMs) : ttlEnd;
+            this.snapshots.set(network, { snapshot, validUntil });
+            return ok(snapshot);
+        } catch (error) {
+            return err(createAppError('Network', 'Failed to fetch the current Sui epoch', {
+                cause: error,
+                details: { step: 'getSnapshot', network }
+            }));
+        }
+    }
+}
+
+// Factory function to create service instance
+export function createEpochClock(ttlMs?: number): EpochClock {
+    return new EpochClock(ttlMs);
+}
@@ -1,3 +1,24 @@
 // Auth services exports
 export { createSaltService } from './saltService';
 export { createZkLoginService } from './zkLoginService';
+export { createProverService } from './proverService';
+export { createOidcDiscoveryService } from './oidcDiscovery';
+export { consumeOAuthState, sanitizeReturnTo, ALLOWED_RETURN_PATHS } from './oauthState';
+export { isLoginPopup, openLoginPopup, postCallbackToOpener, readOAuthCallbackParams, waitForPopupCallback } from './loginPopup';
+export {
+    OAUTH_PROVIDERS,
+    getOAuthProvider,
+    getConfiguredOAuthProviders,
+    isOAuthProviderId,
+    isOidcProviderId,
+    toOidcProviderId,
+} from './oauthProviders';
+export { MIN_BACKUP_PASSPHRASE_LENGTH } from './sessionBackup';
+export { postTabSyncMessage, subscribeTabSync, subscribeEpochLeadership } from './tabSync';
+export type { TabSyncMessage } from './tabSync';
+export { createEpochClock, estimateEpochEndMs } from './epochClock';
+export type { EpochSnapshot } from './epochClock';
+export { ZkLoginSigner, createZkLoginSigner } from './zkLoginSigner';
+export type { ZkLoginSignerOptions } from './zkLoginSigner';
+export { createMessageVerifier, LocalMessageVerifier, NetworkMessageVerifier } from './messageVerifier';
+export { SiwsClient, createSiwsClient } from './siwsClient';
@@ -0,0 +1,275 @@
+import { z } from 'zod';
+import type { JwtPayload } from '@/features/auth/types';
+import { Result, ok, err, isErr } from '@/shared/lib';
+import { createAppError, type AppError } from '@/shared/lib';
+import { httpClient } from '@/shared/lib';
+
+const jwksSchema = z.object({
+    keys: z.array(z.looseObject({
+        kty: z.string(),
+        kid: z.string().optional(),
+        alg: z.string().optional(),
+        use: z.string().optional(),
+    })),
+});
+
+type Jwk = z.infer<typeof jwksSchema>['keys'][number];
+
+interface JwtHeader {
+    alg: string;
+    kid?: string;
+    typ?: string;
+}
+
+/**
+ * What the token must match to be accepted
+ */
+export interface JwtExpectations {
+    // Expected `iss`; a `{tenantid}` placeholder is filled from the token's `tid` claim
+    issuer: string;
+    // Client ID the token must be issued to (`aud`)
+    audience: string;
+    // Where the issuer publishes its signing keys
+    jwksUri: string;
+    // Nonce the token must carry (binds it to the ephemeral key)
+    nonce?: string;
+}
+
+export interface JwtVerifierOptions {
+    clockSkewSeconds?: number;
+    jwksCacheTtlMs?: number;
+}
+
+// WebCrypto parameters per supported JWS algorithm
+const ALGORITHMS: Record<string, { importParams: RsaHashedImportParams | EcKeyImportParams; verifyParams: AlgorithmIdentifier | EcdsaParams }> = {
+    RS256: {
+        importParams: { name: 'RSASSA-PKCS1-v1_5', hash: 'SHA-256' },
+        verifyParams: 'RSASSA-PKCS1-v1_5',
+    },
+    ES256: {
+        importParams: { name: 'ECDSA', namedCurve: 'P-256' },
+        verifyParams: { name: 'ECDSA', hash: 'SHA-256' },
+    },
+};
+
+/**
+ * JWT Verifier - Local id_token Verification
+ *
+ * Verifies id_tokens in the browser before they are sent to the salt service
+ * and the prover, so tampered, misdirected or stale tokens fail fast with a
+ * clear error instead of a wasted prover call.
+ *
+ * 🔐 CHECKS (in order):
+ * - Structure and supported algorithm (RS256, ES256)
+ * - Signature against the issuer's JWKS (keys cached, refetched on unknown `kid`)
+ * - `iss` matches the provider's issuer
+ * - `aud` contains the configured client ID
+ * - `exp` / `iat` with clock-skew tolerance
+ * - `nonce` matches the nonce derived from the ephemeral key
+ *
+ * Every failure is an AppError of kind `JWT` with `details.reason` naming the
+ * failed check, except a nonce mismatch (`NonceMismatch`): the token is valid
+ * but belongs to another login attempt.
+ *
+ * @example
+ * ```typescript
+ * const verifier = createJwtVerifier();
+ * const result = await verifier.verify(idToken, {
+ *   issuer: 'https://accounts.google.com',
+ *   audience: clientId,
+ *   jwksUri: 'https://www.googleapis.com/oauth2/v3/certs',
+ *   nonce,
+ * });
+ * if (!result.ok) console.error(result.error.details);
+ * ```
+ */
+export class JwtVerifier {
+    private readonly clockSkewSeconds: number;
+    private readonly jwksCacheTtlMs: number;
+    private jwksCache = new Map<string, { keys: Jwk[]; fetchedAt: number }>();
+
+    constructor(options: JwtVerifierOptions = {}) {
+        this.clockSkewSeconds = options.clockSkewSeconds ?? 60;
+        this.jwksCacheTtlMs = options.jwksCacheTtlMs ?? 60 * 60 * 1000;
+    }
+
+    /**
+     * Verify an id_token
+     *
+     * @param token - Compact-serialized JWT
+     * @param expected - Issuer, audience, JWKS location and nonce to check against
+     * @returns Result containing the verified payload or a JWT error
+     */
+    async verify(token: string, expected: JwtExpectations): Promise<Result<JwtPayload, AppError>> {
+        try {
+            const parts = token.split('.');
+            if (parts.length !== 3) {
+                return err(jwtError('malformed', 'The sign-in token is malformed'));
+            }
+            const [encodedHeader, encodedPayload, encodedSignature] = parts;
+            const header = decodeJson<JwtHeader>(encodedHeader);
+            const payload = decodeJson<JwtPayload>(encodedPayload);
+            if (!header || !payload) {
+                return err(jwtError('malformed', 'The sign-in token is malformed'));
+            }
+
+            // Signature
+            const algorithm = ALGORITHMS[header.alg];
+            if (!algorithm) {
+                return err(jwtError('algorithm', `Unsupported token algorithm: ${header.alg}`, { alg: header.alg }));
+            }
+
+            const keyResult = await this.findKey(expected.jwksUri, header);
+            if (isErr(keyResult)) {
+                return err(keyResult.error);
+            }
+
+            const cryptoKey = await crypto.subtle.importKey('jwk', keyResult.data as JsonWebKey, algorithm.importParams, false, ['verify']);
+            const valid = await crypto.subtle.verify(
+                algorithm.verifyParams,
+                cryptoKey,
+                base64UrlToBytes(encodedSignature),
+                new TextEncoder().encode(`${encodedHeader}.${encodedPayload}`)
+            );
+            if (!valid) {
+                return err(jwtError('signature', 'The sign-in token signature is invalid'));
+            }
+
+            // Issuer
+            const expectedIssuer = expected.issuer.replace('{tenantid}', typeof payload.tid === 'string' ? payload.tid : '{tenantid}');
+            if (payload.iss !== expectedIssuer) {
+                return err(jwtError('issuer', 'The sign-in token was issued by an unexpected issuer', {
+                    expected: expectedIssuer,
+                    received: payload.iss
+                }));
+            }
+
+            // Audience
+            const audiences = Array.isArray(payload.aud) ? payload.aud : [payload.aud];
+            if (!audiences.includes(expected.audience)) {
+                return err(jwtError('audience', 'The sign-in token was issued to a different application', {
+                    expected: expected.audience,
+                    received: payload.aud
+                }));
+            }
+
+            // Lifetime
+            const now = Math.floor(Date.now() / 1000);
+            if (typeof payload.exp !== 'number' || payload.exp + this.clockSkewSeconds < now) {
+                return err(jwtError('expired', 'The sign-in token has expired. Please sign in again.', {
+                    exp: payload.exp,
+                    now
+                }));
+            }
+            if (typeof payload.iat === 'number' && payload.iat - this.clockSkewSeconds > now) {
+                return err(jwtError('issued_in_future', 'The sign-in token is not valid yet. Check your device clock.', {
+                    iat: payload.iat,
+                    now
+                }));
+            }
+
+            // Nonce
+            if (expected.nonce !== undefined && payload.nonce !== expected.nonce) {
+                return err(createAppError('NonceMismatch', 'The sign-in token does not belong to this login attempt', {
+                    details: { reason: 'nonce', expected: expected.nonce, received: payload.nonce }
+                }));
+            }
+
+            return ok(payload);
+        } catch (error) {
+            return err(createAppError('JWT', 'Failed to verify the sign-in token', {
+                cause: error,
+                details: { reason: 'unknown' }
+            }));
+        }
+    }
+
+    /**
+     * Drop cached signing keys
+     */
+    clearCache(): void {
+        this.jwksCache.clear();
+    }
+
+    /**
+     * Find the signing key for a token, refetching the JWKS once when the
+     * cached set does not contain the token's `kid` (key rotation)
+     */
+    private async findKey(jwksUri: string, header: JwtHeader): Promise<Result<Jwk, AppError>> {
+        const cached = this.jwksCache.get(jwksUri);
+        const isFresh = !!cached && Date.now() - cached.fetchedAt < this.jwksCacheTtlMs;
+
+        let keys = isFresh ? cached.keys : null;
+        let key = keys ? selectKey(keys, header) : undefined;
+
+        if (!key) {
+            const fetchResult = await this.fetchJwks(jwksUri);
+            if (isErr(fetchResult)) {
+                return err(fetchResult.error);
+            }
+            keys = fetchResult.data;
+            key = selectKey(keys, header);
+        }
+
+        if (!key) {
+            return err(jwtError('unknown_key', 'The sign-in token was signed with an unknown key', {
+                kid: header.kid,
+                jwksUri
+            }));
+        }
+        return ok(key);
+    }
+
+    private async fetchJwks(jwksUri: string): Promise<Result<Jwk[], AppError>> {
+        const response = await httpClient.get<unknown>(jwksUri, { timeoutMs: 10_000 });
+        if (isErr(response)) {
+            return err(createAppError('JWT', 'Could not load the sign-in provider signing keys', {
+                cause: response.error,
+                details: { reason: 'jwks_unavailable', jwksUri }
+            }));
+        }
+
+        const parsed = jwksSchema.safeParse(response.data);
+        if (!parsed.success) {
+            return err(createAppError('JWT', 'The sign-in provider returned invalid signing keys', {
+                cause: parsed.error,
+                details: { reason: 'jwks_invalid', jwksUri }
+            }));
+        }
+
+        this.jwksCache.set(jwksUri, { keys: parsed.data.keys, fetchedAt: Date.now() });
+        return ok(parsed.data.keys);
+    }
+}
+
+function selectKey(keys: Jwk[], header: JwtHeader): Jwk | undefined {
+    const candidates = keys.filter((key) => (!key.use || key.use === 'sig') && (!key.alg || key.alg === header.alg));
+    return header.kid ? candidates.find((key) => key.kid === header.kid) : candidates[0];
+}
+
+function jwtError(reason: string, message: string, details: Record<string, unknown> = {}): AppError {
+    return createAppError('JWT', message, { details: { reason, ...details } });
+}
+
+function base64UrlToBytes(value: string): Uint8Array<ArrayBuffer> {
+    const base64 = value.replace(/-/g, '+').replace(/_/g, '/').padEnd(Math.ceil(value.length / 4) * 4, '=');
+    const binary = atob(base64);
+    const bytes = new Uint8Array(binary.length);
+    for (let i = 0; i < binary.length; i++) {
+        bytes[i] = binary.charCodeAt(i);
+    }
+    return bytes;
+}
+
+function decodeJson<T>(segment: string): T | null {
+    try {
+        return JSON.parse(new TextDecoder().decode(base64UrlToBytes(segment))) as T;
+    } catch {
+        return null;
+    }
+}
+
+// Factory function to create service instance
+export function createJwtVerifier(options?: JwtVerifierOptions): JwtVerifier {
+    return new JwtVerifier(options);
+}
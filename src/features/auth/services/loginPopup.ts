@@ -0,0 +1,147 @@
+import type { OAuthCallbackParams } from '@/features/auth/types';
+import { Result, ok, err } from '@/shared/lib';
+import { createAppError, type AppError } from '@/shared/lib';
+
+/**
+ * Login Popup - OAuth Without Leaving the Page
+ *
+ * In popup mode the provider's authorize URL opens in a small window, so the
+ * current page (and any half-filled form on it) stays as it is. The callback
+ * route, loaded inside the popup, hands the OAuth response back to the opener
+ * with `postMessage` and closes itself; the opener validates the state and
+ * completes the login.
+ *
+ * 🔒 MESSAGE CHECKS:
+ * - Messages are posted with the app origin as target origin, so they are only
+ *   delivered to a same-origin opener
+ * - The opener only accepts messages from its own origin, sent by the popup it
+ *   opened, with the expected message type
+ * - The OAuth state is still validated by the opener (`consumeOAuthState`)
+ *
+ * 🔄 FALLBACK:
+ * When the browser blocks the popup, `openLoginPopup` returns null and the
+ * caller falls back to a full-page redirect.
+ *
+ * @example
+ * ```typescript
+ * // Opener (inside the click handler, before any await)
+ * const popup = openLoginPopup();
+ * popup.location.href = authorizationUrl;
+ * const result = await waitForPopupCallback(popup);
+ *
+ * // Callback route
+ * if (isLoginPopup()) postCallbackToOpener(readOAuthCallbackParams());
+ * ```
+ */
+
+const POPUP_WINDOW_NAME = 'zklogin_popup';
+const MESSAGE_TYPE = 'zklogin:oauth-callback';
+const POPUP_TIMEOUT_MS = 5 * 60 * 1000;
+const POPUP_CLOSED_POLL_MS = 500;
+
+interface PopupCallbackMessage {
+    type: typeof MESSAGE_TYPE;
+    params: OAuthCallbackParams;
+}
+
+/**
+ * Read the OAuth response from the current URL
+ *
+ * Providers return data in the query string or the fragment depending on
+ * `response_mode`, so both are checked.
+ */
+export function readOAuthCallbackParams(location: Location = window.location): OAuthCallbackParams {
+    const queryParams = new URLSearchParams(location.search);
+    const fragmentParams = new URLSearchParams(location.hash.substring(1));
+    const read = (key: string) => queryParams.get(key) || fragmentParams.get(key);
+
+    return {
+        idToken: read('id_token'),
+        code: read('code'),
+        state: read('state'),
+        error: read('error'),
+        errorDescription: read('error_description'),
+    };
+}
+
+/**
+ * Open the login popup
+ *
+ * Must be called synchronously from the user gesture (before any await),
+ * otherwise browsers block it. The popup starts blank; point it at the
+ * authorize URL once it is known.
+ *
+ * @returns The popup window, or null if it was blocked
+ */
+export function openLoginPopup(width: number = 500, height: number = 650): Window | null {
+    const left = Math.max(0, window.screenX + (window.outerWidth - width) / 2);
+    const top = Math.max(0, window.screenY + (window.outerHeight - height) / 2);
+    try {
+        return window.open('', POPUP_WINDOW_NAME, `popup,width=${width},height=${height},left=${left},top=${top}`);
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * Check whether this page is the callback running inside the login popup
+ */
+export function isLoginPopup(): boolean {
+    return window.name === POPUP_WINDOW_NAME && !!window.opener && window.opener !== window;
+}
+
+/**
+ * Send the OAuth response to the opener (same origin only) and close the popup
+ */
+export function postCallbackToOpener(params: OAuthCallbackParams): void {
+    const message: PopupCallbackMessage = { type: MESSAGE_TYPE, params };
+    (window.opener as Window).postMessage(message, window.location.origin);
+    window.close();
+}
+
+/**
+ * Wait for the popup to post the OAuth response back
+ *
+ * @param popup - Window returned by `openLoginPopup`
+ * @param timeoutMs - Give up (and close the popup) after this long
+ * @returns Result with the callback parameters, or an OAuth error when the
+ *   popup was closed (`popup_closed`) or timed out (`popup_timeout`)
+ */
+export function waitForPopupCallback(popup: Window, timeoutMs: number = POPUP_TIMEOUT_MS): Promise<Result<OAuthCallbackParams, AppError>> {
+    return new Promise((resolve) => {
+        const finish = (result: Result<OAuthCallbackParams, AppError>) => {
+            window.removeEventListener('message', handleMessage);
+            clearInterval(closedPoll);
+            clearTimeout(timeout);
+            resolve(result);
+        };
+
+        const handleMessage = (event: MessageEvent) => {
+            if (event.origin !== window.location.origin || event.source !== popup) {
+                return;
+            }
+            const data = event.data as Partial<PopupCallbackMessage> | null;
+            if (!data || data.type !== MESSAGE_TYPE || !data.params) {
+                return;
+            }
+            finish(ok(data.params));
+        };
+
+        const closedPoll = setInterval(() => {
+            if (popup.closed) {
+                finish(err(createAppError('OAuth', 'The sign-in window was closed before completing', {
+                    details: { reason: 'popup_closed' }
+                })));
+            }
+        }, POPUP_CLOSED_POLL_MS);
+
+        const timeout = setTimeout(() => {
+            popup.close();
+            finish(err(createAppError('Timeout', 'Sign-in took too long. Please try again.', {
+                details: { reason: 'popup_timeout' }
+            })));
+        }, timeoutMs);
+
+        window.addEventListener('message', handleMessage);
+    });
+}
@@ -0,0 +1,154 @@
+import { toBase64 } from '@mysten/sui/utils';
+import { parseSerializedSignature } from '@mysten/sui/cryptography';
+import { verifyPersonalMessageSignature } from '@mysten/sui/verify';
+import { ZkLoginPublicIdentifier } from '@mysten/sui/zklogin';
+import type { MessageVerifier, VerifiedMessage } from '@/features/auth/types';
+import { Result, ok, err } from '@/shared/lib';
+import { createAppError, type AppError } from '@/shared/lib';
+import { getSuiClient } from '@/shared/lib';
+import type { Config } from '@/config';
+
+/**
+ * Message Verifier - Personal Message Signature Checks
+ *
+ * Verifies signatures made with `signPersonalMessage` (zkLogin or plain key
+ * signatures) and returns the signing address. Backend logins and off-chain
+ * attestations use the same checks.
+ *
+ * 🔍 VERIFIERS:
+ * - network: the SDK's `verifyPersonalMessageSignature`; zkLogin signatures are
+ *   checked by the active network's RPC (`sui_verifyZkLoginSignature`), which
+ *   verifies the proof, the issuer's JWK and `maxEpoch`
+ * - local: offline stand-in for tests and the mock prover. Checks the ephemeral
+ *   signature over the message and the address of the zkLogin identifier, but
+ *   NOT the ZK proof, so it must never be used to authenticate users
+ *
+ * @example
+ * ```typescript
+ * const verifier = createMessageVerifier(config);
+ * const result = await verifier.verifyPersonalMessage(message, signature, address);
+ * if (result.ok) console.log('Signed by', result.data.address);
+ * ```
+ */
+
+const INVALID_SIGNATURE_PREFIX = 'Signature is not valid';
+
+export class NetworkMessageVerifier implements MessageVerifier {
+    readonly name = 'network';
+
+    async verifyPersonalMessage(message: Uint8Array, signature: string, address?: string): Promise<Result<VerifiedMessage, AppError>> {
+        const parsed = parseSignature(signature);
+        if (!parsed.ok) {
+            return parsed;
+        }
+
+        try {
+            const publicKey = await verifyPersonalMessageSignature(message, signature, {
+                client: getSuiClient(),
+                address,
+            });
+            return ok({
+                address: address ?? publicKey.toSuiAddress(),
+                scheme: parsed.data.signatureScheme,
+                maxEpoch: getMaxEpoch(parsed.data),
+                proofVerified: parsed.data.signatureScheme === 'ZkLogin',
+            });
+        } catch (error) {
+            // The SDK throws the same way for bad signatures and failed RPC calls
+            if (error instanceof Error && error.message.startsWith(INVALID_SIGNATURE_PREFIX)) {
+                return err(invalidSignatureError(error.message, error));
+            }
+            return err(createAppError('Network', 'Failed to verify the signature', {
+                cause: error,
+                details: { step: 'verifyPersonalMessage', verifier: this.name }
+            }));
+        }
+    }
+}
+
+/**
+ * Local Message Verifier - Offline Stand-in
+ *
+ * ⚠️ TESTS AND MOCK PROVER ONLY: the ZK proof is not verified (mock proofs
+ * would fail on the network), so anyone with an ephemeral key can forge a
+ * signature that passes. `proofVerified` is always `false` for zkLogin.
+ */
+export class LocalMessageVerifier implements MessageVerifier {
+    readonly name = 'local';
+
+    async verifyPersonalMessage(message: Uint8Array, signature: string, address?: string): Promise<Result<VerifiedMessage, AppError>> {
+        const parsed = parseSignature(signature);
+        if (!parsed.ok) {
+            return parsed;
+        }
+
+        const serialized = parsed.data;
+        try {
+            if (serialized.signatureScheme !== 'ZkLogin') {
+                // Key signatures need no network: this is the full check
+                const publicKey = await verifyPersonalMessageSignature(message, signature, { address });
+                return ok({
+                    address: address ?? publicKey.toSuiAddress(),
+                    scheme: serialized.signatureScheme,
+                    maxEpoch: null,
+                    proofVerified: false,
+                });
+            }
+
+            // The ephemeral key signed the message...
+            await verifyPersonalMessageSignature(message, toBase64(Uint8Array.from(serialized.zkLogin.userSignature)));
+
+            // ...and the identifier (issuer + address seed) belongs to the address
+            const identifier = new ZkLoginPublicIdentifier(serialized.publicKey);
+            if (address && !identifier.verifyAddress(address)) {
+                return err(invalidSignatureError(`${INVALID_SIGNATURE_PREFIX} for the provided address`));
+            }
+
+            return ok({
+                address: address ?? identifier.toSuiAddress(),
+                scheme: 'ZkLogin',
+                maxEpoch: getMaxEpoch(serialized),
+                proofVerified: false,
+            });
+        } catch (error) {
+            return err(invalidSignatureError(
+                error instanceof Error ? error.message : 'Signature is not valid for the provided message',
+                error
+            ));
+        }
+    }
+}
+
+type ParsedSignature = ReturnType<typeof parseSerializedSignature>;
+
+function parseSignature(signature: string): Result<ParsedSignature, AppError> {
+    try {
+        return ok(parseSerializedSignature(signature));
+    } catch (error) {
+        return err(createAppError('Validation', 'Malformed signature: expected a base64 Sui signature', {
+            cause: error,
+            details: { step: 'verifyPersonalMessage' }
+        }));
+    }
+}
+
+function getMaxEpoch(parsed: ParsedSignature): number | null {
+    return parsed.signatureScheme === 'ZkLogin' ? Number(parsed.zkLogin.maxEpoch) : null;
+}
+
+function invalidSignatureError(message: string, cause?: unknown): AppError {
+    return createAppError('Validation', message, {
+        cause,
+        details: { step: 'verifyPersonalMessage', reason: 'invalidSignature' }
+    });
+}
+
+/**
+ * Factory function to create the message verifier for the configuration
+ *
+ * @param config - Validated app configuration (the mock prover gets the local verifier)
+ * @returns Message verifier instance
+ */
+export function createMessageVerifier(config: Config): MessageVerifier {
+    return config.proverType === 'mock' ? new LocalMessageVerifier() : new NetworkMessageVerifier();
+}
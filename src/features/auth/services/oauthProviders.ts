@@ -0,0 +1,324 @@
+import type {
+    BuiltInOAuthProviderId,
+    OAuthProviderDefinition,
+    OAuthProviderId,
+    OAuthProviderOption,
+    OidcProviderId
+} from '@/features/auth/types';
+import { getConfig, type Config, type OAuthFlowMode, type OidcIssuerConfig } from '@/config';
+import { Result, ok, err } from '@/shared/lib';
+import { createAppError, type AppError } from '@/shared/lib';
+
+/**
+ * OAuth Provider Registry
+ *
+ * Declares every OAuth/OpenID provider the app can sign in with. Each entry
+ * describes how to build the authorization request (endpoint, response types,
+ * scopes, extra parameters), which JWT claims carry the user identity, which
+ * config key holds the provider's client ID, and the issuer and JWKS URI used
+ * to verify its id_tokens.
+ *
+ * 🔌 ADDING A PROVIDER:
+ * 1. Add its id to `OAuthProviderId` in `features/auth/types.ts`
+ * 2. Add a `<provider>ClientId` key to the config schema
+ * 3. Register its definition below
+ *
+ * Providers that only support the authorization code flow are registered
+ * with `responseTypes: ['code']` and always use code + PKCE. Providers that
+ * support both use the implicit flow unless `VITE_OAUTH_FLOWS` selects `code`.
+ *
+ * 🌐 GENERIC OIDC ISSUERS:
+ * Any OpenID Connect issuer can be added without code changes via
+ * `VITE_OIDC_ISSUERS`. Those providers are addressed as `oidc:<id>` and their
+ * definitions are built at login time from the issuer's discovery document
+ * (see `OidcDiscoveryService`).
+ *
+ * @example
+ * ```typescript
+ * const provider = getOAuthProvider('twitch');
+ * const result = buildAuthorizationUrl(provider, config, { nonce, state });
+ * if (result.ok) window.location.href = result.data;
+ * ```
+ */
+export const OAUTH_PROVIDERS: Record<BuiltInOAuthProviderId, OAuthProviderDefinition> = {
+    google: {
+        id: 'google',
+        name: 'Google',
+        authUrl: 'https://accounts.google.com/o/oauth2/v2/auth',
+        tokenUrl: 'https://oauth2.googleapis.com/token',
+        responseTypes: ['id_token', 'code'],
+        scopes: ['openid', 'email'],
+        claims: { subject: 'sub', email: 'email', name: 'name', picture: 'picture' },
+        clientIdConfigKey: 'googleClientId',
+        clientIdEnvVar: 'VITE_GOOGLE_CLIENT_ID',
+        issuer: 'https://accounts.google.com',
+        jwksUri: 'https://www.googleapis.com/oauth2/v3/certs',
+        extraParams: { prompt: 'select_account' },
+    },
+    facebook: {
+        id: 'facebook',
+        name: 'Facebook',
+        authUrl: 'https://www.facebook.com/v17.0/dialog/oauth',
+        responseTypes: ['id_token'],
+        scopes: ['openid'],
+        claims: { subject: 'sub', email: 'email', name: 'name', picture: 'picture' },
+        clientIdConfigKey: 'facebookClientId',
+        clientIdEnvVar: 'VITE_FACEBOOK_CLIENT_ID',
+        issuer: 'https://www.facebook.com',
+        jwksUri: 'https://www.facebook.com/.well-known/oauth/openid/jwks/',
+    },
+    twitch: {
+        id: 'twitch',
+        name: 'Twitch',
+        authUrl: 'https://id.twitch.tv/oauth2/authorize',
+        tokenUrl: 'https://id.twitch.tv/oauth2/token',
+        responseTypes: ['id_token', 'code'],
+        scopes: ['openid'],
+        claims: { subject: 'sub', email: 'email', name: 'preferred_username', picture: 'picture' },
+        clientIdConfigKey: 'twitchClientId',
+        clientIdEnvVar: 'VITE_TWITCH_CLIENT_ID',
+        issuer: 'https://id.twitch.tv/oauth2',
+        jwksUri: 'https://id.twitch.tv/oauth2/keys',
+        extraParams: { force_verify: 'true', lang: 'en', login_type: 'login' },
+    },
+    apple: {
+        id: 'apple',
+        name: 'Apple',
+        authUrl: 'https://appleid.apple.com/auth/authorize',
+        tokenUrl: 'https://appleid.apple.com/auth/token',
+        responseTypes: ['id_token', 'code'],
+        // Apple rejects a bare id_token response type; the hybrid flow returns both
+        idTokenResponseType: 'code id_token',
+        // Requesting scopes forces response_mode=form_post, which a SPA cannot receive
+        scopes: [],
+        claims: { subject: 'sub', email: 'email' },
+        clientIdConfigKey: 'appleClientId',
+        clientIdEnvVar: 'VITE_APPLE_CLIENT_ID',
+        issuer: 'https://appleid.apple.com',
+        jwksUri: 'https://appleid.apple.com/auth/keys',
+        extraParams: { response_mode: 'fragment' },
+    },
+    kakao: {
+        id: 'kakao',
+        name: 'Kakao',
+        authUrl: 'https://kauth.kakao.com/oauth/authorize',
+        tokenUrl: 'https://kauth.kakao.com/oauth/token',
+        responseTypes: ['code'],
+        scopes: ['openid'],
+        claims: { subject: 'sub', email: 'email', name: 'nickname', picture: 'picture' },
+        clientIdConfigKey: 'kakaoClientId',
+        clientIdEnvVar: 'VITE_KAKAO_CLIENT_ID',
+        issuer: 'https://kauth.kakao.com',
+        jwksUri: 'https://kauth.kakao.com/.well-known/jwks.json',
+    },
+    slack: {
+        id: 'slack',
+        name: 'Slack',
+        authUrl: 'https://slack.com/openid/connect/authorize',
+        tokenUrl: 'https://slack.com/api/openid.connect.token',
+        responseTypes: ['code'],
+        scopes: ['openid', 'email', 'profile'],
+        claims: { subject: 'sub', email: 'email', name: 'name', picture: 'picture' },
+        clientIdConfigKey: 'slackClientId',
+        clientIdEnvVar: 'VITE_SLACK_CLIENT_ID',
+        issuer: 'https://slack.com',
+        jwksUri: 'https://slack.com/openid/connect/keys',
+    },
+    microsoft: {
+        id: 'microsoft',
+        name: 'Microsoft',
+        authUrl: 'https://login.microsoftonline.com/common/oauth2/v2.0/authorize',
+        tokenUrl: 'https://login.microsoftonline.com/common/oauth2/v2.0/token',
+        responseTypes: ['id_token', 'code'],
+        scopes: ['openid', 'email', 'profile'],
+        claims: { subject: 'sub', email: 'email', name: 'name' },
+        clientIdConfigKey: 'microsoftClientId',
+        clientIdEnvVar: 'VITE_MICROSOFT_CLIENT_ID',
+        // The /common endpoint issues tokens per tenant; `{tenantid}` is filled from the `tid` claim
+        issuer: 'https://login.microsoftonline.com/{tenantid}/v2.0',
+        jwksUri: 'https://login.microsoftonline.com/common/discovery/v2.0/keys',
+        extraParams: { response_mode: 'fragment' },
+    },
+};
+
+const OIDC_PROVIDER_PREFIX = 'oidc:';
+
+/**
+ * Check whether a string is a built-in provider id
+ *
+ * Own keys only: `in` would also accept prototype keys such as "constructor"
+ */
+export function isBuiltInOAuthProviderId(value: unknown): value is BuiltInOAuthProviderId {
+    return typeof value === 'string' && Object.prototype.hasOwnProperty.call(OAUTH_PROVIDERS, value);
+}
+
+/**
+ * Check whether a string is a generic OIDC provider id (`oidc:<issuer id>`)
+ */
+export function isOidcProviderId(value: unknown): value is OidcProviderId {
+    return typeof value === 'string' && value.startsWith(OIDC_PROVIDER_PREFIX) && value.length > OIDC_PROVIDER_PREFIX.length;
+}
+
+/**
+ * Check whether a string is a valid provider id (built-in or generic OIDC)
+ */
+export function isOAuthProviderId(value: unknown): value is OAuthProviderId {
+    return isBuiltInOAuthProviderId(value) || isOidcProviderId(value);
+}
+
+/**
+ * Provider id for a configured OIDC issuer
+ */
+export function toOidcProviderId(issuerId: string): OidcProviderId {
+    return `${OIDC_PROVIDER_PREFIX}${issuerId}`;
+}
+
+/**
+ * Look up a built-in provider definition by id
+ *
+ * Generic OIDC providers need their discovery document and are resolved by
+ * `OidcDiscoveryService.resolveProvider` instead.
+ *
+ * @param id - Built-in provider id
+ * @returns Result containing the provider definition or an OAuth error
+ */
+export function getOAuthProvider(id: string): Result<OAuthProviderDefinition, AppError> {
+    if (!isBuiltInOAuthProviderId(id)) {
+        return err(createAppError('OAuth', `Unknown OAuth provider: ${id}`, {
+            details: { provider: id, registered: Object.keys(OAUTH_PROVIDERS) }
+        }));
+    }
+    return ok(OAUTH_PROVIDERS[id]);
+}
+
+/**
+ * Look up the configured OIDC issuer behind an `oidc:<id>` provider id
+ *
+ * @returns Result containing the issuer config or an OAuth error
+ */
+export function getOidcIssuerConfig(id: OidcProviderId, config: Config): Result<OidcIssuerConfig, AppError> {
+    const issuerId = id.slice(OIDC_PROVIDER_PREFIX.length);
+    const issuer = config.oidcIssuers.find((entry) => entry.id === issuerId);
+    if (!issuer) {
+        return err(createAppError('OAuth', `Unknown OIDC issuer: ${issuerId}`, {
+            details: { provider: id, configured: config.oidcIssuers.map((entry) => entry.id) }
+        }));
+    }
+    return ok(issuer);
+}
+
+/**
+ * Get the configured client ID for a provider, if any
+ */
+export function getProviderClientId(provider: OAuthProviderDefinition, config: Config): string | undefined {
+    if (provider.clientId) {
+        return provider.clientId;
+    }
+    return provider.clientIdConfigKey ? config[provider.clientIdConfigKey] : undefined;
+}
+
+/**
+ * List the sign-in options that are configured
+ *
+ * Used by the UI to decide which sign-in options to offer: built-in providers
+ * with a client ID (in registry order), followed by the configured OIDC issuers.
+ *
+ * @returns Provider options (empty if config is invalid)
+ */
+export function getConfiguredOAuthProviders(): OAuthProviderOption[] {
+    const configResult = getConfig();
+    if (!configResult.ok) {
+        return [];
+    }
+    const config = configResult.data;
+
+    const builtIn = Object.values(OAUTH_PROVIDERS)
+        .filter((provider) => !!getProviderClientId(provider, config))
+        .map(({ id, name }) => ({ id, name }));
+    const oidc = config.oidcIssuers.map((issuer) => ({ id: toOidcProviderId(issuer.id), name: issuer.name }));
+
+    return [...builtIn, ...oidc];
+}
+
+/**
+ * Decide which OAuth flow to use for a provider
+ *
+ * An explicit `config.oauthFlows` entry wins when the provider supports it;
+ * otherwise the implicit flow is preferred and code-only providers use code.
+ */
+export function getProviderFlow(provider: OAuthProviderDefinition, config: Config): OAuthFlowMode {
+    const override = config.oauthFlows[provider.id];
+    if (override === 'code' && provider.responseTypes.includes('code')) {
+        return 'code';
+    }
+    if (override === 'implicit' && provider.responseTypes.includes('id_token')) {
+        return 'implicit';
+    }
+    return provider.responseTypes.includes('id_token') ? 'implicit' : 'code';
+}
+
+/**
+ * Build the authorization URL for a login
+ *
+ * - `implicit`: the provider returns the id_token directly in the redirect
+ * - `code`: the provider returns an authorization code bound to the PKCE
+ *   challenge, exchanged later for an id_token (see `exchangeAuthorizationCode`)
+ *
+ * The nonce is sent in both flows; OIDC providers echo it in the id_token.
+ *
+ * @param provider - Provider definition from the registry
+ * @param config - Validated app configuration
+ * @param params - Nonce binding the JWT to the ephemeral key, the OAuth state value,
+ *   the PKCE code challenge (code flow only), and optional `prompt` / `login_hint`
+ *   (e.g. silent renewal with `prompt=none` for the signed-in account)
+ * @returns Result containing the authorization URL or an OAuth error
+ */
+export function buildAuthorizationUrl(
+    provider: OAuthProviderDefinition,
+    config: Config,
+    params: { nonce: string; state: string; flow: OAuthFlowMode; codeChallenge?: string; prompt?: string; loginHint?: string }
+): Result<string, AppError> {
+    const clientId = getProviderClientId(provider, config);
+    if (!clientId) {
+        return err(createAppError('OAuth', `${provider.name} sign-in is not configured`, {
+            details: { provider: provider.id, missingEnvVar: provider.clientIdEnvVar ?? 'VITE_OIDC_ISSUERS' }
+        }));
+    }
+
+    const responseType = params.flow === 'code' ? 'code' : 'id_token';
+    if (!provider.responseTypes.includes(responseType)) {
+        return err(createAppError('OAuth', `${provider.name} does not support the ${params.flow} flow`, {
+            details: { provider: provider.id, responseTypes: provider.responseTypes }
+        }));
+    }
+
+    if (params.flow === 'code' && !params.codeChallenge) {
+        return err(createAppError('OAuth', 'A PKCE code challenge is required for the authorization code flow', {
+            details: { provider: provider.id }
+        }));
+    }
+
+    const search = new URLSearchParams({
+        client_id: clientId,
+        redirect_uri: config.redirectUrl,
+        response_type: params.flow === 'code' ? 'code' : provider.idTokenResponseType ?? 'id_token',
+        nonce: params.nonce,
+        state: params.state,
+        ...provider.extraParams,
+    });
+    if (params.flow === 'code' && params.codeChallenge) {
+        search.set('code_challenge', params.codeChallenge);
+        search.set('code_challenge_method', 'S256');
+    }
+    if (provider.scopes.length > 0) {
+        search.set('scope', provider.scopes.join(' '));
+    }
+    if (params.prompt) {
+        search.set('prompt', params.prompt);
+    }
+    if (params.loginHint) {
+        search.set('login_hint', params.loginHint);
+    }
+
+    return ok(`${provider.authUrl}?${search.toString()}`);
+}
@@ -0,0 +1,156 @@
+import { sessionCookieStorage } from '@/shared/utils';
+import { Result, ok, err } from '@/shared/lib';
+import { createAppError, type AppError } from '@/shared/lib';
+
+/**
+ * OAuth State - CSRF Protection and Safe Return Targets
+ *
+ * The OAuth `state` parameter is a random, single-use value bound to this
+ * browser session. The path to return to after login is kept next to it in the
+ * ephemeral session cookies and never travels through the provider, so a
+ * crafted callback URL can neither inject a login (CSRF) nor redirect the user
+ * off-site (open redirect).
+ *
+ * 🔒 CHECKS ON CALLBACK:
+ * - The returned state must equal the pending state (mismatch → rejected; the
+ *   pending state is kept so a forged callback cannot cancel the real login)
+ * - The pending state is removed on first match (replay → rejected)
+ * - The pending state expires after 10 minutes
+ * - Return paths are limited to same-origin app routes (see ALLOWED_RETURN_PATHS)
+ *
+ * @example
+ * ```typescript
+ * // Login: send only the opaque value to the provider
+ * const state = createOAuthState('/profile');
+ *
+ * // Callback: validate before using the token or code
+ * const result = consumeOAuthState(params.get('state'));
+ * if (result.ok) navigate(result.data.returnTo);
+ * ```
+ */
+
+const STATE_KEY = "zk_oauth_state";
+const STATE_TTL_MS = 10 * 60 * 1000;
+
+/**
+ * App routes a login may return to. Keep in sync with the router in `main.tsx`.
+ */
+export const ALLOWED_RETURN_PATHS = ['/', '/profile', '/send', '/test_tx', '/gallery'] as const;
+
+interface PendingOAuthState {
+    value: string;
+    returnTo: string;
+    // Renewal of the current session (a retry must renew again, not sign in anew)
+    renewal?: boolean;
+    createdAt: number;
+}
+
+/**
+ * Reduce a requested return target to a safe same-origin app route
+ *
+ * Absolute URLs to other origins, protocol-relative URLs (`//evil.com`) and
+ * unknown paths fall back to `/`. Query string and hash are preserved.
+ */
+export function sanitizeReturnTo(returnTo: string | null | undefined): string {
+    if (!returnTo || !returnTo.startsWith('/') || returnTo.startsWith('//') || returnTo.startsWith('/\\')) {
+        return '/';
+    }
+
+    try {
+        const url = new URL(returnTo, window.location.origin);
+        if (url.origin !== window.location.origin) {
+            return '/';
+        }
+        const isAllowed = (ALLOWED_RETURN_PATHS as readonly string[]).includes(url.pathname.replace(/\/+$/, '') || '/');
+        return isAllowed ? `${url.pathname}${url.search}${url.hash}` : '/';
+    } catch {
+        return '/';
+    }
+}
+
+/**
+ * Create and store a new pending state for a login attempt
+ *
+ * Replaces any previous pending state (only one login can be in flight).
+ *
+ * @param returnTo - Path to return to after login (sanitized)
+ * @param renewal - The login renews the current session
+ * @returns Opaque state value to send to the provider
+ */
+export function createOAuthState(returnTo?: string, renewal = false): string {
+    const bytes = new Uint8Array(32);
+    crypto.getRandomValues(bytes);
+    const value = Array.from(bytes, (byte) => byte.toString(16).padStart(2, '0')).join('');
+
+    const pending: PendingOAuthState = {
+        value,
+        returnTo: sanitizeReturnTo(returnTo),
+        renewal,
+        createdAt: Date.now(),
+    };
+    sessionCookieStorage.setItem(STATE_KEY, JSON.stringify(pending));
+    return value;
+}
+
+/**
+ * Validate and consume the state returned by the provider
+ *
+ * @param state - `state` parameter from the callback URL
+ * @returns Result with the stored return path and whether the login was a
+ *   renewal, or an OAuth error if the state is missing, mismatched, expired or already used
+ */
+export function consumeOAuthState(state: string | null): Result<{ returnTo: string; renewal: boolean }, AppError> {
+    const stored = sessionCookieStorage.getItem(STATE_KEY) as string | null;
+
+    if (!stored) {
+        return err(createAppError('OAuth', 'This sign-in response was already used or has no matching request. Please sign in again.', {
+            details: { reason: 'no_pending_state' }
+        }));
+    }
+
+    let pending: PendingOAuthState;
+    try {
+        pending = JSON.parse(stored) as PendingOAuthState;
+    } catch (error) {
+        sessionCookieStorage.removeItem(STATE_KEY);
+        return err(createAppError('OAuth', 'Stored sign-in state is corrupted. Please sign in again.', {
+            cause: error,
+            details: { reason: 'corrupted_state' }
+        }));
+    }
+
+    if (Date.now() - pending.createdAt > STATE_TTL_MS) {
+        sessionCookieStorage.removeItem(STATE_KEY);
+        return err(createAppError('OAuth', 'The sign-in request expired. Please sign in again.', {
+            details: { reason: 'state_expired' }
+        }));
+    }
+
+    // A forged or stale callback must not spend the state of the login in progress
+    if (!state || !constantTimeEqual(state, pending.value)) {
+        return err(createAppError('OAuth', 'Sign-in response does not match this browser session', {
+            details: { reason: 'state_mismatch' }
+        }));
+    }
+
+    sessionCookieStorage.removeItem(STATE_KEY);
+    return ok({ returnTo: sanitizeReturnTo(pending.returnTo), renewal: pending.renewal === true });
+}
+
+/**
+ * Drop any pending state
+ */
+export function clearOAuthState(): void {
+    sessionCookieStorage.removeItem(STATE_KEY);
+}
+
+function constantTimeEqual(a: string, b: string): boolean {
+    if (a.length !== b.length) {
+        return false;
+    }
+    let diff = 0;
+    for (let i = 0; i < a.length; i++) {
+        diff |= a.charCodeAt(i) ^ b.charCodeAt(i);
+    }
+    return diff === 0;
+}
@@ -0,0 +1,130 @@
+import { z } from 'zod';
+import type { OAuthProviderDefinition, OAuthResponseType, OidcDiscoveryDocument } from '@/features/auth/types';
+import type { OidcIssuerConfig } from '@/config';
+import { Result, ok, err, isErr } from '@/shared/lib';
+import { createAppError, type AppError } from '@/shared/lib';
+import { httpClient } from '@/shared/lib';
+import { toOidcProviderId } from './oauthProviders';
+
+const discoveryDocumentSchema = z.object({
+    issuer: z.string().min(1),
+    authorization_endpoint: z.url(),
+    jwks_uri: z.url(),
+    token_endpoint: z.url().optional(),
+    response_types_supported: z.array(z.string()),
+    scopes_supported: z.array(z.string()).optional(),
+    code_challenge_methods_supported: z.array(z.string()).optional(),
+});
+
+/**
+ * OIDC Discovery Service - Generic OpenID Connect Issuers
+ *
+ * Turns an issuer URL from config into a provider definition the login flow can
+ * use, by fetching the issuer's discovery document
+ * (`<issuer>/.well-known/openid-configuration`).
+ *
+ * 🎯 RESPONSIBILITIES:
+ * - Fetch and validate discovery documents
+ * - Check the document's `issuer` matches the configured issuer (OIDC Discovery §4.3)
+ * - Learn the authorization and token endpoints, supported response types and JWKS URI
+ * - Cache documents in memory for the lifetime of the page
+ *
+ * @example
+ * ```typescript
+ * const discovery = createOidcDiscoveryService();
+ * const result = await discovery.resolveProvider(config.oidcIssuers[0]);
+ * if (result.ok) {
+ *   console.log(result.data.authUrl, result.data.jwksUri);
+ * }
+ * ```
+ */
+export class OidcDiscoveryService {
+    private documents = new Map<string, OidcDiscoveryDocument>();
+
+    /**
+     * Fetch (or return the cached) discovery document for an issuer
+     *
+     * @param issuer - Issuer identifier URL as configured
+     * @returns Result containing the validated discovery document or an OAuth error
+     */
+    async discover(issuer: string): Promise<Result<OidcDiscoveryDocument, AppError>> {
+        const cached = this.documents.get(issuer);
+        if (cached) {
+            return ok(cached);
+        }
+
+        const discoveryUrl = `${issuer.replace(/\/+$/, '')}/.well-known/openid-configuration`;
+        const response = await httpClient.get<unknown>(discoveryUrl, { timeoutMs: 10_000 });
+        if (isErr(response)) {
+            return err(createAppError('OAuth', `Failed to load OpenID configuration for ${issuer}`, {
+                cause: response.error,
+                details: { issuer, discoveryUrl }
+            }));
+        }
+
+        const parsed = discoveryDocumentSchema.safeParse(response.data);
+        if (!parsed.success) {
+            return err(createAppError('OAuth', `Invalid OpenID configuration for ${issuer}`, {
+                cause: parsed.error,
+                details: { issuer, discoveryUrl, issues: parsed.error.issues.map((issue) => issue.message) }
+            }));
+        }
+
+        if (normalizeIssuer(parsed.data.issuer) !== normalizeIssuer(issuer)) {
+            return err(createAppError('OAuth', `OpenID configuration issuer mismatch for ${issuer}`, {
+                details: { expected: issuer, received: parsed.data.issuer }
+            }));
+        }
+
+        this.documents.set(issuer, parsed.data);
+        return ok(parsed.data);
+    }
+
+    /**
+     * Build a provider definition for a configured OIDC issuer
+     *
+     * @param issuerConfig - Issuer entry from `config.oidcIssuers`
+     * @returns Result containing the provider definition or an OAuth error
+     */
+    async resolveProvider(issuerConfig: OidcIssuerConfig): Promise<Result<OAuthProviderDefinition, AppError>> {
+        const documentResult = await this.discover(issuerConfig.issuer);
+        if (isErr(documentResult)) {
+            return err(documentResult.error);
+        }
+        const document = documentResult.data;
+
+        const responseTypes = (['id_token', 'code'] as OAuthResponseType[]).filter((type) =>
+            document.response_types_supported.includes(type)
+        );
+
+        return ok({
+            id: toOidcProviderId(issuerConfig.id),
+            name: issuerConfig.name,
+            authUrl: document.authorization_endpoint,
+            tokenUrl: document.token_endpoint,
+            responseTypes,
+            scopes: issuerConfig.scopes,
+            claims: { subject: issuerConfig.subjectClaim, email: 'email', name: 'name', picture: 'picture' },
+            clientId: issuerConfig.clientId,
+            issuer: document.issuer,
+            jwksUri: document.jwks_uri,
+        });
+    }
+
+    /**
+     * Drop cached discovery documents (e.g. after an issuer rotated endpoints)
+     */
+    clearCache(): void {
+        this.documents.clear();
+    }
+}
+
+// Issuer identifiers are compared without a trailing slash
+function normalizeIssuer(issuer: string): string {
+    return issuer.replace(/\/+$/, '');
+}
+
+// Factory function to create service instance
+export function createOidcDiscoveryService(): OidcDiscoveryService {
+    return new OidcDiscoveryService();
+}
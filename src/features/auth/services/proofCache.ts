@@ -0,0 +1,132 @@
+import { getExtendedEphemeralPublicKey } from '@mysten/sui/zklogin';
+import type { ZkProof, ZkProofRequest } from '@/features/auth/types';
+import type { SuiNetwork } from '@/config';
+import { createIndexedDbStore, isIndexedDbAvailable, type IndexedDbStore } from '@/shared/utils';
+
+interface CachedProof {
+    proof: ZkProof;
+    network: SuiNetwork;
+    maxEpoch: number;
+    createdAt: number;
+}
+
+/**
+ * Proof Cache - Persistent ZK Proof Reuse
+ *
+ * Proof generation is the slowest step of login. A proof only depends on the
+ * JWT, the extended ephemeral public key, maxEpoch and the salt (for the
+ * network's prover), so when those inputs repeat (re-running `completeLogin`,
+ * page reloads during login) the cached proof is reused instead of calling
+ * the prover again.
+ *
+ * 🗄️ STORAGE:
+ * - IndexedDB database `zklogin`, store `proofs`
+ * - Key: SHA-256 of network + jwt + extended ephemeral key + maxEpoch + salt
+ * - Entries are evicted once their `maxEpoch` has passed on their network
+ * - A network's entries are cleared by clearAll on that network
+ *
+ * The cache is best-effort: when IndexedDB is unavailable or fails, lookups
+ * miss and writes are skipped, and login falls back to the prover.
+ *
+ * @example
+ * ```typescript
+ * const cache = createProofCache();
+ * const cached = await cache.get('devnet', request);
+ * const proof = cached ?? (await prover.generateProof(request));
+ * await cache.set('devnet', request, proof);
+ * ```
+ */
+export class ProofCache {
+    private store: IndexedDbStore<CachedProof> | null;
+
+    constructor() {
+        this.store = isIndexedDbAvailable() ? createIndexedDbStore<CachedProof>('zklogin', 'proofs') : null;
+    }
+
+    /**
+     * Look up a cached proof for the exact same prover inputs
+     */
+    async get(network: SuiNetwork, request: ZkProofRequest): Promise<ZkProof | null> {
+        if (!this.store) {
+            return null;
+        }
+        try {
+            const entry = await this.store.get(await this.cacheKey(network, request));
+            return entry ? entry.proof : null;
+        } catch {
+            return null;
+        }
+    }
+
+    /**
+     * Cache a proof for its prover inputs
+     */
+    async set(network: SuiNetwork, request: ZkProofRequest, proof: ZkProof): Promise<void> {
+        if (!this.store) {
+            return;
+        }
+        try {
+            await this.store.put(await this.cacheKey(network, request), {
+                proof,
+                network,
+                maxEpoch: request.maxEpoch,
+                createdAt: Date.now(),
+            });
+        } catch {
+            // Best-effort cache
+        }
+    }
+
+    /**
+     * Remove proofs of a network whose ephemeral key expired before the given epoch
+     */
+    async evictExpired(network: SuiNetwork, currentEpoch: number): Promise<void> {
+        if (!this.store) {
+            return;
+        }
+        try {
+            const entries = await this.store.getAll();
+            await Promise.all(
+                entries
+                    .filter(({ value }) => value.network === network && value.maxEpoch < currentEpoch)
+                    .map(({ key }) => this.store!.delete(key))
+            );
+        } catch {
+            // Best-effort cache
+        }
+    }
+
+    /**
+     * Remove every cached proof of a network
+     */
+    async clear(network: SuiNetwork): Promise<void> {
+        if (!this.store) {
+            return;
+        }
+        try {
+            const entries = await this.store.getAll();
+            await Promise.all(
+                entries.filter(({ value }) => value.network === network).map(({ key }) => this.store!.delete(key))
+            );
+        } catch {
+            // Best-effort cache
+        }
+    }
+
+    private async cacheKey(network: SuiNetwork, request: ZkProofRequest): Promise<string> {
+        const input = [
+            network,
+            request.jwt,
+            getExtendedEphemeralPublicKey(request.ephemeralPublicKey),
+            request.maxEpoch,
+            request.salt,
+        ].join('|');
+        const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(input));
+        return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, '0')).join('');
+    }
+}
+
+// Factory function to create service instance
+export function createProofCache(): ProofCache {
+    return new ProofCache();
+}
@@ -0,0 +1,274 @@
+import { z } from 'zod';
+import { getExtendedEphemeralPublicKey } from '@mysten/sui/zklogin';
+import { jwtDecode } from 'jwt-decode';
+import type { JwtPayload, ProverService, ZkProof, ZkProofRequest } from '@/features/auth/types';
+import type { Config } from '@/config';
+import { Result, ok, err, isErr } from '@/shared/lib';
+import { createAppError, type AppError } from '@/shared/lib';
+import { httpClient, isRetryableError, type SuiNetworkDefinition } from '@/shared/lib';
+
+const zkProofSchema = z.object({
+    proofPoints: z.object({
+        a: z.array(z.string()),
+        b: z.array(z.array(z.string())),
+        c: z.array(z.string()),
+    }),
+    issBase64Details: z.object({
+        value: z.string(),
+        indexMod4: z.number(),
+    }),
+    headerBase64: z.string(),
+});
+
+/**
+ * HTTP Prover Service - Mysten Prover API
+ *
+ * Calls a prover speaking the Mysten zkLogin prover API: POST the JWT, the
+ * extended ephemeral public key, max epoch, randomness, salt and key claim
+ * name; receive the proof points. Base for the hosted and self-hosted provers.
+ */
+export class HttpProverService implements ProverService {
+    readonly name: string;
+    protected readonly proverUrl: string;
+    protected readonly timeoutMs: number;
+
+    constructor(name: string, proverUrl: string, timeoutMs: number) {
+        this.name = name;
+        this.proverUrl = proverUrl;
+        this.timeoutMs = timeoutMs;
+    }
+
+    async generateProof(request: ZkProofRequest): Promise<Result<ZkProof, AppError>> {
+        const body = {
+            jwt: request.jwt,
+            extendedEphemeralPublicKey: getExtendedEphemeralPublicKey(request.ephemeralPublicKey),
+            maxEpoch: String(request.maxEpoch),
+            jwtRandomness: request.randomness,
+            salt: request.salt,
+            keyClaimName: request.keyClaimName,
+        };
+
+        const result = await httpClient.post<unknown>(this.proverUrl, body, { timeoutMs: this.timeoutMs });
+        if (isErr(result)) {
+            return err(this.mapError(result.error));
+        }
+        return parseProof(result.data, this.name);
+    }
+
+    protected mapError(error: AppError): AppError {
+        // Unreachable, slow or failing provers are worth retrying; other errors reject the request
+        return createAppError(isRetryableError(error) ? 'ProverUnavailable' : 'ZkLogin', 'Failed to generate ZK proof from prover service', {
+            cause: error,
+            status: error.status,
+            details: { step: 'generateZkProof', prover: this.name, proverUrl: this.proverUrl }
+        });
+    }
+}
+
+/**
+ * Mysten Prover Service - Hosted Mysten Labs Prover
+ *
+ * The default prover. `https://prover-dev.mystenlabs.com/v1` serves Devnet
+ * (and Localnet); Testnet and Mainnet have no public hosted prover and need
+ * Enoki or a self-hosted prover (see `UnavailableProverService`).
+ */
+export class MystenProverService extends HttpProverService {
+    constructor(proverUrl: string) {
+        super('mysten', proverUrl, 30_000);
+    }
+}
+
+/**
+ * Self-Hosted Prover Service - Prover from `docker-compose.yml`
+ *
+ * Same API as the Mysten prover, served by the bundled docker compose setup
+ * (`PROVER_PORT=8080 docker compose up` → `http://localhost:8080/v1`). Proving
+ * on your own hardware is slower, so the timeout matches the compose file's
+ * `PROVER_TIMEOUT` (60s).
+ */
+export class SelfHostedProverService extends HttpProverService {
+    constructor(proverUrl: string) {
+        super('self-hosted', proverUrl, 60_000);
+    }
+
+    protected mapError(error: AppError): AppError {
+        if (error.kind === 'Network' || error.kind === 'Timeout') {
+            return createAppError('ProverUnavailable', 'Self-hosted prover is not reachable. Is `docker compose up` running?', {
+                cause: error,
+                details: { step: 'generateZkProof', prover: this.name, proverUrl: this.proverUrl }
+            });
+        }
+        return super.mapError(error);
+    }
+}
+
+/**
+ * Enoki Prover Service - Enoki zkLogin API
+ *
+ * Requests proofs from Enoki (`POST /v1/zklogin/zkp`), authenticated with a
+ * public API key. The JWT travels in the `zklogin-jwt` header.
+ *
+ * ⚠️ Enoki proves against its own managed salt: pair it with a salt service
+ * returning the same salt (Enoki's `/v1/zklogin` endpoint), otherwise the
+ * derived address and the proof will not match.
+ */
+export class EnokiProverService implements ProverService {
+    readonly name = 'enoki';
+    private readonly apiKey: string;
+    private readonly network: string;
+    private readonly apiUrl: string;
+
+    constructor(apiKey: string, network: string, apiUrl: string = 'https://api.enoki.mystenlabs.com/v1') {
+        this.apiKey = apiKey;
+        this.network = network;
+        this.apiUrl = apiUrl;
+    }
+
+    async generateProof(request: ZkProofRequest): Promise<Result<ZkProof, AppError>> {
+        const result = await httpClient.post<{ data?: unknown }>(
+            `${this.apiUrl}/zklogin/zkp`,
+            {
+                network: this.network,
+                ephemeralPublicKey: request.ephemeralPublicKey.toSuiPublicKey(),
+                maxEpoch: request.maxEpoch,
+                randomness: request.randomness,
+            },
+            {
+                timeoutMs: 30_000,
+                headers: {
+                    Authorization: `Bearer ${this.apiKey}`,
+                    'zklogin-jwt': request.jwt,
+                },
+            }
+        );
+
+        if (isErr(result)) {
+            return err(createAppError(isRetryableError(result.error) ? 'ProverUnavailable' : 'ZkLogin', 'Failed to generate ZK proof from Enoki', {
+                cause: result.error,
+                status: result.error.status,
+                details: { step: 'generateZkProof', prover: this.name, network: this.network }
+            }));
+        }
+        return parseProof(result.data?.data, this.name);
+    }
+}
+
+/**
+ * Mock Prover Service - Deterministic Fake Proofs
+ *
+ * ⚠️ DEVELOPMENT ONLY: proofs are derived from a hash of the request and are
+ * rejected by validators. Use it to work on the login flow and UI offline or
+ * with issuers the real provers do not support (e.g. the local stand-in OIDC
+ * issuer). The same request always yields the same proof.
+ */
+export class MockProverService implements ProverService {
+    readonly name = 'mock';
+
+    async generateProof(request: ZkProofRequest): Promise<Result<ZkProof, AppError>> {
+        try {
+            const seed = [
+                request.jwt,
+                request.ephemeralPublicKey.toSuiPublicKey(),
+                request.maxEpoch,
+                request.randomness,
+                request.salt,
+            ].join('|');
+            const point = async (label: string) => {
+                const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(`${seed}|${label}`));
+                // Keep values below the BN254 field size by dropping the top byte
+                return BigInt(`0x${Array.from(new Uint8Array(digest).slice(1), (b) => b.toString(16).padStart(2, '0')).join('')}`).toString();
+            };
+
+            const { iss } = jwtDecode<JwtPayload>(request.jwt);
+            const issClaim = `"iss":"${iss}",`;
+
+            return ok({
+                proofPoints: {
+                    a: [await point('a0'), await point('a1'), '1'],
+                    b: [[await point('b00'), await point('b01')], [await point('b10'), await point('b11')], ['1', '0']],
+                    c: [await point('c0'), await point('c1'), '1'],
+                },
+                issBase64Details: {
+                    value: btoa(issClaim).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, ''),
+                    indexMod4: 0,
+                },
+                headerBase64: request.jwt.split('.')[0],
+            });
+        } catch (error) {
+            return err(createAppError('ZkLogin', 'Mock prover failed to build a proof', {
+                cause: error,
+                details: { step: 'generateZkProof', prover: this.name }
+            }));
+        }
+    }
+}
+
+/**
+ * Unavailable Prover Service - No Prover for This Network
+ *
+ * Stands in when the configured prover type has no URL for a network (the
+ * Mysten prover on Testnet or Mainnet, a self-hosted prover without a URL for
+ * that network), so login fails with an explanation instead of sending the
+ * JWT to a prover that cannot prove for the network.
+ */
+export class UnavailableProverService implements ProverService {
+    readonly name: string;
+    private readonly networkName: string;
+
+    constructor(name: string, networkName: string) {
+        this.name = name;
+        this.networkName = networkName;
+    }
+
+    async generateProof(): Promise<Result<ZkProof, AppError>> {
+        const remedy = this.name === 'self-hosted'
+            ? 'Set its prover URL in VITE_SUI_NETWORKS (or VITE_ZK_PROVER_URL for the default network)'
+            : 'Use Enoki (VITE_ZK_PROVER_TYPE=enoki) or a self-hosted prover';
+        return err(createAppError('ZkLogin', `No ${this.name} zkLogin prover is configured for ${this.networkName}. ${remedy}.`, {
+            details: { step: 'generateZkProof', prover: this.name }
+        }));
+    }
+}
+
+function parseProof(data: unknown, prover: string): Result<ZkProof, AppError> {
+    const parsed = zkProofSchema.safeParse(data);
+    if (!parsed.success) {
+        return err(createAppError('ZkLogin', 'Prover returned an invalid proof', {
+            cause: parsed.error,
+            details: { step: 'generateZkProof', prover }
+        }));
+    }
+    return ok(parsed.data);
+}
+
+/**
+ * Factory function to create the configured prover service
+ *
+ * @param config - Validated app configuration (`proverType`, Enoki settings)
+ * @param network - Network to prove for (its `proverUrl`; Enoki uses the network id)
+ * @returns Prover service instance
+ */
+export function createProverService(config: Config, network: SuiNetworkDefinition): ProverService {
+    switch (config.proverType) {
+        case 'self-hosted': {
+            // Only explicitly configured URLs: never fall back to the hosted Mysten prover
+            const proverUrl = config.networks[network.id]?.proverUrl
+                ?? (network.id === config.suiNetwork ? config.proverUrl : undefined);
+            return proverUrl
+                ? new SelfHostedProverService(proverUrl)
+                : new UnavailableProverService('self-hosted', network.name);
+        }
+        case 'enoki':
+            return new EnokiProverService(
+                config.enokiApiKey ?? '',
+                network.id === 'localnet' ? config.enokiNetwork : network.id
+            );
+        case 'mock':
+            return new MockProverService();
+        case 'mysten':
+        default:
+            return network.proverUrl
+                ? new MystenProverService(network.proverUrl)
+                : new UnavailableProverService('mysten', network.name);
+    }
+}
@@ -1,19 +1,38 @@
-import { sessionCookieStorage } from '@/shared/utils';
-import type { SaltService } from '@/features/auth/types';
-import { Result, ok, err } from '@/shared/lib';
+import { z } from 'zod';
+import { jwtDecode } from 'jwt-decode';
+import type { SecureStorage } from '@/shared/utils';
+import type { JwtPayload, SaltService } from '@/features/auth/types';
+import { saltServiceConfigSchema, type SaltServiceConfig } from '@/config';
+import { Result, ok, err, isErr } from '@/shared/lib';
 import { createAppError, type AppError } from '@/shared/lib';
+import { http, withRetry } from '@/shared/lib';
+
+// zkLogin salts are integers below 2^128
+const MAX_SALT = 1n << 128n;
+
+// Decimal strings, or JSON numbers while they are still exact (safe integers)
+const backendSaltSchema = z.union([
+    z.string().regex(/^\d+$/, 'Salt must be a decimal integer'),
+    z.number().int().nonnegative(),
+])
+    .transform((salt) => BigInt(salt))
+    .refine((salt) => salt < MAX_SALT, 'Salt must be below 2^128')
+    .transform((salt) => salt.toString());
+
+// Salts returned by the backend, keyed by a hash of the identity (iss, aud, sub)
+const SALT_CACHE_KEY = "zk_salt_cache";
 
 /**
  * Demo Salt Service - Client-Side Salt Generation
  * 
  * This service generates and manages user salts client-side for demo purposes.
- * It provides a simple implementation that stores salts in persistent cookies.
+ * It provides a simple implementation that keeps salts in the secure storage.
  * 
  * ⚠️  DEMO ONLY - NOT FOR PRODUCTION:
  * - Generates random salts client-side
- * - Stores salts in browser cookies
+ * - Stores salts in the browser (secure storage)
  * - No server-side validation or security
- * - Addresses may change if cookies are cleared
+ * - Addresses may change if site data is cleared
  * 
  * 🔒 PRODUCTION REQUIREMENTS:
  * - Move to secure backend service
@@ -24,18 +43,23 @@ import { createAppError, type AppError } from '@/shared/lib';
  * 🏗️ IMPLEMENTATION DETAILS:
  * - Uses crypto.getRandomValues() for secure randomness
  * - Converts 16 random bytes to BigInt for salt
- * - Stores in persistent cookies (30-day expiration)
+ * - Stores in the injected secure storage (IndexedDB by default)
  * - Implements SaltService interface for easy switching
  * 
  * @example
  * ```typescript
- * const saltService = new DemoSaltService();
+ * const saltService = new DemoSaltService(createSecureStorage());
  * const salt = await saltService.getOrCreateSalt(jwtPayload);
  * console.log('User salt:', salt);
  * ```
  */
 export class DemoSaltService implements SaltService {
     private readonly SALT_KEY = "zk_user_salt";
+    private readonly storage: SecureStorage;
+
+    constructor(storage: SecureStorage) {
+        this.storage = storage;
+    }
 
     /**
      * Get or Create User Salt - ZKLOGIN STEP 7 (Demo Implementation)
@@ -72,8 +96,8 @@ export class DemoSaltService implements SaltService {
 
     async getOrCreateSalt(_jwtToken: string): Promise<Result<string, AppError>> {
         try {
-            // Try to retrieve existing salt from session storage
-            let salt = sessionCookieStorage.getItem(this.SALT_KEY);
+            // Try to retrieve existing salt from secure storage
+            let salt = await this.storage.getItem(this.SALT_KEY);
 
             if (!salt) {
                 // DEMO ONLY: Generate random salt client-side
@@ -92,9 +116,8 @@ export class DemoSaltService implements SaltService {
                     }
                     salt = big.toString();
 
-                    // Store salt in session cookies (expires when browser closes)
-                    // This ensures the salt is only available during the current session
-                    sessionCookieStorage.setItem(this.SALT_KEY, salt);
+                    // Store salt in secure storage (never sent with HTTP requests)
+                    await this.storage.setItem(this.SALT_KEY, salt);
                 } catch (cryptoError) {
                     const error = createAppError('SaltService', 'Failed to generate salt', {
                         cause: cryptoError,
@@ -104,7 +127,7 @@ export class DemoSaltService implements SaltService {
                 }
             }
 
-            return ok(salt as string);
+            return ok(salt);
         } catch (error) {
             const appError = createAppError('SaltService', 'Failed to get or create salt', {
                 cause: error,
@@ -114,8 +137,8 @@ export class DemoSaltService implements SaltService {
         }
     }
 
-    clearSalt(): void {
-        sessionCookieStorage.removeItem(this.SALT_KEY);
+    async clearSalt(): Promise<void> {
+        await this.storage.removeItem(this.SALT_KEY);
     }
 }
 
@@ -134,119 +157,175 @@ export class DemoSaltService implements SaltService {
  * - Rate limiting and abuse prevention
  * 
  * 🏗️ IMPLEMENTATION DETAILS:
- * - Calls backend API for salt management
- * - Caches salt locally for performance
- * - Handles network errors gracefully
- * - Implements proper error handling
+ * - Calls the backend API through the shared `http` helper (timeout)
+ * - Retries network errors, timeouts, 429 and 5xx with exponential backoff
+ * - Request shape and headers come from `VITE_SALT_SERVICE` (different salt APIs)
+ * - Validates the salt: a decimal integer below 2^128
+ * - Caches the salt per identity (iss, aud, sub), so each account keeps its own
+ *   and later logins need no request
  * 
  * @example
  * ```typescript
- * const saltService = new BackendSaltService('https://api.yourapp.com');
- * const salt = await saltService.getOrCreateSalt(jwtPayload);
+ * const saltService = new BackendSaltService('https://api.yourapp.com/salt', createSecureStorage(), config.saltService);
+ * const salt = await saltService.getOrCreateSalt(jwtToken);
  * ```
  */
 export class BackendSaltService implements SaltService {
     private readonly saltServiceUrl: string;
+    private readonly storage: SecureStorage;
+    private readonly requestConfig: SaltServiceConfig;
 
-    constructor(saltServiceUrl: string) {
+    constructor(saltServiceUrl: string, storage: SecureStorage, requestConfig: SaltServiceConfig) {
         this.saltServiceUrl = saltServiceUrl;
+        this.storage = storage;
+        this.requestConfig = requestConfig;
     }
 
-
     async getOrCreateSalt(jwtToken: string): Promise<Result<string, AppError>> {
         try {
-            // Call the API to authenticate and get salt
-            // Note: jwtToken should be the raw JWT token when using BackendSaltService
-            const response = await fetch(`${this.saltServiceUrl}`, {
-                method: 'POST',
-                headers: {
-                    'Content-Type': 'application/json',
-                },
-                body: JSON.stringify({ jwtToken: jwtToken }),
-            });
+            const identity = await this.identityKey(jwtToken);
+            const cache = await this.readCache();
+            const cachedSalt = cache[identity];
+            if (cachedSalt) {
+                await this.storage.setItem("zk_user_salt", cachedSalt);
+                return ok(cachedSalt);
+            }
 
-            if (!response.ok) {
-                const txt = await response.text();
-                let errorMessage = `Authentication failed (${response.status})`;
-
-                // Provide more specific error messages based on status code
-                if (response.status === 401) {
-                    errorMessage = "Invalid authentication token. Please login again.";
-                } else if (response.status === 500) {
-                    errorMessage = "Backend service error. Please try again or contact support.";
-                } else if (response.status === 0 || response.status >= 500) {
-                    errorMessage = "Backend service is unavailable. Please check your connection and try again.";
-                } else {
-                    errorMessage = `Authentication failed: ${txt}`;
-                }
+            const { retries, retryDelayMs } = this.requestConfig;
+            const response = await withRetry(() => this.requestSalt(jwtToken), { retries, baseDelayMs: retryDelayMs });
+            if (isErr(response)) {
+                return err(this.toSaltServiceError(response.error));
+            }
 
-                const error = createAppError('SaltService', errorMessage, {
-                    status: response.status,
-                    cause: new Error(`Salt service error: ${response.status} ${txt}`),
-                    details: { responseText: txt }
+            const parsed = backendSaltSchema.safeParse(readPath(response.data, this.requestConfig.saltPath));
+            if (!parsed.success) {
+                const error = createAppError('SaltService', `Invalid response from the salt service: ${parsed.error.issues[0]?.message ?? 'missing salt'}`, {
+                    cause: parsed.error,
+                    details: { saltPath: this.requestConfig.saltPath }
                 });
                 return err(error);
             }
 
-            const authData = await response.json();
+            const salt = parsed.data;
+            await this.storage.setItem(SALT_CACHE_KEY, JSON.stringify({ ...cache, [identity]: salt }));
+            await this.storage.setItem("zk_user_salt", salt);
+            return ok(salt);
+        } catch (error) {
+            const appError = createAppError('SaltService', "Failed to get user salt from backend service. Please try again or contact support.", {
+                cause: error,
+                details: 'Unexpected error in salt service'
+            });
+            return err(appError);
+        }
+    }
 
-            // Validate response structure
-            if (!authData.salt) {
-                const error = createAppError('SaltService', 'Invalid response from backend: missing salt', {
-                    cause: new Error('Missing salt in response'),
-                    details: { response: authData }
-                });
-                return err(error);
-            }
+    async clearSalt(): Promise<void> {
+        await this.storage.removeItem("zk_user_salt");
+        await this.storage.removeItem(SALT_CACHE_KEY);
+    }
 
-            const salt = String(authData.salt);
+    /**
+     * Send the JWT the way the configured salt API expects it
+     */
+    private requestSalt(jwtToken: string): Promise<Result<unknown, AppError>> {
+        const { method, tokenField, tokenHeader, headers, timeoutMs } = this.requestConfig;
+        const url = new URL(this.saltServiceUrl);
+        const requestHeaders: Record<string, string> = { ...headers };
+        let body: string | undefined;
 
-            // Cache the salt in session storage for performance
-            sessionCookieStorage.setItem("zk_user_salt", salt);
+        if (tokenHeader) {
+            requestHeaders[tokenHeader] = tokenHeader.toLowerCase() === 'authorization' ? `Bearer ${jwtToken}` : jwtToken;
+        }
+        if (tokenField && method === 'GET') {
+            url.searchParams.set(tokenField, jwtToken);
+        } else if (tokenField) {
+            requestHeaders['Content-Type'] = 'application/json';
+            body = JSON.stringify({ [tokenField]: jwtToken });
+        }
 
-            return ok(salt);
-        } catch (error) {
-            // Handle different types of errors
-            if (error instanceof TypeError && error.message.includes('fetch')) {
-                // Network error - backend is unreachable
-                const appError = createAppError('Network', "Cannot connect to backend service. Please check your internet connection and try again.", {
+        return http<unknown>(url.toString(), { method, headers: requestHeaders, body, timeoutMs });
+    }
+
+    private toSaltServiceError(error: AppError): AppError {
+        switch (error.kind) {
+            case 'Network':
+            case 'Timeout':
+                return createAppError('Network', "Cannot connect to backend service. Please check your internet connection and try again.", {
                     cause: error,
                     details: 'Backend service unreachable'
                 });
-                return err(appError);
-            } else if (error instanceof Error) {
-                // Re-throw with the specific error message
-                const appError = createAppError('SaltService', error.message, {
+            case 'Unauthorized':
+                return createAppError('SaltService', "Invalid authentication token. Please login again.", {
                     cause: error,
-                    details: 'Backend salt service error'
+                    status: error.status
                 });
-                return err(appError);
-            } else {
-                // Unknown error
-                const appError = createAppError('SaltService', "Failed to get user salt from backend service. Please try again or contact support.", {
+            case 'RateLimited':
+                return createAppError('SaltService', "Too many salt requests. Please wait a minute and try again.", {
                     cause: error,
-                    details: 'Unknown error in salt service'
+                    status: error.status
+                });
+            case 'Server':
+                return createAppError('SaltService', "Backend service error. Please try again or contact support.", {
+                    cause: error,
+                    status: error.status
+                });
+            default:
+                return createAppError('SaltService', `Salt service rejected the request: ${error.message}`, {
+                    cause: error,
+                    status: error.status
                 });
-                return err(appError);
-            }
         }
     }
 
-    clearSalt(): void {
-        sessionCookieStorage.removeItem("zk_user_salt");
+    /**
+     * Cache key of an identity: hash of its iss, aud and sub (no claims in storage)
+     */
+    private async identityKey(jwtToken: string): Promise<string> {
+        const { iss, aud, sub } = jwtDecode<JwtPayload>(jwtToken);
+        const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(`${iss}|${aud}|${sub}`));
+        return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, '0')).join('');
+    }
+
+    private async readCache(): Promise<Record<string, string>> {
+        const cache = await this.storage.getItem(SALT_CACHE_KEY);
+        if (!cache) {
+            return {};
+        }
+        try {
+            return JSON.parse(cache) as Record<string, string>;
+        } catch {
+            return {};
+        }
     }
 }
 
+/**
+ * Read a dot path (e.g. `data.salt`) from a response body
+ */
+function readPath(body: unknown, path: string): unknown {
+    return path.split('.').reduce<unknown>(
+        (value, key) => (value && typeof value === 'object' ? (value as Record<string, unknown>)[key] : undefined),
+        body
+    );
+}
+
 /**
  * Factory function to create the appropriate salt service
  * 
+ * @param storage - Secure storage the salt is kept in
  * @param useBackend - Whether to use backend service (production) or demo service
  * @param saltServiceUrl - Backend URL for salt service (if using backend)
+ * @param requestConfig - Request shape of the backend salt API (VITE_SALT_SERVICE, defaults when omitted)
  * @returns Salt service instance
  */
-export function createSaltService(useBackend: boolean = false, saltServiceUrl?: string): SaltService {
+export function createSaltService(
+    storage: SecureStorage,
+    useBackend: boolean = false,
+    saltServiceUrl?: string,
+    requestConfig?: SaltServiceConfig
+): SaltService {
     if (useBackend && saltServiceUrl) {
-        return new BackendSaltService(saltServiceUrl);
+        return new BackendSaltService(saltServiceUrl, storage, requestConfig ?? saltServiceConfigSchema.parse({}));
     }
-    return new DemoSaltService();
+    return new DemoSaltService(storage);
 }
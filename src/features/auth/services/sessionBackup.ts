@@ -0,0 +1,187 @@
+import { z } from 'zod';
+import { fromBase64, toBase64 } from '@mysten/sui/utils';
+import type { SessionBackup } from '@/features/auth/types';
+import { suiNetworkSchema } from '@/config';
+import { Result, ok, err } from '@/shared/lib';
+import { createAppError, type AppError } from '@/shared/lib';
+import { isOAuthProviderId } from './oauthProviders';
+
+/**
+ * Session Backup - Passphrase-Encrypted Account Export
+ *
+ * With the demo salt service the salt only exists in this browser: losing the
+ * site data loses the address. A backup bundles the salt with the identity it
+ * belongs to (provider, iss, key claim, aud), the derived address and optionally the
+ * signing session, encrypted with a key derived from a passphrase.
+ *
+ * 🔒 FILE FORMAT (JSON):
+ * - PBKDF2-SHA256 (600,000 iterations, random 16-byte salt) derives an AES-GCM key
+ * - AES-GCM (random 12-byte IV) encrypts the bundle; a wrong passphrase or a
+ *   modified file fails authentication instead of decrypting to garbage
+ * - Only the KDF and cipher parameters are readable without the passphrase
+ *
+ * @example
+ * ```typescript
+ * const file = await encryptSessionBackup(backup, passphrase);
+ * const restored = await decryptSessionBackup(file.data, passphrase);
+ * if (restored.ok) console.log(restored.data.address);
+ * ```
+ */
+
+const BACKUP_FORMAT = "zklogin-backup";
+const PBKDF2_ITERATIONS = 600_000;
+
+export const MIN_BACKUP_PASSPHRASE_LENGTH = 8;
+
+const sessionBackupSchema = z.object({
+    version: z.literal(1),
+    createdAt: z.number().int(),
+    network: suiNetworkSchema,
+    address: z.string().regex(/^0x[0-9a-f]{64}$/),
+    salt: z.string().regex(/^\d+$/),
+    provider: z.custom<SessionBackup['provider']>(isOAuthProviderId),
+    iss: z.string().min(1),
+    sub: z.string().min(1),
+    aud: z.string().min(1),
+    session: z.object({
+        ephemeralKeypair: z.string().min(1),
+        maxEpoch: z.number().int().nonnegative(),
+        randomness: z.string().regex(/^\d+$/),
+        jwt: z.string().min(1),
+        proof: z.string().min(1),
+        sessionPolicy: z.string().nullable(),
+    }).optional(),
+});
+
+// Iterations are bounded so a crafted file cannot make the import hang
+const backupFileSchema = z.object({
+    format: z.literal(BACKUP_FORMAT),
+    version: z.literal(1),
+    kdf: z.object({
+        name: z.literal('PBKDF2'),
+        hash: z.literal('SHA-256'),
+        iterations: z.number().int().min(100_000).max(10_000_000),
+        salt: z.string().min(1),
+    }),
+    cipher: z.object({
+        name: z.literal('AES-GCM'),
+        iv: z.string().min(1),
+    }),
+    ciphertext: z.string().min(1),
+});
+
+/**
+ * Encrypt a backup with a passphrase
+ *
+ * @param backup - Account data to export
+ * @param passphrase - At least MIN_BACKUP_PASSPHRASE_LENGTH characters
+ * @returns Result with the file contents (JSON)
+ */
+export async function encryptSessionBackup(backup: SessionBackup, passphrase: string): Promise<Result<string, AppError>> {
+    if (passphrase.length < MIN_BACKUP_PASSPHRASE_LENGTH) {
+        return err(createAppError('Validation', `Use a passphrase of at least ${MIN_BACKUP_PASSPHRASE_LENGTH} characters`, {
+            details: { reason: 'weak_passphrase' }
+        }));
+    }
+
+    try {
+        const salt = crypto.getRandomValues(new Uint8Array(16));
+        const iv = crypto.getRandomValues(new Uint8Array(12));
+        const key = await deriveKey(passphrase, salt, PBKDF2_ITERATIONS);
+        const ciphertext = await crypto.subtle.encrypt(
+            { name: 'AES-GCM', iv },
+            key,
+            new TextEncoder().encode(JSON.stringify(backup))
+        );
+
+        const file: z.infer<typeof backupFileSchema> = {
+            format: BACKUP_FORMAT,
+            version: 1,
+            kdf: { name: 'PBKDF2', hash: 'SHA-256', iterations: PBKDF2_ITERATIONS, salt: toBase64(salt) },
+            cipher: { name: 'AES-GCM', iv: toBase64(iv) },
+            ciphertext: toBase64(new Uint8Array(ciphertext)),
+        };
+        return ok(JSON.stringify(file, null, 2));
+    } catch (error) {
+        return err(createAppError('Unknown', 'Failed to encrypt the backup', {
+            cause: error,
+            details: { step: 'encryptSessionBackup' }
+        }));
+    }
+}
+
+/**
+ * Decrypt and validate a backup file
+ *
+ * @param contents - File contents as produced by `encryptSessionBackup`
+ * @param passphrase - Passphrase chosen at export
+ * @returns Result with the backup, or a Validation error when the file is not a
+ *   backup, the passphrase is wrong (or the file was modified) or the bundle is invalid
+ */
+export async function decryptSessionBackup(contents: string, passphrase: string): Promise<Result<SessionBackup, AppError>> {
+    let file: z.infer<typeof backupFileSchema>;
+    try {
+        const parsed = backupFileSchema.safeParse(JSON.parse(contents));
+        if (!parsed.success) {
+            return err(createAppError('Validation', 'This file is not a zkLogin backup', {
+                cause: parsed.error,
+                details: { reason: 'invalid_format' }
+            }));
+        }
+        file = parsed.data;
+    } catch (error) {
+        return err(createAppError('Validation', 'This file is not a zkLogin backup', {
+            cause: error,
+            details: { reason: 'invalid_json' }
+        }));
+    }
+
+    let plaintext: string;
+    try {
+        const key = await deriveKey(passphrase, fromBase64(file.kdf.salt), file.kdf.iterations);
+        const decrypted = await crypto.subtle.decrypt(
+            { name: 'AES-GCM', iv: fromBase64(file.cipher.iv) },
+            key,
+            fromBase64(file.ciphertext)
+        );
+        plaintext = new TextDecoder().decode(decrypted);
+    } catch (error) {
+        return err(createAppError('Validation', 'Wrong passphrase, or the backup file was modified', {
+            cause: error,
+            details: { reason: 'decryption_failed' }
+        }));
+    }
+
+    try {
+        const parsed = sessionBackupSchema.safeParse(JSON.parse(plaintext));
+        if (!parsed.success) {
+            return err(createAppError('Validation', 'The backup contents are invalid', {
+                cause: parsed.error,
+                details: { reason: 'invalid_backup' }
+            }));
+        }
+        return ok(parsed.data);
+    } catch (error) {
+        return err(createAppError('Validation', 'The backup contents are invalid', {
+            cause: error,
+            details: { reason: 'invalid_backup' }
+        }));
+    }
+}
+
+async function deriveKey(passphrase: string, salt: Uint8Array<ArrayBuffer>, iterations: number): Promise<CryptoKey> {
+    const material = await crypto.subtle.importKey(
+        'raw',
+        new TextEncoder().encode(passphrase),
+        'PBKDF2',
+        false,
+        ['deriveKey']
+    );
+    return crypto.subtle.deriveKey(
+        { name: 'PBKDF2', hash: 'SHA-256', salt, iterations },
+        material,
+        { name: 'AES-GCM', length: 256 },
+        false,
+        ['encrypt', 'decrypt']
+    );
+}
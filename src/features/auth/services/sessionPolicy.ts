@@ -0,0 +1,76 @@
+import type { Config, SuiNetwork } from '@/config';
+import type { SessionPolicy } from '@/features/auth/types';
+
+/**
+ * Session Policy - Ephemeral Key Lifetime
+ *
+ * Decides how many epochs after the login epoch the ephemeral key stays valid
+ * (`maxEpoch = currentEpoch + epochs`), from `config.sessionPolicy`:
+ *
+ * ⏱️ RESOLUTION ORDER:
+ * 1. `targetDurationMinutes`: converted to epochs with the system state's
+ *    epoch duration, so the session lasts at least that long
+ * 2. `epochsByNetwork[network]`
+ * 3. `epochs` (default window)
+ *
+ * The result is capped at `maxEpochs` and never shorter than one epoch.
+ *
+ * @example
+ * ```typescript
+ * const systemState = await client.getLatestSuiSystemState();
+ * const policy = resolveSessionPolicy(config, 'devnet', systemState);
+ * const maxEpoch = Number(systemState.epoch) + policy.epochs;
+ * ```
+ */
+
+/**
+ * Epoch timing from `getLatestSuiSystemState()`
+ */
+export interface EpochTiming {
+    epoch: string;
+    epochDurationMs: string;
+    epochStartTimestampMs: string;
+}
+
+/**
+ * Resolve the session window for a login happening now
+ *
+ * @param config - Validated app configuration (`sessionPolicy`)
+ * @param network - Network the session is created on (the active network)
+ * @param timing - Current epoch timing from the Sui system state
+ * @param now - Current time in ms (for testing)
+ * @returns The chosen policy, including the estimated expiry time
+ */
+export function resolveSessionPolicy(config: Config, network: SuiNetwork, timing: EpochTiming, now: number = Date.now()): SessionPolicy {
+    const { sessionPolicy } = config;
+    const epochDurationMs = Number(timing.epochDurationMs);
+    const epochStartMs = Number(timing.epochStartTimestampMs);
+
+    let source: SessionPolicy['source'];
+    let requested: number;
+    if (sessionPolicy.targetDurationMinutes !== undefined && epochDurationMs > 0) {
+        // The key is valid until the end of maxEpoch: pick the first epoch ending after the target
+        const targetEndMs = now + sessionPolicy.targetDurationMinutes * 60_000;
+        source = 'target';
+        requested = Math.ceil((targetEndMs - epochStartMs) / epochDurationMs) - 1;
+    } else if (sessionPolicy.epochsByNetwork[network] !== undefined) {
+        source = 'network';
+        requested = sessionPolicy.epochsByNetwork[network];
+    } else {
+        source = 'default';
+        requested = sessionPolicy.epochs;
+    }
+
+    const epochs = Math.min(Math.max(requested, 1), sessionPolicy.maxEpochs);
+
+    return {
+        network,
+        source,
+        epochs,
+        maxEpochs: sessionPolicy.maxEpochs,
+        clamped: requested > sessionPolicy.maxEpochs,
+        targetDurationMinutes: sessionPolicy.targetDurationMinutes,
+        epochDurationMs,
+        expiresAtMs: epochStartMs + (epochs + 1) * epochDurationMs,
+    };
+}
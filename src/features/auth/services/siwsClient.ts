@@ -0,0 +1,148 @@
+import { z } from 'zod';
+import type { SiwsToken, ZkSession } from '@/features/auth/types';
+import type { SuiNetwork } from '@/config';
+import { Result, ok, err, isErr } from '@/shared/lib';
+import { createAppError, type AppError } from '@/shared/lib';
+import { httpClient } from '@/shared/lib';
+
+const challengeSchema = z.object({
+    nonce: z.string().min(1),
+    message: z.string().min(1),
+    expiresAt: z.string(),
+});
+
+const tokenSchema = z.object({
+    token: z.string().min(1),
+    address: z.string().min(1),
+    expiresAt: z.string(),
+});
+
+/**
+ * SIWS Client - Sign-In with Sui for Our Own APIs
+ *
+ * Turns the zkLogin session into an API token with a challenge/response
+ * handshake (reference server: `server/siws-server`):
+ *
+ * 1. `POST {baseUrl}/challenge` with the address and network → one-time message
+ * 2. The session signs the message as a personal message (zkLogin signature)
+ * 3. `POST {baseUrl}/verify` with the nonce and signature → API token
+ *
+ * 🛡️ CHECKS BEFORE SIGNING:
+ * The message must name this app's host, the session's address, the active
+ * network and the nonce, so a compromised or misconfigured server cannot get
+ * a signature meant for another site or account.
+ *
+ * The token is not stored: callers keep it (in memory) and send it as
+ * `Authorization: Bearer <token>`. It expires with the session at the latest.
+ *
+ * @example
+ * ```typescript
+ * const siws = createSiwsClient('https://api.example.com/siws');
+ * const result = await siws.signIn(session, 'devnet');
+ * if (result.ok) api.setToken(result.data.token);
+ * ```
+ */
+export class SiwsClient {
+    private readonly baseUrl: string;
+
+    constructor(baseUrl: string) {
+        this.baseUrl = baseUrl.replace(/\/+$/, '');
+    }
+
+    /**
+     * Run the handshake for a session
+     *
+     * @param session - Active zkLogin session (signs the challenge)
+     * @param network - Network the session belongs to
+     * @returns Result with the API token, or the server's error (Unauthorized, RateLimited, ...)
+     */
+    async signIn(session: ZkSession, network: SuiNetwork): Promise<Result<SiwsToken, AppError>> {
+        const challengeResponse = await httpClient.post<unknown>(`${this.baseUrl}/challenge`, {
+            address: session.address,
+            network,
+        });
+        if (isErr(challengeResponse)) {
+            return err(wrapError(challengeResponse.error, 'challenge'));
+        }
+
+        const challenge = challengeSchema.safeParse(challengeResponse.data);
+        if (!challenge.success) {
+            return err(createAppError('Server', 'Sign-in server returned an invalid challenge', {
+                cause: challenge.error,
+                details: { step: 'challenge' }
+            }));
+        }
+
+        const { nonce, message } = challenge.data;
+        const problem = checkMessage(message, { address: session.address, network, nonce });
+        if (problem) {
+            return err(createAppError('Validation', `Refusing to sign the sign-in message: ${problem}`, {
+                details: { step: 'challenge', message }
+            }));
+        }
+
+        let signature: string;
+        try {
+            ({ signature } = await session.signPersonalMessage(new TextEncoder().encode(message)));
+        } catch (error) {
+            return err(createAppError('ZkLogin', 'Failed to sign the sign-in message', {
+                cause: error,
+                details: { step: 'sign' }
+            }));
+        }
+
+        const verifyResponse = await httpClient.post<unknown>(`${this.baseUrl}/verify`, { nonce, signature });
+        if (isErr(verifyResponse)) {
+            return err(wrapError(verifyResponse.error, 'verify'));
+        }
+
+        const token = tokenSchema.safeParse(verifyResponse.data);
+        if (!token.success) {
+            return err(createAppError('Server', 'Sign-in server returned an invalid token response', {
+                cause: token.error,
+                details: { step: 'verify' }
+            }));
+        }
+
+        return ok({
+            token: token.data.token,
+            address: token.data.address,
+            expiresAtMs: Date.parse(token.data.expiresAt),
+        });
+    }
+}
+
+/**
+ * Check that a challenge message is the one this session should sign
+ *
+ * @returns What is wrong with the message, or null when it can be signed
+ */
+function checkMessage(message: string, expected: { address: string; network: SuiNetwork; nonce: string }): string | null {
+    const lines = message.split('\n');
+    if (lines[0] !== `${window.location.host} wants you to sign in with your Sui account:`) {
+        return `it is for another site (${lines[0]})`;
+    }
+    if (lines[1] !== expected.address) {
+        return 'it is for another address';
+    }
+    if (!lines.includes(`Network: ${expected.network}`)) {
+        return `it is for another network than ${expected.network}`;
+    }
+    if (!lines.includes(`Nonce: ${expected.nonce}`)) {
+        return 'its nonce does not match the challenge';
+    }
+    return null;
+}
+
+function wrapError(error: AppError, step: 'challenge' | 'verify'): AppError {
+    return createAppError(error.kind, `Sign-in with Sui failed: ${error.message}`, {
+        cause: error,
+        status: error.status,
+        details: { step }
+    });
+}
+
+// Factory function to create service instance
+export function createSiwsClient(baseUrl: string): SiwsClient {
+    return new SiwsClient(baseUrl);
+}
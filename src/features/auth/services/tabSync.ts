@@ -0,0 +1,146 @@
+import type { SuiNetwork } from '@/config';
+import type { SessionValidation } from '@/features/auth/types';
+
+/**
+ * Tab Sync - Auth State Across Browser Tabs
+ *
+ * Tabs of the app share the secure storage (IndexedDB) but each keeps its own
+ * store in memory. A `BroadcastChannel` tells the other tabs when the persisted
+ * auth state changes (login, logout, salt change, account switch), and the
+ * epoch polling leader shares its session checks so the other tabs do not
+ * query the network themselves.
+ *
+ * 📡 MESSAGES:
+ * - `state`: persisted store state after a change (`null` once cleared)
+ * - `session`: result of a session check by the polling leader
+ *
+ * Every message carries the network it applies to: storage is scoped to the
+ * active network, and tabs may be on different networks.
+ *
+ * 👑 LEADER ELECTION:
+ * One tab holds the `zklogin-epoch-leader` Web Lock and polls epochs; when it
+ * closes, the browser releases the lock and the next waiting tab takes over.
+ * Without Web Locks every tab leads (each polls for itself).
+ *
+ * @example
+ * ```typescript
+ * const unsubscribe = subscribeTabSync(message => console.log(message.type));
+ * postTabSyncMessage({ type: 'state', network: 'devnet', value: null });
+ *
+ * const stopLeading = subscribeEpochLeadership(isLeader => setPolling(isLeader));
+ * ```
+ */
+
+const CHANNEL_NAME = 'zklogin-sync';
+const LEADER_LOCK_NAME = 'zklogin-epoch-leader';
+
+export type TabSyncMessage =
+    | { type: 'state'; network: SuiNetwork; value: string | null }
+    | { type: 'session'; network: SuiNetwork; address: string; validation: SessionValidation };
+
+// One channel per tab: a channel does not receive its own messages, so a tab
+// never handles what it posted
+let channel: BroadcastChannel | null = null;
+
+function getChannel(): BroadcastChannel | null {
+    if (!channel && typeof BroadcastChannel !== 'undefined') {
+        channel = new BroadcastChannel(CHANNEL_NAME);
+    }
+    return channel;
+}
+
+/**
+ * Send a message to the other tabs of the app (no-op without BroadcastChannel)
+ */
+export function postTabSyncMessage(message: TabSyncMessage): void {
+    getChannel()?.postMessage(message);
+}
+
+/**
+ * Listen to messages from the other tabs
+ *
+ * @returns Function that removes the listener
+ */
+export function subscribeTabSync(listener: (message: TabSyncMessage) => void): () => void {
+    const syncChannel = getChannel();
+    if (!syncChannel) {
+        return () => {};
+    }
+
+    const handleMessage = (event: MessageEvent) => {
+        if (isTabSyncMessage(event.data)) {
+            listener(event.data);
+        }
+    };
+    syncChannel.addEventListener('message', handleMessage);
+    return () => syncChannel.removeEventListener('message', handleMessage);
+}
+
+function isTabSyncMessage(data: unknown): data is TabSyncMessage {
+    const message = data as Partial<TabSyncMessage> | null;
+    return typeof message === 'object' && message !== null
+        && (message.type === 'state' || message.type === 'session')
+        && typeof message.network === 'string';
+}
+
+// Leadership is requested once per tab and shared by every subscriber
+const leadershipListeners = new Set<(isLeader: boolean) => void>();
+let isLeader = false;
+let releaseLeadership: (() => void) | null = null;
+
+/**
+ * Take part in the election of the tab that polls epochs
+ *
+ * The listener is called with `true` once this tab leads (immediately when it
+ * already does, or when Web Locks are unavailable). The lock is released when
+ * the last subscriber leaves, so another tab can lead.
+ *
+ * @returns Function that stops listening
+ */
+export function subscribeEpochLeadership(listener: (isLeader: boolean) => void): () => void {
+    leadershipListeners.add(listener);
+    if (leadershipListeners.size === 1) {
+        requestLeadership();
+    } else if (isLeader) {
+        listener(true);
+    }
+
+    return () => {
+        leadershipListeners.delete(listener);
+        if (leadershipListeners.size === 0) {
+            releaseLeadership?.();
+        }
+    };
+}
+
+function requestLeadership(): void {
+    if (typeof navigator === 'undefined' || !navigator.locks) {
+        setLeader(true);
+        releaseLeadership = () => setLeader(false);
+        return;
+    }
+
+    const controller = new AbortController();
+    let release: (() => void) | null = null;
+    releaseLeadership = () => {
+        releaseLeadership = null;
+        controller.abort();
+        release?.();
+        setLeader(false);
+    };
+
+    // The lock is held until `release` runs (or the tab closes)
+    navigator.locks
+        .request(LEADER_LOCK_NAME, { signal: controller.signal }, () => new Promise<void>(resolve => {
+            release = resolve;
+            setLeader(true);
+        }))
+        .catch(() => {
+            // Aborted while waiting: the tab stopped competing
+        });
+}
+
+function setLeader(leader: boolean): void {
+    isLeader = leader;
+    leadershipListeners.forEach(listener => listener(leader));
+}
@@ -0,0 +1,89 @@
+import { z } from 'zod';
+import type { OAuthProviderDefinition } from '@/features/auth/types';
+import type { Config } from '@/config';
+import { Result, ok, err, isErr } from '@/shared/lib';
+import { createAppError, type AppError } from '@/shared/lib';
+import { http, httpClient } from '@/shared/lib';
+import { getProviderClientId } from './oauthProviders';
+
+const tokenResponseSchema = z.object({
+    id_token: z.string().min(1),
+});
+
+/**
+ * Exchange an authorization code for an id_token (authorization code + PKCE flow)
+ *
+ * Two exchange paths are supported:
+ * - **Direct**: POST to the provider's token endpoint from the browser with the
+ *   PKCE verifier. Works for public clients whose token endpoint allows CORS.
+ * - **Backend proxy** (`VITE_OAUTH_TOKEN_PROXY_URL`): POST the code and verifier
+ *   to your backend, which adds the client secret and calls the token endpoint.
+ *   Required for providers that only issue confidential clients.
+ *
+ * The proxy receives `{ provider, code, codeVerifier, redirectUri }` and must
+ * respond with the provider's token response (at least `{ id_token }`).
+ *
+ * @param provider - Provider the code was issued by
+ * @param config - Validated app configuration
+ * @param params - Authorization code and the PKCE verifier stored at login
+ * @returns Result containing the id_token or an OAuth error
+ */
+export async function exchangeAuthorizationCode(
+    provider: OAuthProviderDefinition,
+    config: Config,
+    params: { code: string; codeVerifier: string }
+): Promise<Result<string, AppError>> {
+    const response = config.oauthTokenProxyUrl
+        ? await httpClient.post<unknown>(config.oauthTokenProxyUrl, {
+            provider: provider.id,
+            code: params.code,
+            codeVerifier: params.codeVerifier,
+            redirectUri: config.redirectUrl,
+        })
+        : await postToTokenEndpoint(provider, config, params);
+
+    if (isErr(response)) {
+        return err(createAppError('OAuth', `Failed to exchange authorization code with ${provider.name}`, {
+            cause: response.error,
+            details: { provider: provider.id, viaProxy: !!config.oauthTokenProxyUrl }
+        }));
+    }
+
+    const parsed = tokenResponseSchema.safeParse(response.data);
+    if (!parsed.success) {
+        return err(createAppError('OAuth', `${provider.name} token response did not include an id_token`, {
+            cause: parsed.error,
+            details: { provider: provider.id }
+        }));
+    }
+
+    return ok(parsed.data.id_token);
+}
+
+async function postToTokenEndpoint(
+    provider: OAuthProviderDefinition,
+    config: Config,
+    params: { code: string; codeVerifier: string }
+): Promise<Result<unknown, AppError>> {
+    const clientId = getProviderClientId(provider, config);
+    if (!provider.tokenUrl || !clientId) {
+        return err(createAppError('OAuth', `${provider.name} has no token endpoint configured`, {
+            details: {
+                provider: provider.id,
+                suggestion: 'Set VITE_OAUTH_TOKEN_PROXY_URL to exchange codes through your backend'
+            }
+        }));
+    }
+
+    return http<unknown>(provider.tokenUrl, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+        body: new URLSearchParams({
+            grant_type: 'authorization_code',
+            code: params.code,
+            redirect_uri: config.redirectUrl,
+            client_id: clientId,
+            code_verifier: params.codeVerifier,
+        }),
+    });
+}
@@ -1,26 +1,98 @@
 import { Ed25519Keypair } from '@mysten/sui/keypairs/ed25519';
 import {
-    jwtToAddress,
+    computeZkLoginAddress,
     genAddressSeed,
-    getZkLoginSignature,
-    getExtendedEphemeralPublicKey,
     generateNonce,
     generateRandomness
 } from '@mysten/sui/zklogin';
 import { jwtDecode } from 'jwt-decode';
 import type {
     JwtPayload,
-    GoogleJwtPayload,
+    LoginProgressStep,
+    MessageVerifier,
+    OAuthProviderDefinition,
+    OAuthProviderId,
+    ProverService,
+    RestoredBackup,
     SaltService,
+    SessionBackup,
+    SessionPolicy,
+    SiwsToken,
+    StoredAccount,
+    VerifiedMessage,
+    ZkProof,
     ZkSession
 } from '@/features/auth/types';
 import { Result, ok, err, isErr } from '@/shared/lib';
 import { createAppError, type AppError } from '@/shared/lib';
-import { httpClient } from '@/shared/lib';
-import { getConfig, type Config } from '@/config';
-import { client as sharedClient } from '@/shared/lib';
-import { sessionCookieStorage } from '@/shared/utils';
+import { getConfig, type Config, type LoginMode, type SuiNetwork } from '@/config';
+import { getActiveNetwork, getSuiClient, secureStorage, type SuiNetworkDefinition } from '@/shared/lib';
+import { sessionCookieStorage, type SecureStorage } from '@/shared/utils';
 import { createSaltService } from './saltService';
+import { createProverService } from './proverService';
+import { createProofCache, type ProofCache } from './proofCache';
+import { createEpochClock, estimateEpochEndMs, type EpochClock } from './epochClock';
+import { createZkLoginSigner } from './zkLoginSigner';
+import { createMessageVerifier } from './messageVerifier';
+import { createSiwsClient, type SiwsClient } from './siwsClient';
+import { resolveSessionPolicy } from './sessionPolicy';
+import { createOidcDiscoveryService, type OidcDiscoveryService } from './oidcDiscovery';
+import { createJwtVerifier, type JwtVerifier } from './jwtVerifier';
+import { computeCodeChallenge, generateCodeVerifier } from './pkce';
+import { exchangeAuthorizationCode } from './tokenExchange';
+import { clearOAuthState, createOAuthState } from './oauthState';
+import { decryptSessionBackup, encryptSessionBackup } from './sessionBackup';
+import {
+    buildAuthorizationUrl,
+    getOAuthProvider,
+    getOidcIssuerConfig,
+    getProviderClientId,
+    getProviderFlow,
+    isOAuthProviderId,
+    isOidcProviderId
+} from './oauthProviders';
+
+// Secure storage items making up a signing session (ephemeral key, JWT and the matching proof)
+const SESSION_KEYS = [
+    "zk_ephemeral_keypair",
+    "zk_max_epoch",
+    "zk_jwt_randomness",
+    "zk_session_policy",
+    "zk_oauth_provider",
+    "zk_jwt_token",
+    "zk_proof_data",
+    "zk_user_address",
+] as const;
+
+// Everything belonging to one account: its signing session and its salt
+const ACCOUNT_KEYS = [...SESSION_KEYS, "zk_user_salt"] as const;
+
+// Ephemeral data of a login started by initiateLogin, one item per key
+// (zk_pending_<key>); completeLogin makes it the current session
+const PENDING_PREFIX = "zk_pending_";
+const PENDING_KEYS = [
+    "zk_ephemeral_keypair",
+    "zk_max_epoch",
+    "zk_jwt_randomness",
+    "zk_session_policy",
+    "zk_oauth_provider",
+] as const;
+
+// Kind of the pending login: 'renewal' (same identity required) or 'newAccount'
+// (starts without the current salt); missing for a plain login
+const PENDING_MODE_KEY = `${PENDING_PREFIX}mode`;
+
+// Accounts signed in on this browser (JSON array of StoredAccount) and their
+// copies of ACCOUNT_KEYS, one item per key (zk_account_<address>_<key>)
+const ACCOUNTS_KEY = "zk_accounts";
+const ACCOUNT_PREFIX = "zk_account_";
+
+// Demo salt of each identity signed in before (zk_identity_salt_<hash of iss, aud
+// and key claim>), shared by all networks so an identity keeps its address on each
+const IDENTITY_SALT_PREFIX = "zk_identity_salt_";
+
+// Secrets that earlier versions kept in session cookies
+const LEGACY_COOKIE_KEYS = [...SESSION_KEYS, "zk_pkce_verifier", "zk_user_salt", "zklogin-storage"] as const;
 
 /**
  * ZkLogin Service - Core Business Logic Handler
@@ -29,15 +101,22 @@ import { createSaltService } from './saltService';
  * It provides a clean, testable API that separates concerns from UI and state management.
  * 
  * 🎯 RESPONSIBILITIES:
- * - OAuth flow management (Google authentication)
+ * - OAuth flow management (any provider in the OAuth provider registry)
+ * - Implicit (id_token) and authorization code + PKCE flows
  * - Cryptographic operations (keypairs, nonces, signatures)
- * - API communication with ZK prover service
+ * - ZK proof generation via the configured prover service
  * - Salt management via dependency injection
+ * - Ephemeral secrets kept in secure storage (IndexedDB + WebCrypto by default)
  * - Session creation for transaction signing
+ * - Multiple accounts per browser, each with its own key, JWT, proof and salt
+ * - Sessions and accounts scoped to the active Sui network (per-network prover)
+ * - Passphrase-encrypted account backups (salt, identity, optional session)
  * - Error handling with structured results
  * 
  * 🏗️ ARCHITECTURE:
- * - Uses dependency injection for salt service
+ * - Uses dependency injection for salt and prover services
+ * - Resolves generic OIDC issuers through their discovery documents
+ * - Verifies id_tokens locally (JWKS) before calling the salt service or prover
  * - Returns structured results instead of throwing exceptions
  * - Environment-based configuration
  * - Follows single responsibility principle
@@ -52,7 +131,7 @@ import { createSaltService } from './saltService';
  * @example
  * ```typescript
  * const service = new ZkLoginService(config);
- * const result = await service.initiateLogin('/dashboard');
+ * const result = await service.initiateLogin('google', '/dashboard');
  * if (result.success) {
  *   window.location.href = result.redirectUrl;
  * }
@@ -61,6 +140,14 @@ import { createSaltService } from './saltService';
 
 export class ZkLoginService {
     private saltService: SaltService;
+    private proverServices = new Map<SuiNetwork, ProverService>();
+    private proofCache: ProofCache;
+    private epochClock: EpochClock;
+    private oidcDiscovery: OidcDiscoveryService;
+    private jwtVerifier: JwtVerifier;
+    private messageVerifier: MessageVerifier;
+    private siwsClient: SiwsClient | null;
+    private storage: SecureStorage;
     private config: Config;
 
     constructor() {
@@ -69,47 +156,77 @@ export class ZkLoginService {
             throw new Error(`Configuration failed: ${configResult.error.message}`);
         }
         this.config = configResult.data;
+        this.storage = secureStorage;
 
         this.saltService = createSaltService(
+            this.storage,
             this.config.useBackendSaltService,
-            this.config.saltServiceUrl
+            this.config.saltServiceUrl,
+            this.config.saltService
         );
+        this.proofCache = createProofCache();
+        this.epochClock = createEpochClock();
+        this.oidcDiscovery = createOidcDiscoveryService();
+        this.jwtVerifier = createJwtVerifier();
+        this.messageVerifier = createMessageVerifier(this.config);
+        this.siwsClient = this.config.siwsUrl ? createSiwsClient(this.config.siwsUrl) : null;
+        this.removeLegacySessionCookies();
     }
 
     /**
-     * Initiate OAuth Login with Google - ZKLOGIN STEPS 1-5
+     * Initiate OAuth Login - ZKLOGIN STEPS 1-5
      * 
      * This method starts the zkLogin authentication flow by generating ephemeral
-     * cryptographic material and redirecting the user to Google OAuth.
+     * cryptographic material and redirecting the user to the chosen OAuth provider.
      * 
      * 🔐 ZKLOGIN STEPS IMPLEMENTED:
      * 1. Generate ephemeral Ed25519 keypair for transaction signing
-     * 2. Get current Sui epoch and set keypair validity (2 epochs from now)
+     * 2. Get current Sui epoch and set keypair validity (session policy, 2 epochs by default)
      * 3. Generate cryptographically secure randomness for nonce
      * 4. Create nonce linking ephemeral keypair to OAuth request
-     * 5. Build Google OAuth URL with nonce and redirect user
+     * 5. Build the provider's OAuth URL with nonce and redirect user
+     * 
+     * In the authorization code flow a PKCE verifier is generated as well and
+     * stored with the ephemeral data; only its S256 challenge leaves the browser.
      * 
      * 🔒 SECURITY CONSIDERATIONS:
      * - Ephemeral keypair is temporary and tied to session
      * - Nonce prevents replay attacks and links JWT to specific keypair
      * - Randomness ensures nonce uniqueness
-     * - Session data stored in secure cookies (expires on browser close)
+     * - PKCE verifier prevents intercepted authorization codes from being redeemed
+     * - OAuth state is random and session-bound (CSRF), return path never leaves the app
+     * - Session data kept in secure storage, never sent with HTTP requests
      * 
+     * @param providerId - Registered OAuth provider to sign in with
      * @param returnTo - URL to redirect user to after successful authentication
+     * @param options - Optional `prompt` / `loginHint` for the authorize request
+     *   (session renewal uses `prompt=none` and the signed-in account as hint);
+     *   `keepCurrentSession` marks a renewal, which must sign in the identity of
+     *   the current session; `newAccount` signs in another identity with its own salt
      * @returns Promise<LoginResult> - Success with redirect URL or error details
      * 
      * @example
      * ```typescript
-     * const result = await zkLoginService.initiateLogin('/dashboard');
+     * const result = await zkLoginService.initiateLogin('google', '/dashboard');
      * if (result.success) {
-     *   window.location.href = result.redirectUrl; // Redirect to Google
+     *   window.location.href = result.redirectUrl; // Redirect to the provider
      * } else {
      *   console.error('Login failed:', result.error);
      * }
      * ```
      */
-    async initiateLogin(returnTo?: string): Promise<Result<{ redirectUrl: string }, AppError>> {
+    async initiateLogin(
+        providerId: OAuthProviderId,
+        returnTo?: string,
+        options: { prompt?: 'none'; loginHint?: string; keepCurrentSession?: boolean; newAccount?: boolean } = {}
+    ): Promise<Result<{ redirectUrl: string }, AppError>> {
         try {
+            const providerResult = await this.resolveProvider(providerId);
+            if (isErr(providerResult)) {
+                return err(providerResult.error);
+            }
+            const provider = providerResult.data;
+
             // ZKLOGIN STEP 1: Generate ephemeral keypair for transaction signing
             // This is a temporary Ed25519 keypair that will be used to sign transactions
             // It's different from traditional wallets as it's ephemeral and tied to the session
@@ -117,10 +234,13 @@ export class ZkLoginService {
 
             // ZKLOGIN STEP 2: Get current epoch from Sui blockchain
             // The ephemeral keypair has a limited lifespan tied to Sui epochs
-            // We set it to be valid for 2 epochs from now to provide reasonable session time
-            const { epoch } = await sharedClient.getLatestSuiSystemState();
-            const currentEpochAtLogin = Number(epoch);
-            const maxEpoch = currentEpochAtLogin + 2; // Valid for 2 epochs from now
+            // The window comes from the configured session policy (2 epochs by default)
+            const network = getActiveNetwork().id;
+            const systemState = await getSuiClient().getLatestSuiSystemState();
+            const currentEpochAtLogin = Number(systemState.epoch);
+            const sessionPolicy = resolveSessionPolicy(this.config, network, systemState);
+            const maxEpoch = currentEpochAtLogin + sessionPolicy.epochs;
+            void this.proofCache.evictExpired(network, currentEpochAtLogin);
 
             // ZKLOGIN STEP 3: Generate randomness for nonce creation
             // This randomness is used to create a unique nonce that prevents replay attacks
@@ -131,17 +251,51 @@ export class ZkLoginService {
             // This ensures the JWT can only be used with this specific ephemeral keypair
             const nonce = generateNonce(ephemeralKeypair.getPublicKey(), maxEpoch, BigInt(randomness));
 
-            // Store ephemeral session data in session cookies (expires when browser closes)
-            // This ensures the data is available across page refreshes but not persistent
-            sessionCookieStorage.setItem("zk_ephemeral_keypair", ephemeralKeypair.getSecretKey());
-            sessionCookieStorage.setItem("zk_max_epoch", String(maxEpoch));
-            sessionCookieStorage.setItem("zk_jwt_randomness", randomness);
+            // Store ephemeral session data in secure storage (encrypted in IndexedDB by default)
+            // This keeps the data available across page refreshes without sending it with requests.
+            // It is staged next to the current session, which stays as it is until completeLogin
+            // promotes the new one: an abandoned or rejected login changes nothing
+            await this.clearPendingLogin();
+            await this.storage.setItem(`${PENDING_PREFIX}zk_ephemeral_keypair`, ephemeralKeypair.getSecretKey());
+            await this.storage.setItem(`${PENDING_PREFIX}zk_max_epoch`, String(maxEpoch));
+            await this.storage.setItem(`${PENDING_PREFIX}zk_session_policy`, JSON.stringify(sessionPolicy));
+            await this.storage.setItem(`${PENDING_PREFIX}zk_jwt_randomness`, randomness);
+            await this.storage.setItem(`${PENDING_PREFIX}zk_oauth_provider`, provider.id);
+            if (options.newAccount) {
+                await this.storage.setItem(PENDING_MODE_KEY, 'newAccount');
+            } else if (options.keepCurrentSession) {
+                await this.storage.setItem(PENDING_MODE_KEY, 'renewal');
+            }
+
+            // Authorization code flow: the PKCE verifier is kept with the ephemeral data
+            // and only its challenge is sent to the provider
+            const flow = getProviderFlow(provider, this.config);
+            let codeChallenge: string | undefined;
+            if (flow === 'code') {
+                const codeVerifier = generateCodeVerifier();
+                await this.storage.setItem("zk_pkce_verifier", codeVerifier);
+                codeChallenge = await computeCodeChallenge(codeVerifier);
+            } else {
+                await this.storage.removeItem("zk_pkce_verifier");
+            }
 
             // ZKLOGIN STEP 5: Build OAuth URL and redirect
             // The nonce is embedded in the OAuth request to link the JWT to this ephemeral keypair
-            const redirectUrl = this.buildGoogleAuthUrl(nonce, returnTo);
+            // The state is a random single-use value; returnTo stays in the session cookies
+            const state = createOAuthState(returnTo, options.keepCurrentSession && !options.newAccount);
+            const urlResult = buildAuthorizationUrl(provider, this.config, {
+                nonce,
+                state,
+                flow,
+                codeChallenge,
+                prompt: options.prompt,
+                loginHint: options.loginHint,
+            });
+            if (isErr(urlResult)) {
+                return err(urlResult.error);
+            }
 
-            return ok({ redirectUrl });
+            return ok({ redirectUrl: urlResult.data });
         } catch (error) {
             const appError = createAppError('ZkLogin', 'Failed to initiate login process', {
                 cause: error,
@@ -155,28 +309,30 @@ export class ZkLoginService {
      * Complete OAuth Login Process - ZKLOGIN STEPS 6-9
      * 
      * This method completes the zkLogin authentication flow by processing the JWT
-     * returned from Google OAuth, deriving the user's zkLogin address, and generating
+     * returned from the OAuth provider, deriving the user's zkLogin address, and generating
      * the necessary ZK proof for transaction signing.
      * 
      * 🔐 ZKLOGIN STEPS IMPLEMENTED:
-     * 6. Decode and validate JWT from OAuth provider
+     * 6. Verify JWT from OAuth provider (signature, iss, aud, exp/iat, nonce)
      * 7. Get or create user salt for address derivation (via salt service)
      * 8. Derive zkLogin address from JWT + salt
      * 9. Generate ZK proof from prover service
      * 
      * 🔒 SECURITY CONSIDERATIONS:
+     * - JWT is verified against the provider's JWKS before any network call uses it
      * - JWT contains user identity and nonce for verification
      * - Salt unlinks OAuth identity from blockchain address
      * - ZK proof proves ownership without revealing credentials
-     * - All sensitive data stored in secure session cookies
+     * - All sensitive data kept in secure storage
      * 
      * 🏗️ DEPENDENCIES:
      * - SaltService: For salt management (demo or backend)
-     * - ZK Prover Service: For proof generation
-     * - Session Cookie Storage: For temporary data persistence
+     * - ProverService: For proof generation (Mysten, self-hosted, Enoki or mock)
+     * - Secure Storage: For ephemeral data persistence
      * 
-     * @param idToken - JWT token returned from Google OAuth
+     * @param idToken - JWT token returned from the OAuth provider
      * @param returnTo - URL to redirect user to after completion
+     * @param onProgress - Called when the salt (step 7) and proof (step 9) steps start
      * @returns Promise<CompleteLoginResult> - Success with account/JWT or error details
      * 
      * @example
@@ -190,50 +346,56 @@ export class ZkLoginService {
      * }
      * ```
      */
-    async completeLogin(idToken: string, _returnTo: string): Promise<Result<{ account: { address: string }; decodedJwt: JwtPayload }, AppError>> {
+    async completeLogin(idToken: string, _returnTo: string, onProgress?: (step: LoginProgressStep) => void): Promise<Result<{ account: { address: string }; decodedJwt: JwtPayload }, AppError>> {
         try {
-            // ZKLOGIN STEP 6: Decode and validate JWT from OAuth provider
-            // The JWT contains user identity information and the nonce we generated
-            // This links the OAuth response to our specific ephemeral keypair
-            const decoded = jwtDecode(idToken) as JwtPayload;
-
-            // Store JWT token in session cookies for later use in transaction signing
-            // This token will be used to create zkLogin signatures
-            sessionCookieStorage.setItem("zk_jwt_token", idToken);
-
-            // ZKLOGIN STEP 7: Get or create user salt for address derivation
-            // The salt is crucial for privacy - it unlinks the OAuth identity from the blockchain address
-            // This is handled by the injected salt service (demo or backend)
-            const saltResult = await this.saltService.getOrCreateSalt(idToken);
-
-            if (isErr(saltResult)) {
-                // Return error 
-                const appError = createAppError('SaltService', `Salt service error: ${saltResult.error.message}. Please try again.`, {
-                    cause: saltResult.error,
-                    details: { step: 'completeLogin' }
-                });
-                return err(appError);
+            const providerResult = await this.resolveProvider(await this.getPendingProviderId() ?? 'google');
+            if (isErr(providerResult)) {
+                return err(providerResult.error);
             }
+            const provider = providerResult.data;
 
-            const salt = saltResult.data;
+            // ZKLOGIN STEP 6: Verify JWT from OAuth provider
+            // Signature, issuer, audience, lifetime and nonce are checked locally so tampered
+            // or stale tokens are rejected before they reach the salt service and the prover.
+            // The nonce links the OAuth response to our specific ephemeral keypair
+            const verifyResult = await this.verifyIdToken(idToken, provider);
+            if (isErr(verifyResult)) {
+                return err(verifyResult.error);
+            }
+            const decoded = verifyResult.data;
+            const mode = await this.storage.getItem(PENDING_MODE_KEY);
 
-            // ZKLOGIN STEP 8: Derive zkLogin address from JWT and salt
-            // This creates a unique Sui address that's not linked to the user's OAuth identity
-            // The same JWT + salt combination will always produce the same address
-            const address = jwtToAddress(idToken, salt);
+            // A renewal keeps the address: refuse a token for another identity (any login mode,
+            // including silent renewal); the current session stays as it is
+            const currentJwt = await this.storage.getItem("zk_jwt_token");
+            if (mode === 'renewal' && currentJwt && !isSameIdentity(currentJwt, idToken, provider)) {
+                return err(createAppError('ZkLogin', 'The renewed session signed in with a different account, so the address would change. The previous session was kept.', {
+                    details: { step: 'completeLogin', reason: 'account_changed' }
+                }));
+            }
 
-            // ZKLOGIN STEP 9: Generate or retrieve ZK proof
-            // The ZK proof proves that the user owns the OAuth credential without revealing it
-            // This is required for all zkLogin transactions
-            const proofResult = await this.generateZkProof(idToken, salt);
-            if (isErr(proofResult)) {
-                return err(proofResult.error);
+            // ZKLOGIN STEPS 7-9: salt, address and proof. Only the salt is stored on the way,
+            // so it is put back when they fail and the current session keeps working
+            const previousSalt = await this.restoreSalt();
+            const proveResult = await this.proveLogin(idToken, decoded, provider, mode === 'newAccount', onProgress);
+            if (isErr(proveResult)) {
+                if (previousSalt) {
+                    await this.storage.setItem("zk_user_salt", previousSalt);
+                } else {
+                    await this.storage.removeItem("zk_user_salt");
+                }
+                return err(proveResult.error);
             }
+            const { address, proof } = proveResult.data;
 
-            // Store zkLogin address and ZK proof in session cookies for transaction signing
-            // These will be used later when the user wants to send transactions
-            sessionCookieStorage.setItem("zk_user_address", address);
-            sessionCookieStorage.setItem("zk_proof_data", JSON.stringify(proofResult.data));
+            // The staged login becomes the current session: its ephemeral data, then the
+            // JWT, zkLogin address and ZK proof used later for transaction signing
+            await this.copyItems(PENDING_KEYS, PENDING_PREFIX, "");
+            await this.storage.setItem("zk_jwt_token", idToken);
+            await this.storage.setItem("zk_user_address", address);
+            await this.storage.setItem("zk_proof_data", JSON.stringify(proof));
+            await this.clearPendingLogin();
+            await this.saveAccount(address, provider, decoded);
 
             return ok({
                 account: { address },
@@ -248,6 +410,57 @@ export class ZkLoginService {
         }
     }
 
+    /**
+     * Complete Authorization Code Login - ZKLOGIN STEPS 6-9 (code + PKCE flow)
+     * 
+     * Exchanges the authorization code returned by the provider for an id_token,
+     * using the PKCE verifier stored by `initiateLogin`, then continues with
+     * `completeLogin`. The verifier is single-use and removed once redeemed.
+     * 
+     * @param code - Authorization code from the provider redirect
+     * @param returnTo - URL to redirect user to after completion
+     * @param onProgress - Passed to `completeLogin`
+     * @returns Promise<Result> - Same result as `completeLogin`
+     * 
+     * @example
+     * ```typescript
+     * const result = await zkLoginService.completeLoginWithCode(code, '/dashboard');
+     * if (result.ok) {
+     *   console.log('User address:', result.data.account.address);
+     * }
+     * ```
+     */
+    async completeLoginWithCode(code: string, returnTo: string, onProgress?: (step: LoginProgressStep) => void): Promise<Result<{ account: { address: string }; decodedJwt: JwtPayload }, AppError>> {
+        try {
+            const codeVerifier = await this.storage.getItem("zk_pkce_verifier");
+            if (!codeVerifier) {
+                const appError = createAppError('OAuth', 'Missing PKCE verifier - please start the sign-in again', {
+                    details: { step: 'completeLoginWithCode' }
+                });
+                return err(appError);
+            }
+
+            const providerResult = await this.resolveProvider(await this.getPendingProviderId() ?? 'google');
+            if (isErr(providerResult)) {
+                return err(providerResult.error);
+            }
+
+            const tokenResult = await exchangeAuthorizationCode(providerResult.data, this.config, { code, codeVerifier });
+            await this.storage.removeItem("zk_pkce_verifier");
+            if (isErr(tokenResult)) {
+                return err(tokenResult.error);
+            }
+
+            return this.completeLogin(tokenResult.data, returnTo, onProgress);
+        } catch (error) {
+            const appError = createAppError('ZkLogin', 'Failed to complete authorization code login', {
+                cause: error,
+                details: { step: 'completeLoginWithCode' }
+            });
+            return err(appError);
+        }
+    }
+
     /**
      * Create ZkLogin Session for Transaction Signing - ZKLOGIN STEPS 10-11
      * 
@@ -256,14 +469,14 @@ export class ZkLoginService {
      * and creates a signature function that combines ephemeral signatures with ZK proofs.
      * 
      * 🔐 ZKLOGIN STEPS IMPLEMENTED:
-     * 10. Restore session data from cookies (ephemeral keypair, proof, etc.)
+     * 10. Restore session data from secure storage (ephemeral keypair, proof, etc.)
      * 11. Create signature function for zkLogin transaction signing
      * 
      * 🔒 SECURITY CONSIDERATIONS:
-     * - All session data is restored from secure session cookies
+     * - All session data is restored from secure storage
      * - JWT is validated before creating signature function
      * - Signature function combines ephemeral signature with ZK proof
-     * - Session expires when ephemeral keypair expires (2 epochs)
+     * - Session expires when ephemeral keypair expires (see session policy)
      * - Epoch validation prevents use of expired sessions
      * 
      * 🏗️ SESSION COMPONENTS:
@@ -275,7 +488,9 @@ export class ZkLoginService {
      * - jwtRandomness: Randomness used in JWT nonce
      * - jwtToken: JWT token from OAuth provider
      * - proof: ZK proof data for transaction signing
-     * - getSignature: Function that creates zkLogin signatures
+     * - signer: SDK `Signer` producing complete zkLogin signatures
+     * - getSignature: Function that wraps an ephemeral signature into a zkLogin signature
+     * - signPersonalMessage: zkLogin signature over arbitrary bytes (see `verifyPersonalMessage`)
      * 
      * @returns Promise<Result<ZkSession, AppError>> - Success with session or error details
      * 
@@ -284,25 +499,26 @@ export class ZkLoginService {
      * const result = await zkLoginService.createSession();
      * if (result.ok) {
      *   const session = result.data;
-     *   // Use session for transaction signing
+     *   // Use the session's signer with any SDK API that accepts one
      *   const txb = new Transaction();
-     *   const { bytes, signature } = await txb.sign({ signer: session.ephemeralKeyPair });
-     *   const zkLoginSignature = session.getSignature(signature);
+     *   await client.signAndExecuteTransaction({ transaction: txb, signer: session.signer });
      * }
      * ```
      */
     async createSession(): Promise<Result<ZkSession, AppError>> {
         try {
-            // ZKLOGIN STEP 10: Restore session data from cookies
+            // ZKLOGIN STEP 10: Restore session data from secure storage
             // This handles page refreshes and cross-tab synchronization
             // All ephemeral data should be available from the OAuth flow
-            const ephemeralKeypair = this.restoreEphemeralKeypair();
-            const maxEpoch = this.restoreMaxEpoch();
-            const randomness = this.restoreRandomness();
-            const salt = this.restoreSalt();
-            const proof = this.restoreProof();
-            const jwtToken = sessionCookieStorage.getItem("zk_jwt_token") as string | null;
-            const address = sessionCookieStorage.getItem("zk_user_address") as string | null;
+            const [ephemeralKeypair, maxEpoch, randomness, salt, proof, jwtToken, address] = await Promise.all([
+                this.restoreEphemeralKeypair(),
+                this.restoreMaxEpoch(),
+                this.restoreRandomness(),
+                this.restoreSalt(),
+                this.restoreProof(),
+                this.storage.getItem("zk_jwt_token"),
+                this.storage.getItem("zk_user_address"),
+            ]);
 
             // Validate that all required session data is available
             if (!ephemeralKeypair || !maxEpoch || !randomness || !salt || !proof || !jwtToken || !address) {
@@ -325,11 +541,17 @@ export class ZkLoginService {
 
             // EPOCH VALIDATION: Check if session has expired
             // This prevents the "ZKLogin expired at epoch X, current epoch Y" error
-            const currentEpoch = await this.getCurrentEpoch();
+            // (the epoch clock caches the system state, so this rarely hits the RPC)
+            const snapshot = await this.epochClock.getSnapshot();
+            if (!snapshot.ok) {
+                // Unknown epoch (offline, failing node): keep the session, it may well be valid
+                return err(snapshot.error);
+            }
+            const currentEpoch = snapshot.data.epoch;
             if (currentEpoch > maxEpoch) {
                 // Session has expired - clear session data and return error
-                this.clearSession();
-                const appError = createAppError('ZkLogin', `Session expired: zkLogin expired at epoch ${maxEpoch}, current epoch ${currentEpoch}. Please login again.`, {
+                await this.clearSession();
+                const appError = createAppError('SessionExpired', `Session expired: zkLogin expired at epoch ${maxEpoch}, current epoch ${currentEpoch}. Please login again.`, {
                     details: {
                         step: 'createSession',
                         maxEpoch,
@@ -338,78 +560,42 @@ export class ZkLoginService {
                 });
                 return err(appError);
             }
+            void this.proofCache.evictExpired(getActiveNetwork().id, currentEpoch);
 
-            // ZKLOGIN STEP 11: Create signature function for transaction signing
-            // This function combines the ephemeral signature with the ZK proof to create a zkLogin signature
-            const getSignature = (userSignature: string) => {
-                // Decode JWT to extract required fields for address seed generation
-                const decodedJwt = jwtDecode(jwtToken) as GoogleJwtPayload;
-
-                // Validate required JWT fields
-                if (!decodedJwt.sub || !decodedJwt.aud) {
-                    throw new Error("Invalid JWT: missing required fields (sub, aud)");
-                }
-
-                // Handle aud field which can be string or string array
-                const audValue = Array.isArray(decodedJwt.aud) ? decodedJwt.aud[0] : decodedJwt.aud;
-                const saltBigInt = BigInt(salt);
-
-                // Generate address seed for zkLogin signature
-                // This ensures the signature is tied to the specific user and salt
-                const addressSeed = genAddressSeed(
-                    saltBigInt,
-                    "sub",
-                    decodedJwt.sub,
-                    audValue
-                ).toString();
-
-                // Create the final zkLogin signature combining ephemeral signature and ZK proof
-                const zkLoginSignature = getZkLoginSignature({
-                    inputs: {
-                        ...(proof as {
-                            proofPoints: {
-                                a: Iterable<string> & { length: number };
-                                b: Iterable<Iterable<string> & { length: number }> & { length: number };
-                                c: Iterable<string> & { length: number };
-                            };
-                            issBase64Details: {
-                                value: string;
-                                indexMod4: number;
-                            };
-                            headerBase64: string;
-                        }),
-                        addressSeed,
-                    },
-                    maxEpoch,
-                    userSignature,
-                });
+            const providerResult = await this.resolveProvider(await this.getCurrentProviderId() ?? 'google');
+            if (isErr(providerResult)) {
+                return err(providerResult.error);
+            }
+            const provider = providerResult.data;
 
-                return zkLoginSignature;
-            };
+            // ZKLOGIN STEP 11: Create the signer for transaction signing
+            // The address seed ties the signature to the provider's key claim, the audience and the salt
+            const { addressSeed, iss } = deriveZkLoginIdentity(jwtToken, salt, provider);
 
-            // Create signTransaction method for easy transaction signing
-            const signTransaction = async (transaction: import('@mysten/sui/transactions').Transaction, client: import('@mysten/sui/client').SuiClient) => {
-                const { bytes, signature: userSignature } = await transaction.sign({
-                    client,
-                    signer: ephemeralKeypair,
-                });
-                return {
-                    bytes: bytes as unknown as Uint8Array,
-                    signature: userSignature
-                };
-            };
+            // The signer combines ephemeral signatures with the ZK proof into zkLogin signatures
+            const signer = createZkLoginSigner({
+                ephemeralKeyPair: ephemeralKeypair,
+                proof,
+                addressSeed,
+                maxEpoch,
+                iss,
+                address,
+            });
 
             return ok({
                 address,
                 userAddress: address, // Alias for userAddress
                 maxEpoch,
                 currentEpoch,
+                expiresAtMs: estimateEpochEndMs(snapshot.data, maxEpoch),
+                sessionPolicy: await this.restoreSessionPolicy(),
                 ephemeralKeyPair: ephemeralKeypair, // Correct property name
                 jwtRandomness: randomness.toString(),
                 jwtToken,
                 proof: JSON.stringify(proof),
-                getSignature,
-                signTransaction
+                signer,
+                getSignature: (userSignature: string) => signer.getZkLoginSignature(userSignature),
+                signPersonalMessage: (message: Uint8Array) => signer.signPersonalMessage(message)
             });
         } catch (error) {
             const appError = createAppError('ZkLogin', 'Failed to create session', {
@@ -423,77 +609,502 @@ export class ZkLoginService {
     /**
      * Clear all session data
      */
-    clearSession(): void {
-        // Clear all zkLogin session cookies
-        sessionCookieStorage.removeItem("zk_ephemeral_keypair");
-        sessionCookieStorage.removeItem("zk_max_epoch");
-        sessionCookieStorage.removeItem("zk_jwt_randomness");
-        sessionCookieStorage.removeItem("zk_proof_data");
-        sessionCookieStorage.removeItem("zk_jwt_token");
-        sessionCookieStorage.removeItem("zk_user_address");
+    async clearSession(): Promise<void> {
+        // Clear all zkLogin session data
+        for (const key of SESSION_KEYS) {
+            await this.storage.removeItem(key);
+        }
+        await this.clearPendingLogin();
+        clearOAuthState();
+    }
+
+    /**
+     * Discard a login that did not complete
+     * 
+     * Used when a login is cancelled, refused by the provider (e.g. a silent
+     * `prompt=none` renewal), rejected or fails: its staged ephemeral data,
+     * PKCE verifier and OAuth state are dropped. The current session was never
+     * replaced, so it keeps working until its maxEpoch.
+     */
+    async discardPendingLogin(): Promise<void> {
+        await this.clearPendingLogin();
+        clearOAuthState();
+    }
+
+    /**
+     * List the accounts signed in on this browser, most recently used first
+     */
+    async listAccounts(): Promise<StoredAccount[]> {
+        const accounts = await this.storage.getItem(ACCOUNTS_KEY);
+        if (!accounts) {
+            return [];
+        }
+        try {
+            return (JSON.parse(accounts) as StoredAccount[]).sort((a, b) => b.lastUsedAt - a.lastUsedAt);
+        } catch {
+            return [];
+        }
+    }
+
+    /**
+     * Make a stored account the active one
+     * 
+     * The active account's data is saved to its own copy first, then the
+     * target's key, JWT, proof and salt become the current session. No
+     * provider round-trip is needed while the target's session is valid.
+     * 
+     * @param address - Address of a stored account
+     * @returns Result with the account and its decoded JWT
+     */
+    async switchAccount(address: string): Promise<Result<{ account: StoredAccount; decodedJwt: JwtPayload; salt: string | null }, AppError>> {
+        try {
+            const accounts = await this.listAccounts();
+            const target = accounts.find((account) => account.address === address);
+            if (!target) {
+                return err(createAppError('ZkLogin', 'This account is not signed in on this browser', {
+                    details: { step: 'switchAccount', address }
+                }));
+            }
+
+            // Keep the current account's latest data (e.g. after a renewal)
+            const currentAddress = await this.storage.getItem("zk_user_address");
+            if (currentAddress && accounts.some((account) => account.address === currentAddress)) {
+                await this.copyAccountItems("", this.accountPrefix(currentAddress));
+            }
+
+            await this.clearPendingLogin();
+            clearOAuthState();
+            await this.copyAccountItems(this.accountPrefix(address), "");
+
+            const jwtToken = await this.storage.getItem("zk_jwt_token");
+            if (!jwtToken) {
+                return err(createAppError('ZkLogin', 'Stored account data is incomplete - please sign in again', {
+                    details: { step: 'switchAccount', address }
+                }));
+            }
+
+            const account = { ...target, lastUsedAt: Date.now() };
+            await this.storage.setItem(ACCOUNTS_KEY, JSON.stringify([account, ...accounts.filter((stored) => stored.address !== address)]));
+
+            return ok({
+                account,
+                decodedJwt: jwtDecode(jwtToken) as JwtPayload,
+                salt: await this.storage.getItem("zk_user_salt"),
+            });
+        } catch (error) {
+            const appError = createAppError('ZkLogin', 'Failed to switch account', {
+                cause: error,
+                details: { step: 'switchAccount', address }
+            });
+            return err(appError);
+        }
+    }
+
+    /**
+     * Sign out of one account
+     * 
+     * Removes the account's stored data. When it is the active account, its
+     * session and salt are cleared too; switching to another account is up to
+     * the caller.
+     * 
+     * @param address - Address of a stored account
+     * @returns true if the removed account was the active one
+     */
+    async removeAccount(address: string): Promise<boolean> {
+        for (const key of ACCOUNT_KEYS) {
+            await this.storage.removeItem(`${this.accountPrefix(address)}${key}`);
+        }
+        const accounts = await this.listAccounts();
+        await this.storage.setItem(ACCOUNTS_KEY, JSON.stringify(accounts.filter((account) => account.address !== address)));
+
+        const isActive = (await this.storage.getItem("zk_user_address")) === address;
+        if (isActive) {
+            await this.clearSession();
+            await this.clearSalt();
+        }
+        return isActive;
+    }
+
+    /**
+     * Read the active account from secure storage
+     * 
+     * Each network keeps its own sessions and accounts (secure storage keys are
+     * scoped to the active network), so after a network switch the store
+     * reloads them with this method.
+     * 
+     * @returns The active account (null when signed out on this network) and the stored accounts
+     */
+    async loadAccountState(): Promise<{
+        account: { address: string } | null;
+        accounts: StoredAccount[];
+        decodedJwt: JwtPayload | null;
+        salt: string | null;
+        provider: OAuthProviderId | null;
+    }> {
+        const address = await this.storage.getItem("zk_user_address");
+        const jwtToken = await this.storage.getItem("zk_jwt_token");
+        const isSignedIn = !!address && !!jwtToken;
+
+        return {
+            account: isSignedIn ? { address } : null,
+            accounts: await this.listAccounts(),
+            decodedJwt: isSignedIn ? jwtDecode(jwtToken) as JwtPayload : null,
+            salt: isSignedIn ? await this.storage.getItem("zk_user_salt") : null,
+            provider: isSignedIn ? await this.getCurrentProviderId() : null,
+        };
+    }
+
+    /**
+     * Verify a personal message signature (zkLogin or key signature)
+     *
+     * Uses the network verifier (RPC, checks the zkLogin proof), or the local
+     * stand-in with the mock prover, whose proofs the network rejects.
+     *
+     * @param message - Signed message bytes
+     * @param signature - Serialized signature (base64)
+     * @param address - Expected signer; checked against the signature when given
+     * @returns Result with the signer's address, or a Validation error when invalid
+     */
+    async verifyPersonalMessage(message: Uint8Array, signature: string, address?: string): Promise<Result<VerifiedMessage, AppError>> {
+        return this.messageVerifier.verifyPersonalMessage(message, signature, address);
+    }
+
+    /**
+     * Exchange a session for an API token with the Sign-In with Sui backend
+     *
+     * @param session - Active zkLogin session (signs the server's challenge)
+     * @returns Result with the API token; a Validation error when `VITE_SIWS_URL` is not set
+     */
+    async signInWithSui(session: ZkSession): Promise<Result<SiwsToken, AppError>> {
+        if (!this.siwsClient) {
+            return err(createAppError('Validation', 'Sign-In with Sui is not configured (VITE_SIWS_URL)', {
+                details: { step: 'signInWithSui' }
+            }));
+        }
+        return this.siwsClient.signIn(session, getActiveNetwork().id);
+    }
+
+    /**
+     * Export the active account as a passphrase-encrypted backup
+     *
+     * The backup holds the salt with the identity it belongs to and the derived
+     * address. With `includeSession`, the ephemeral key, JWT and proof are added
+     * too: whoever has the file and the passphrase can sign until maxEpoch.
+     *
+     * @param passphrase - Passphrase the file is encrypted with
+     * @param includeSession - Add the current signing session
+     * @returns Result with the backup file contents (JSON)
+     */
+    async exportBackup(passphrase: string, includeSession: boolean): Promise<Result<string, AppError>> {
+        try {
+            const address = await this.storage.getItem("zk_user_address");
+            const jwtToken = await this.storage.getItem("zk_jwt_token");
+            const salt = await this.restoreSalt();
+            const provider = await this.getCurrentProviderId();
+            if (!address || !jwtToken || !salt || !provider) {
+                return err(createAppError('ZkLogin', 'Sign in before exporting a backup', {
+                    details: { step: 'exportBackup' }
+                }));
+            }
+
+            const providerResult = await this.resolveProvider(provider);
+            if (isErr(providerResult)) {
+                return err(providerResult.error);
+            }
+            const decoded = jwtDecode(jwtToken) as JwtPayload;
+            const subject = getSubject(decoded, providerResult.data);
+            if (!decoded.iss || !subject) {
+                return err(createAppError('ZkLogin', 'The sign-in token lacks the claims identifying the account', {
+                    details: { step: 'exportBackup' }
+                }));
+            }
+            const backup: SessionBackup = {
+                version: 1,
+                createdAt: Date.now(),
+                network: getActiveNetwork().id,
+                address,
+                salt,
+                provider,
+                iss: decoded.iss,
+                sub: subject,
+                aud: getAudience(decoded),
+            };
+
+            if (includeSession) {
+                const ephemeralKeypair = await this.storage.getItem("zk_ephemeral_keypair");
+                const maxEpoch = await this.restoreMaxEpoch();
+                const randomness = await this.storage.getItem("zk_jwt_randomness");
+                const proof = await this.storage.getItem("zk_proof_data");
+                if (!ephemeralKeypair || !maxEpoch || !randomness || !proof) {
+                    return err(createAppError('ZkLogin', 'There is no signing session to include - please sign in again', {
+                        details: { step: 'exportBackup' }
+                    }));
+                }
+                backup.session = {
+                    ephemeralKeypair,
+                    maxEpoch,
+                    randomness,
+                    jwt: jwtToken,
+                    proof,
+                    sessionPolicy: await this.storage.getItem("zk_session_policy"),
+                };
+            }
+
+            return encryptSessionBackup(backup, passphrase);
+        } catch (error) {
+            const appError = createAppError('ZkLogin', 'Failed to export backup', {
+                cause: error,
+                details: { step: 'exportBackup' }
+            });
+            return err(appError);
+        }
+    }
+
+    /**
+     * Restore the salt (and optionally the session) from a backup
+     *
+     * The user signs in with the backed-up identity first: the backup is only
+     * accepted when its issuer and key claim match the current JWT and the
+     * backed-up salt derives the backed-up address. The current account stays
+     * in the account list.
+     *
+     * A backed-up session is used when it was created on the active network and
+     * has not expired. Otherwise the current sign-in is proved again with the
+     * restored salt; if that fails (e.g. the JWT expired) the session is cleared
+     * and the next sign-in picks up the restored salt.
+     *
+     * Only for the demo salt service: the backend service derives the salt itself.
+     *
+     * @param contents - Backup file contents
+     * @param passphrase - Passphrase chosen at export
+     * @returns Result with the restored address and whether it is signed in
+     */
+    async importBackup(contents: string, passphrase: string): Promise<Result<RestoredBackup, AppError>> {
+        if (this.config.useBackendSaltService) {
+            return err(createAppError('SaltService', 'Backups restore demo salts; the backend salt service returns your salt on every device', {
+                details: { step: 'importBackup' }
+            }));
+        }
+
+        const backupResult = await decryptSessionBackup(contents, passphrase);
+        if (isErr(backupResult)) {
+            return err(backupResult.error);
+        }
+        const backup = backupResult.data;
+
+        try {
+            const jwtToken = await this.storage.getItem("zk_jwt_token");
+            if (!jwtToken) {
+                return err(createAppError('ZkLogin', 'Sign in with the account of the backup first', {
+                    details: { step: 'importBackup' }
+                }));
+            }
+
+            const providerResult = await this.resolveProvider(backup.provider);
+            if (isErr(providerResult)) {
+                return err(providerResult.error);
+            }
+            const provider = providerResult.data;
+
+            const decoded = jwtDecode(jwtToken) as JwtPayload;
+            if (decoded.iss !== backup.iss || getSubject(decoded, provider) !== backup.sub) {
+                return err(createAppError('Validation', 'This backup belongs to another account - sign in with that account first', {
+                    details: { step: 'importBackup', reason: 'identity_mismatch', issuer: backup.iss }
+                }));
+            }
+
+            // The audience (OAuth client ID) is part of the address as well
+            if (deriveZkLoginIdentity(jwtToken, backup.salt, provider).address !== backup.address) {
+                return err(createAppError('Validation', 'The backup salt does not derive the backed-up address for this sign-in', {
+                    details: { step: 'importBackup', reason: 'address_mismatch', address: backup.address }
+                }));
+            }
+
+            // Keep the current account's latest data
+            const currentAddress = await this.storage.getItem("zk_user_address");
+            const accounts = await this.listAccounts();
+            if (currentAddress && accounts.some((account) => account.address === currentAddress)) {
+                await this.copyAccountItems("", this.accountPrefix(currentAddress));
+            }
+
+            // Also as the identity's salt: completeLogin (below) and later sign-ins on any
+            // network look it up there before the salt of a stored account
+            await this.storage.setItem("zk_user_salt", backup.salt);
+            const saltKey = await identitySaltKey(decoded, provider);
+            if (saltKey) {
+                await this.storage.setItem(saltKey, backup.salt);
+            }
+            const restored = { address: backup.address, provider: backup.provider };
+
+            const session = backup.session;
+            const isSessionUsable = !!session
+                && backup.network === getActiveNetwork().id
+                && session.maxEpoch >= await this.getCurrentEpoch()
+                && deriveZkLoginIdentity(session.jwt, backup.salt, provider).address === backup.address;
+            if (session && isSessionUsable) {
+                await this.clearPendingLogin();
+                clearOAuthState();
+                await this.storage.setItem("zk_ephemeral_keypair", session.ephemeralKeypair);
+                await this.storage.setItem("zk_max_epoch", String(session.maxEpoch));
+                await this.storage.setItem("zk_jwt_randomness", session.randomness);
+                if (session.sessionPolicy) {
+                    await this.storage.setItem("zk_session_policy", session.sessionPolicy);
+                } else {
+                    await this.storage.removeItem("zk_session_policy");
+                }
+                await this.storage.setItem("zk_oauth_provider", backup.provider);
+                await this.storage.setItem("zk_jwt_token", session.jwt);
+                await this.storage.setItem("zk_proof_data", session.proof);
+                await this.storage.setItem("zk_user_address", backup.address);
+                await this.saveAccount(backup.address, provider, jwtDecode(session.jwt) as JwtPayload);
+                return ok({ ...restored, signedIn: true });
+            }
+
+            // Prove the current sign-in again, the salt service now returns the restored salt
+            // (its ephemeral data is staged as the login to complete)
+            await this.clearPendingLogin();
+            await this.copyItems(PENDING_KEYS, "", PENDING_PREFIX);
+            const loginResult = await this.completeLogin(jwtToken, '');
+            if (loginResult.ok && loginResult.data.account.address === backup.address) {
+                return ok({ ...restored, signedIn: true });
+            }
+
+            await this.clearSession();
+            return ok({ ...restored, signedIn: false });
+        } catch (error) {
+            const appError = createAppError('ZkLogin', 'Failed to import backup', {
+                cause: error,
+                details: { step: 'importBackup' }
+            });
+            return err(appError);
+        }
+    }
+
+    /**
+     * Get the OAuth provider used for the current login
+     */
+    async getCurrentProviderId(): Promise<OAuthProviderId | null> {
+        const providerId = await this.storage.getItem("zk_oauth_provider");
+        return isOAuthProviderId(providerId) ? providerId : null;
+    }
+
+    /**
+     * Get the configured default login mode (redirect or popup)
+     */
+    getLoginMode(): LoginMode {
+        return this.config.loginMode;
     }
 
     /**
      * Clear user salt (generates new address)
+     * 
+     * Also forgets the salt kept for the signed-in identity, so the next
+     * sign-in gets a new address on every network.
      */
-    clearSalt(): void {
-        this.saltService.clearSalt();
+    async clearSalt(): Promise<void> {
+        const jwtToken = await this.storage.getItem("zk_jwt_token");
+        const providerId = await this.getCurrentProviderId();
+        if (jwtToken && providerId) {
+            const providerResult = await this.resolveProvider(providerId);
+            const key = providerResult.ok ? await identitySaltKey(jwtDecode(jwtToken) as JwtPayload, providerResult.data) : null;
+            if (key) {
+                await this.storage.removeItem(key);
+            }
+        }
+        await this.saltService.clearSalt();
     }
 
     /**
-     * Clear all zkLogin data (session + salt)
-     * This clears the core zkLogin data but not Zustand persistence
+     * Clear all zkLogin data (session + salt + stored accounts + cached proofs)
+     * This clears the core zkLogin data of the active network but not Zustand persistence;
+     * the salts kept per identity stay, other networks' accounts use them too
      */
-    clearAll(): void {
-        // Clear session cookies
-        this.clearSession();
+    async clearAll(): Promise<void> {
+        // Clear session data
+        await this.clearSession();
+
+        // Clear salt
+        await this.saltService.clearSalt();
 
-        // Clear salt (session cookie only)
-        this.clearSalt();
+        // Clear every stored account
+        for (const account of await this.listAccounts()) {
+            for (const key of ACCOUNT_KEYS) {
+                await this.storage.removeItem(`${this.accountPrefix(account.address)}${key}`);
+            }
+        }
+        await this.storage.removeItem(ACCOUNTS_KEY);
+
+        // Clear this network's cached proofs (IndexedDB, cleared in the background)
+        void this.proofCache.clear(getActiveNetwork().id);
     }
 
     // Private helper methods
 
+    /**
+     * Prover for a network (created on first use, the prover URL differs per network)
+     */
+    private getProverService(network: SuiNetworkDefinition): ProverService {
+        let proverService = this.proverServices.get(network.id);
+        if (!proverService) {
+            proverService = createProverService(this.config, network);
+            this.proverServices.set(network.id, proverService);
+        }
+        return proverService;
+    }
+
     /**
      * Get Current Sui Epoch
      * 
-     * Fetches the current epoch from the Sui blockchain.
-     * This is used to validate if a zkLogin session has expired.
+     * Reads the current epoch of the active network from the epoch clock
+     * (cached system state). This is used to validate if a zkLogin session has expired.
      * 
      * @returns Promise<number> - Current Sui epoch
      */
     private async getCurrentEpoch(): Promise<number> {
-        try {
-            const { epoch } = await sharedClient.getLatestSuiSystemState();
-            const currentEpoch = Number(epoch);
-            return currentEpoch;
-        } catch {
-            // Return a high epoch number to force session expiration if we can't fetch current epoch
-            return Number.MAX_SAFE_INTEGER;
-        }
+        const snapshot = await this.epochClock.getSnapshot();
+        // Unknown epoch: treat sessions as unusable (callers only skip them, nothing is deleted)
+        return snapshot.ok ? snapshot.data.epoch : Number.MAX_SAFE_INTEGER;
     }
 
-    private buildGoogleAuthUrl(nonce: string, returnTo?: string): string {
-        const state = encodeURIComponent(returnTo || "/");
-        const params = new URLSearchParams({
-            client_id: this.config.googleClientId,
-            redirect_uri: this.config.redirectUrl,
-            response_type: "id_token",
-            scope: "openid email",
-            nonce: nonce,
-            state: state,
-            prompt: "select_account",
+    /**
+     * Verify an id_token against the provider and the pending login attempt
+     * 
+     * The expected nonce is recomputed from the ephemeral data staged by
+     * `initiateLogin`, so only tokens requested for this keypair are accepted.
+     */
+    private async verifyIdToken(idToken: string, provider: OAuthProviderDefinition): Promise<Result<JwtPayload, AppError>> {
+        const ephemeralKeypair = await this.restoreEphemeralKeypair(PENDING_PREFIX);
+        const maxEpoch = await this.restoreMaxEpoch(PENDING_PREFIX);
+        const randomness = await this.restoreRandomness(PENDING_PREFIX);
+        if (!ephemeralKeypair || !maxEpoch || !randomness) {
+            const appError = createAppError('ZkLogin', 'Missing ephemeral session data - please start the sign-in again', {
+                details: { step: 'verifyIdToken' }
+            });
+            return err(appError);
+        }
+
+        const audience = getProviderClientId(provider, this.config);
+        if (!audience) {
+            const appError = createAppError('OAuth', `${provider.name} sign-in is not configured`, {
+                details: { step: 'verifyIdToken', provider: provider.id }
+            });
+            return err(appError);
+        }
+
+        return this.jwtVerifier.verify(idToken, {
+            issuer: provider.issuer,
+            audience,
+            jwksUri: provider.jwksUri,
+            nonce: generateNonce(ephemeralKeypair.getPublicKey(), maxEpoch, randomness),
         });
-        return `https://accounts.google.com/o/oauth2/v2/auth?${params.toString()}`;
     }
 
-
-    private async generateZkProof(idToken: string, salt: string): Promise<Result<unknown, AppError>> {
+    private async generateZkProof(idToken: string, salt: string, provider: OAuthProviderDefinition): Promise<Result<ZkProof, AppError>> {
         try {
-            // Restore ephemeral data
-            const ephemeralKeypair = this.restoreEphemeralKeypair();
-            const maxEpoch = this.restoreMaxEpoch();
-            const randomness = this.restoreRandomness();
+            // Restore the pending login's ephemeral data
+            const ephemeralKeypair = await this.restoreEphemeralKeypair(PENDING_PREFIX);
+            const maxEpoch = await this.restoreMaxEpoch(PENDING_PREFIX);
+            const randomness = await this.restoreRandomness(PENDING_PREFIX);
 
             if (!ephemeralKeypair || !maxEpoch || !randomness) {
                 const appError = createAppError('ZkLogin', 'Missing ephemeral session data', {
@@ -502,76 +1113,329 @@ export class ZkLoginService {
                 return err(appError);
             }
 
-            const extended = getExtendedEphemeralPublicKey(ephemeralKeypair.getPublicKey());
-            const nonce = generateNonce(ephemeralKeypair.getPublicKey(), maxEpoch, randomness);
+            // The JWT nonce was already checked against the ephemeral key in verifyIdToken
+            const request = {
+                jwt: idToken,
+                ephemeralPublicKey: ephemeralKeypair.getPublicKey(),
+                maxEpoch,
+                randomness: randomness.toString(),
+                salt,
+                keyClaimName: provider.claims.subject,
+            };
 
-            // Verify JWT nonce matches our expected nonce
-            const decoded = jwtDecode(idToken) as JwtPayload;
-            const jwtNonce = decoded.nonce;
+            // Reuse a proof generated earlier for the same inputs
+            const network = getActiveNetwork();
+            const cachedProof = await this.proofCache.get(network.id, request);
+            if (cachedProof) {
+                return ok(cachedProof);
+            }
 
-            if (jwtNonce !== nonce) {
-                const appError = createAppError('ZkLogin', 'JWT nonce does not match expected nonce', {
-                    details: {
-                        step: 'generateZkProof',
-                        jwtNonce,
-                        expectedNonce: nonce
-                    }
-                });
-                return err(appError);
+            const proofResult = await this.getProverService(network).generateProof(request);
+            if (proofResult.ok) {
+                await this.proofCache.set(network.id, request, proofResult.data);
             }
+            return proofResult;
+        } catch (error) {
+            const appError = createAppError('ZkLogin', 'Failed to generate ZK proof', {
+                cause: error,
+                details: { step: 'generateZkProof' }
+            });
+            return err(appError);
+        }
+    }
 
-            const body = {
-                jwt: idToken,
-                extendedEphemeralPublicKey: extended.toString(),
-                maxEpoch: String(maxEpoch),
-                jwtRandomness: randomness.toString(),
-                salt: salt.toString(),
-                keyClaimName: "sub",
-            };
+    private async restoreEphemeralKeypair(prefix = ""): Promise<Ed25519Keypair | null> {
+        const privateKey = await this.storage.getItem(`${prefix}zk_ephemeral_keypair`);
+        return privateKey ? Ed25519Keypair.fromSecretKey(privateKey) : null;
+    }
+
+    private async restoreMaxEpoch(prefix = ""): Promise<number | null> {
+        const epoch = await this.storage.getItem(`${prefix}zk_max_epoch`);
+        return epoch ? Number(epoch) : null;
+    }
+
+    private async getPendingProviderId(): Promise<OAuthProviderId | null> {
+        const providerId = await this.storage.getItem(`${PENDING_PREFIX}zk_oauth_provider`);
+        return isOAuthProviderId(providerId) ? providerId : null;
+    }
 
-            const result = await httpClient.post<unknown>(this.config.proverUrl, body);
+    private async clearPendingLogin(): Promise<void> {
+        for (const key of PENDING_KEYS) {
+            await this.storage.removeItem(`${PENDING_PREFIX}${key}`);
+        }
+        await this.storage.removeItem(PENDING_MODE_KEY);
+        await this.storage.removeItem("zk_pkce_verifier");
+    }
+
+    /**
+     * ZKLOGIN STEPS 7-9 of `completeLogin` for a verified JWT
+     * 
+     * Leaves the salt in `zk_user_salt` (where the salt services keep it) and
+     * returns the address and proof; the caller stores them.
+     */
+    private async proveLogin(
+        idToken: string,
+        decoded: JwtPayload,
+        provider: OAuthProviderDefinition,
+        isNewAccount: boolean,
+        onProgress?: (step: LoginProgressStep) => void
+    ): Promise<Result<{ address: string; proof: ZkProof }, AppError>> {
+        try {
+            // ZKLOGIN STEP 7: Get or create user salt for address derivation
+            // The salt is crucial for privacy - it unlinks the OAuth identity from the blockchain address
+            // This is handled by the injected salt service (demo or backend)
+            onProgress?.('fetchingSalt');
+            // Another account starts without the current account's salt (it stays in its stored copy);
+            // a stored salt is put back when the identity was signed in before
+            if (isNewAccount) {
+                await this.storage.removeItem("zk_user_salt");
+            }
+            await this.restoreAccountSalt(idToken, decoded, provider);
+            const saltResult = await this.saltService.getOrCreateSalt(idToken);
 
-            if (isErr(result)) {
-                const appError = createAppError('ZkLogin', 'Failed to generate ZK proof from prover service', {
-                    cause: result.error,
-                    details: { step: 'generateZkProof', proverUrl: this.config.proverUrl }
+            if (isErr(saltResult)) {
+                // Return error 
+                const appError = createAppError('SaltService', `Salt service error: ${saltResult.error.message}. Please try again.`, {
+                    cause: saltResult.error,
+                    details: { step: 'completeLogin' }
                 });
                 return err(appError);
             }
 
-            return ok(result.data);
+            const salt = saltResult.data;
+
+            // ZKLOGIN STEP 8: Derive zkLogin address from JWT and salt
+            // This creates a unique Sui address that's not linked to the user's OAuth identity
+            // The same JWT + salt combination will always produce the same address
+            const { address } = deriveZkLoginIdentity(idToken, salt, provider);
+
+            // ZKLOGIN STEP 9: Generate or retrieve ZK proof
+            // The ZK proof proves that the user owns the OAuth credential without revealing it
+            // This is required for all zkLogin transactions
+            onProgress?.('proving');
+            const proofResult = await this.generateZkProof(idToken, salt, provider);
+            if (isErr(proofResult)) {
+                return err(proofResult.error);
+            }
+
+            return ok({ address, proof: proofResult.data });
         } catch (error) {
-            const appError = createAppError('ZkLogin', 'Failed to generate ZK proof', {
+            const appError = createAppError('ZkLogin', 'Failed to complete login process', {
                 cause: error,
-                details: { step: 'generateZkProof' }
+                details: { step: 'completeLogin' }
             });
             return err(appError);
         }
     }
 
-    private restoreEphemeralKeypair(): Ed25519Keypair | null {
-        const privateKey = sessionCookieStorage.getItem("zk_ephemeral_keypair");
-        return privateKey ? Ed25519Keypair.fromSecretKey(privateKey as string) : null;
+    /**
+     * Copy an account's items between prefixes ("" is the active session);
+     * items missing at the source are removed at the target
+     */
+    private async copyAccountItems(fromPrefix: string, toPrefix: string): Promise<void> {
+        await this.copyItems(ACCOUNT_KEYS, fromPrefix, toPrefix);
     }
 
-    private restoreMaxEpoch(): number | null {
-        const epoch = sessionCookieStorage.getItem("zk_max_epoch");
-        return epoch ? Number(epoch) : null;
+    private async copyItems(keys: readonly string[], fromPrefix: string, toPrefix: string): Promise<void> {
+        for (const key of keys) {
+            const value = await this.storage.getItem(`${fromPrefix}${key}`);
+            if (value) {
+                await this.storage.setItem(`${toPrefix}${key}`, value);
+            } else {
+                await this.storage.removeItem(`${toPrefix}${key}`);
+            }
+        }
+    }
+
+    private accountPrefix(address: string): string {
+        return `${ACCOUNT_PREFIX}${address}_`;
+    }
+
+    /**
+     * Put the stored salt of an identity signed in before back in place
+     *
+     * "Add account" and a first sign-in on a network start without a salt, so
+     * the demo salt service would mint a new one (and another address) for an
+     * identity signed in before. The salt kept per identity is used first;
+     * accounts stored before it existed are matched by their identity, or by
+     * deriving their address with their salt.
+     */
+    private async restoreAccountSalt(idToken: string, decoded: JwtPayload, provider: OAuthProviderDefinition): Promise<void> {
+        // The backend salt service derives the salt itself
+        if (this.config.useBackendSaltService) {
+            return;
+        }
+
+        const key = await identitySaltKey(decoded, provider);
+        const identitySalt = key ? await this.storage.getItem(key) : null;
+        if (identitySalt) {
+            await this.storage.setItem("zk_user_salt", identitySalt);
+            return;
+        }
+
+        const aud = getAudience(decoded);
+        for (const account of await this.listAccounts()) {
+            const salt = await this.storage.getItem(`${this.accountPrefix(account.address)}zk_user_salt`);
+            if (!salt) {
+                continue;
+            }
+            const isSameIdentity = account.iss !== undefined
+                ? account.iss === decoded.iss && account.sub === getSubject(decoded, provider) && account.aud === aud
+                : deriveZkLoginIdentity(idToken, salt, provider).address === account.address;
+            if (isSameIdentity) {
+                await this.storage.setItem("zk_user_salt", salt);
+                return;
+            }
+        }
+    }
+
+    /**
+     * Store a copy of the active session as an account and mark it most recently used
+     */
+    private async saveAccount(address: string, provider: OAuthProviderDefinition, decodedJwt: JwtPayload): Promise<void> {
+        await this.copyAccountItems("", this.accountPrefix(address));
+
+        // The same identity signs in with this salt on the other networks
+        const salt = await this.restoreSalt();
+        const key = await identitySaltKey(decodedJwt, provider);
+        if (salt && key && !this.config.useBackendSaltService) {
+            await this.storage.setItem(key, salt);
+        }
+
+        const accounts = await this.listAccounts();
+        const existing = accounts.find((account) => account.address === address);
+        const now = Date.now();
+        const account: StoredAccount = {
+            address,
+            provider: provider.id,
+            label: typeof decodedJwt.email === 'string' ? decodedJwt.email : decodedJwt.sub,
+            addedAt: existing?.addedAt ?? now,
+            lastUsedAt: now,
+            iss: decodedJwt.iss,
+            sub: getSubject(decodedJwt, provider),
+            aud: getAudience(decodedJwt),
+        };
+        await this.storage.setItem(ACCOUNTS_KEY, JSON.stringify([account, ...accounts.filter((stored) => stored.address !== address)]));
+    }
+
+    /**
+     * Remove secrets left in session cookies by earlier versions, so they are
+     * no longer sent with every request (the user signs in again once)
+     */
+    private removeLegacySessionCookies(): void {
+        for (const key of LEGACY_COOKIE_KEYS) {
+            if (sessionCookieStorage.getItem(key)) {
+                sessionCookieStorage.removeItem(key);
+            }
+        }
+    }
+
+    private async restoreSessionPolicy(): Promise<SessionPolicy | null> {
+        const policy = await this.storage.getItem("zk_session_policy");
+        if (!policy) {
+            return null;
+        }
+        try {
+            return JSON.parse(policy) as SessionPolicy;
+        } catch {
+            return null;
+        }
+    }
+
+    private async restoreRandomness(prefix = ""): Promise<bigint | null> {
+        const randomness = await this.storage.getItem(`${prefix}zk_jwt_randomness`);
+        return randomness ? BigInt(randomness) : null;
     }
 
-    private restoreRandomness(): bigint | null {
-        const randomness = sessionCookieStorage.getItem("zk_jwt_randomness");
-        return randomness ? BigInt(randomness as string) : null;
+    private async restoreSalt(): Promise<string | null> {
+        return this.storage.getItem("zk_user_salt");
     }
 
-    private restoreSalt(): string | null {
-        return sessionCookieStorage.getItem("zk_user_salt") as string | null;
+    /**
+     * Resolve a provider id to its definition
+     * 
+     * Built-in providers come from the static registry; generic OIDC issuers are
+     * looked up in config and completed from their discovery document.
+     * Sessions created before the provider registry existed were always Google,
+     * which is why callers fall back to 'google'.
+     */
+    private async resolveProvider(providerId: OAuthProviderId): Promise<Result<OAuthProviderDefinition, AppError>> {
+        if (!isOidcProviderId(providerId)) {
+            return getOAuthProvider(providerId);
+        }
+
+        const issuerResult = getOidcIssuerConfig(providerId, this.config);
+        if (isErr(issuerResult)) {
+            return err(issuerResult.error);
+        }
+        return this.oidcDiscovery.resolveProvider(issuerResult.data);
+    }
+
+    private async restoreProof(): Promise<ZkProof | null> {
+        const proof = await this.storage.getItem("zk_proof_data");
+        return proof ? JSON.parse(proof) as ZkProof : null;
+    }
+}
+
+function getAudience(decoded: JwtPayload): string {
+    // `aud` can be an array; zkLogin uses the first audience
+    const aud: unknown = decoded.aud;
+    return Array.isArray(aud) ? String(aud[0]) : String(aud);
+}
+
+// Value of the provider's key claim (`claims.subject`), which identifies the account
+function getSubject(decoded: JwtPayload, provider: OAuthProviderDefinition): string | undefined {
+    const value: unknown = (decoded as Record<string, unknown>)[provider.claims.subject];
+    return typeof value === 'string' ? value : undefined;
+}
+
+// Storage key of an identity's salt: hash of its iss, aud and key claim (no claims in storage)
+async function identitySaltKey(decoded: JwtPayload, provider: OAuthProviderDefinition): Promise<string | null> {
+    const subject = getSubject(decoded, provider);
+    if (!decoded.iss || !subject) {
+        return null;
     }
+    const identity = `${decoded.iss}|${getAudience(decoded)}|${provider.claims.subject}|${subject}`;
+    const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(identity));
+    return IDENTITY_SALT_PREFIX + Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, '0')).join('');
+}
 
-    private restoreProof(): unknown | null {
-        const proof = sessionCookieStorage.getItem("zk_proof_data");
-        return proof ? JSON.parse(proof as string) : null;
+// Same issuer, audience and key claim, so the same address for the same salt
+function isSameIdentity(previousJwt: string, jwt: string, provider: OAuthProviderDefinition): boolean {
+    const previous = jwtDecode<JwtPayload>(previousJwt);
+    const next = jwtDecode<JwtPayload>(jwt);
+    const subject = getSubject(next, provider);
+    return subject !== undefined
+        && previous.iss === next.iss
+        && getAudience(previous) === getAudience(next)
+        && getSubject(previous, provider) === subject;
+}
+
+/**
+ * Derive the zkLogin address and address seed of a JWT
+ *
+ * Uses the provider's key claim (`claims.subject`), the same claim the prover
+ * and the signer use. The SDK's `jwtToAddress` always uses "sub", which gives
+ * another address for providers configured with a different `subjectClaim`.
+ *
+ * @throws Error when the JWT lacks the key claim, `aud` or `iss`
+ */
+function deriveZkLoginIdentity(jwt: string, salt: string, provider: OAuthProviderDefinition): { address: string; addressSeed: string; iss: string } {
+    const decoded = jwtDecode<Record<string, unknown>>(jwt);
+    const claimName = provider.claims.subject;
+    const claimValue = decoded[claimName];
+    const aud = Array.isArray(decoded.aud) ? decoded.aud[0] : decoded.aud;
+    const iss = decoded.iss;
+
+    if (typeof claimValue !== 'string' || typeof aud !== 'string' || typeof iss !== 'string') {
+        throw new Error(`Invalid JWT: missing required fields (${claimName}, aud, iss)`);
     }
+
+    return {
+        address: computeZkLoginAddress({ claimName, claimValue, iss, aud, userSalt: salt }),
+        addressSeed: genAddressSeed(BigInt(salt), claimName, claimValue, aud).toString(),
+        iss,
+    };
 }
 
 // Factory function to create service instance
@@ -0,0 +1,118 @@
+import { toBase64 } from '@mysten/sui/utils';
+import { Signer, type IntentScope, type SignatureWithBytes } from '@mysten/sui/cryptography';
+import type { Ed25519Keypair } from '@mysten/sui/keypairs/ed25519';
+import { getZkLoginSignature, toZkLoginPublicIdentifier, type ZkLoginPublicIdentifier } from '@mysten/sui/zklogin';
+import type { ZkProof } from '@/features/auth/types';
+
+/**
+ * ZkLogin Signer - SDK Signer for zkLogin Sessions
+ *
+ * A `Signer` whose signatures are complete zkLogin signatures: the ephemeral
+ * key signs the intent message and the result is wrapped with the ZK proof,
+ * address seed and maxEpoch. It can be passed anywhere the SDK accepts a
+ * signer (`client.signAndExecuteTransaction`, `transaction.sign`,
+ * `signer.signPersonalMessage`).
+ *
+ * 🔑 IDENTITY:
+ * - Public key: the zkLogin public identifier (issuer + address seed)
+ * - Address: the session's zkLogin address
+ * - Scheme: `ZkLogin`
+ *
+ * The signer is only valid until the session's `maxEpoch`; signatures made
+ * after that are rejected by the network.
+ *
+ * @example
+ * ```typescript
+ * const session = await zkLoginService.createSession();
+ * if (session.ok) {
+ *   const result = await client.signAndExecuteTransaction({
+ *     transaction,
+ *     signer: session.data.signer,
+ *   });
+ * }
+ * ```
+ */
+
+export interface ZkLoginSignerOptions {
+    ephemeralKeyPair: Ed25519Keypair;
+    proof: ZkProof;
+    // Address seed derived from salt, key claim and audience (decimal string)
+    addressSeed: string;
+    maxEpoch: number;
+    // Issuer of the JWT the proof was generated for
+    iss: string;
+    address: string;
+}
+
+export class ZkLoginSigner extends Signer {
+    private readonly ephemeralKeyPair: Ed25519Keypair;
+    private readonly proof: ZkProof;
+    private readonly addressSeed: string;
+    private readonly maxEpoch: number;
+    private readonly address: string;
+    private readonly publicKey: ZkLoginPublicIdentifier;
+
+    constructor(options: ZkLoginSignerOptions) {
+        super();
+        this.ephemeralKeyPair = options.ephemeralKeyPair;
+        this.proof = options.proof;
+        this.addressSeed = options.addressSeed;
+        this.maxEpoch = options.maxEpoch;
+        this.address = options.address;
+        this.publicKey = toZkLoginPublicIdentifier(BigInt(options.addressSeed), options.iss);
+    }
+
+    /**
+     * Sign raw bytes with the ephemeral key
+     *
+     * This is the ephemeral signature only; zkLogin signatures commit to an
+     * intent, so use `signWithIntent` (or `signTransaction` /
+     * `signPersonalMessage`) for anything sent to the network.
+     */
+    async sign(bytes: Uint8Array): Promise<Uint8Array<ArrayBuffer>> {
+        return this.ephemeralKeyPair.sign(bytes);
+    }
+
+    /**
+     * Sign bytes for an intent and wrap the ephemeral signature into a zkLogin signature
+     */
+    async signWithIntent(bytes: Uint8Array, intent: IntentScope): Promise<SignatureWithBytes> {
+        const { signature: userSignature } = await this.ephemeralKeyPair.signWithIntent(bytes, intent);
+        return {
+            bytes: toBase64(bytes),
+            signature: this.getZkLoginSignature(userSignature),
+        };
+    }
+
+    /**
+     * Combine an ephemeral signature (serialized, base64) with the ZK proof
+     */
+    getZkLoginSignature(userSignature: string): string {
+        return getZkLoginSignature({
+            inputs: {
+                ...this.proof,
+                addressSeed: this.addressSeed,
+            },
+            maxEpoch: this.maxEpoch,
+            userSignature,
+        });
+    }
+
+    getKeyScheme(): 'ZkLogin' {
+        return 'ZkLogin';
+    }
+
+    getPublicKey(): ZkLoginPublicIdentifier {
+        return this.publicKey;
+    }
+
+    // The session address is authoritative (it was derived at login)
+    toSuiAddress(): string {
+        return this.address;
+    }
+}
+
+// Factory function to create a signer instance
+export function createZkLoginSigner(options: ZkLoginSignerOptions): ZkLoginSigner {
+    return new ZkLoginSigner(options);
+}
@@ -0,0 +1,67 @@
+import type { AuthState } from '@/features/auth/types';
+
+/**
+ * Auth State Machine - Allowed Steps of the Auth Flow
+ *
+ * The store moves `authState` through these states only; any other
+ * transition is ignored, so a late result (a session check finishing after
+ * logout, a restore finishing during a login) cannot overwrite the current step.
+ *
+ * 🔄 FLOW:
+ *
+ *   unauthenticated → redirecting → awaitingCallback → fetchingSalt → proving → ready
+ *   ready → expiring → expired
+ *
+ * - Any step can fail (`error`) and logout returns to `unauthenticated` from anywhere
+ * - A renewal or added account starts again at `redirecting` from a signed-in state
+ * - A cancelled login goes back to `ready` or `unauthenticated`
+ *
+ * @example
+ * ```typescript
+ * canTransition('proving', 'ready'); // true
+ * canTransition('unauthenticated', 'proving'); // false
+ * AUTH_STATE_LABELS[authState]; // "Generating zero-knowledge proof"
+ * ```
+ */
+
+const AUTH_TRANSITIONS: Record<AuthState, readonly AuthState[]> = {
+    unauthenticated: ['redirecting', 'awaitingCallback', 'ready', 'error'],
+    redirecting: ['awaitingCallback', 'ready', 'unauthenticated', 'error'],
+    awaitingCallback: ['fetchingSalt', 'ready', 'unauthenticated', 'error'],
+    fetchingSalt: ['proving', 'unauthenticated', 'error'],
+    proving: ['ready', 'unauthenticated', 'error'],
+    ready: ['redirecting', 'awaitingCallback', 'expiring', 'expired', 'unauthenticated', 'error'],
+    expiring: ['redirecting', 'awaitingCallback', 'ready', 'expired', 'unauthenticated', 'error'],
+    expired: ['redirecting', 'awaitingCallback', 'ready', 'unauthenticated', 'error'],
+    error: ['redirecting', 'awaitingCallback', 'ready', 'expired', 'unauthenticated'],
+};
+
+// Sessions with this many epochs left (or fewer) are `expiring`
+export const SESSION_EXPIRING_EPOCHS = 1;
+
+// What the UI shows for each state (spinners, status badges)
+export const AUTH_STATE_LABELS: Record<AuthState, string> = {
+    unauthenticated: 'Not signed in',
+    redirecting: 'Redirecting to your sign-in provider',
+    awaitingCallback: 'Verifying your sign-in',
+    fetchingSalt: 'Fetching your salt',
+    proving: 'Generating zero-knowledge proof',
+    ready: 'Signed in',
+    expiring: 'Session expiring soon',
+    expired: 'Session expired',
+    error: 'Sign-in failed',
+};
+
+/**
+ * Whether the store may move from one state to another (staying is always allowed)
+ */
+export function canTransition(from: AuthState, to: AuthState): boolean {
+    return from === to || AUTH_TRANSITIONS[from].includes(to);
+}
+
+/**
+ * Whether a login is under way (between leaving for the provider and `ready`)
+ */
+export function isAuthInProgress(state: AuthState): boolean {
+    return state === 'redirecting' || state === 'awaitingCallback' || state === 'fetchingSalt' || state === 'proving';
+}
@@ -1,2 +1,8 @@
 // Auth store exports
-export { useZkLoginStore } from './zkLoginStore';
+export { useZkLoginStore, startCrossTabSync } from './zkLoginStore';
+export {
+    AUTH_STATE_LABELS,
+    SESSION_EXPIRING_EPOCHS,
+    canTransition,
+    isAuthInProgress,
+} from './authStateMachine';
@@ -1,11 +1,12 @@
 import { create } from 'zustand';
-import { persist, createJSONStorage } from 'zustand/middleware';
-import type { ZkSession, ZkLoginStoreState, JwtPayload } from '@/features/auth/types';
-import { createZkLoginService } from '@/features/auth/services';
-import { sessionCookieStorage } from '@/shared/utils';
-import { isOk } from '@/shared/lib';
+import { persist, createJSONStorage, type StateStorage } from 'zustand/middleware';
+import type { AuthState, ZkSession, ZkLoginStoreState, JwtPayload, OAuthProviderId, LoginOptions, RenewSessionOptions } from '@/features/auth/types';
+import { createZkLoginService, consumeOAuthState, openLoginPopup, waitForPopupCallback, postTabSyncMessage, subscribeTabSync } from '@/features/auth/services';
+import { isOk, err, secureStorage } from '@/shared/lib';
 import { createAppError } from '@/shared/lib';
-import { client } from '@/shared/lib';
+import { getActiveNetwork, getNetworks, getSuiClient, setActiveNetwork } from '@/shared/lib';
+import type { SuiNetwork } from '@/config';
+import { SESSION_EXPIRING_EPOCHS, canTransition, isAuthInProgress } from './authStateMachine';
 
 /**
  * ZkLogin Store - State Management with Service Layer Integration
@@ -21,28 +22,52 @@ import { client } from '@/shared/lib';
  * 
  * 🔐 ZKLOGIN INTEGRATION:
  * - Manages zkLogin state across the entire application
+ * - Tracks the step of the auth flow in `authState` (see authStateMachine.ts)
  * - Handles session restoration and cross-tab sync
  * - Provides clean API for React components
  * - Integrates with all 11 zkLogin steps
  * 
- * 🍪 COOKIE STORAGE STRATEGY:
+ * 🔑 STORAGE STRATEGY:
  * 
- * Session Cookies (expire when browser closes):
+ * Secure Storage (VITE_SECURE_STORAGE, IndexedDB `zklogin-secure` encrypted
+ * with a non-extractable WebCrypto key by default):
  * - zk_ephemeral_keypair: Ed25519 private key for transaction signing
  * - zk_max_epoch: Maximum epoch until ephemeral key expires
+ * - zk_session_policy: Session window chosen at login (network, epochs, source)
  * - zk_jwt_randomness: Randomness used in nonce generation
  * - zk_jwt_token: OAuth JWT token from provider
  * - zk_proof_data: ZK proof data for transaction verification
  * - zk_user_address: Derived zkLogin Sui address
+ * - zk_oauth_provider: OAuth provider used for the current login
+ * - zk_pkce_verifier: PKCE code verifier (authorization code flow, until redeemed)
+ * - zk_pending_*: Ephemeral data of a login not completed yet (the current session stays until it does)
+ * - zk_user_salt: User salt for address derivation
+ * - zk_salt_cache: Salts returned by the backend salt service, per identity (iss, aud, sub)
+ * - zk_accounts: Accounts signed in on this browser (address, provider, label)
+ * - zk_account_<address>_*: Each account's copy of the items above (key, JWT, proof, salt)
+ * - zklogin-storage: Persisted store state (account, accounts, decoded JWT, salt, provider),
+ *   posted to the other tabs on every change (`startCrossTabSync`)
  * 
- * Persistent Cookies (expire in 30 days):
- * - zk_user_salt: User salt for address derivation (persists across sessions)
+ * Every secure storage key is scoped to the active Sui network
+ * (`devnet:zk_jwt_token`), so each network keeps its own sessions. The salt
+ * kept per identity (`zk_identity_salt_*`) is shared, so an identity keeps
+ * its address on all of them.
+ * 
+ * Persistent Cookies (no secrets):
+ * - zk_sui_network: Network selected in the switcher
+ * 
+ * Session Cookies (expire when browser closes, no secrets):
+ * - zk_oauth_state: Pending OAuth state value and return path (single use)
+ * - zk_silent_renewal_epoch: Session (maxEpoch) a silent renewal was last tried for
+ * 
+ * IndexedDB (`zklogin` database):
+ * - proofs: ZK proofs keyed by their inputs, evicted after maxEpoch, cleared on logout
  * 
  * 🔒 SECURITY:
- * - All cookies use secure, sameSite=strict settings for CSRF protection
- * - Ephemeral data expires with browser session
- * - Salt persists for consistent addresses
- * - Cross-tab synchronization for seamless UX
+ * - Secrets are never sent with HTTP requests and have no ~4KB cookie limit
+ * - Ephemeral data is cleared on logout and unusable after maxEpoch
+ * - Cookies use secure, sameSite=strict settings for CSRF protection
+ * - Cross-tab synchronization (BroadcastChannel) for seamless UX
  * 
  * @example
  * ```typescript
@@ -52,46 +77,120 @@ import { client } from '@/shared/lib';
  * ```
  */
 
-// Custom storage that triggers cross-tab updates using session cookies
-const createCrossTabStorage = () => ({
-    getItem: (name: string) => {
-        const str = sessionCookieStorage.getItem(name) as string | null;
-        if (!str) return null;
-        return JSON.parse(str);
-    },
-    setItem: (name: string, value: unknown) => {
-        sessionCookieStorage.setItem(name, JSON.stringify(value));
-        // Trigger storage event for other tabs
-        window.dispatchEvent(new StorageEvent('storage', {
-            key: name,
-            newValue: JSON.stringify(value),
-            storageArea: sessionStorage // Use sessionStorage for event compatibility
-        }));
+// Other tabs only see this tab's session when they share its storage
+// (IndexedDB); session and memory storage are per tab
+const isStorageShared = () => secureStorage.kind === 'indexeddb';
+
+// Set while a state received from another tab is applied, so it is not sent back
+let applyingSyncedState = false;
+
+// Storage for the persisted state, in the secure storage, that tells the other
+// tabs about every change (async: the store hydrates after the first render,
+// see isRestoring)
+const createCrossTabStorage = (): StateStorage => ({
+    getItem: (name: string) => secureStorage.getItem(name),
+    setItem: async (name: string, value: string) => {
+        // Read before awaiting: the flag and the network may change meanwhile
+        const broadcast = !applyingSyncedState && isStorageShared();
+        const network = getActiveNetwork().id;
+        await secureStorage.setItem(name, value);
+        if (broadcast) {
+            postTabSyncMessage({ type: 'state', network, value });
+        }
     },
-    removeItem: (name: string) => {
-        sessionCookieStorage.removeItem(name);
-        // Trigger storage event for other tabs
-        window.dispatchEvent(new StorageEvent('storage', {
-            key: name,
-            newValue: null,
-            storageArea: sessionStorage // Use sessionStorage for event compatibility
-        }));
+    removeItem: async (name: string) => {
+        const broadcast = !applyingSyncedState && isStorageShared();
+        const network = getActiveNetwork().id;
+        await secureStorage.removeItem(name);
+        if (broadcast) {
+            postTabSyncMessage({ type: 'state', network, value: null });
+        }
     },
 });
 
+// Moves `authState` to the next step together with the related state; an
+// update for a transition the state machine does not allow is dropped (see
+// authStateMachine.ts). Every change of `authState` goes through here.
+function transition(authState: AuthState, update: Partial<ZkLoginStoreState> = {}): boolean {
+    if (!canTransition(useZkLoginStore.getState().authState, authState)) {
+        return false;
+    }
+    useZkLoginStore.setState({ ...update, authState });
+    return true;
+}
+
+/**
+ * Start Cross-Tab Sync - Apply Changes Made in Other Tabs
+ *
+ * Applies the persisted state another tab on the same network posts after a
+ * login, logout, salt change or account switch, including cleared fields, so
+ * signing out in one tab signs out everywhere. The session itself (key, JWT,
+ * proof) is read from the shared storage when it is next used.
+ *
+ * @returns Function that stops listening
+ */
+export function startCrossTabSync(): () => void {
+    return subscribeTabSync((message) => {
+        if (message.type !== 'state' || message.network !== getActiveNetwork().id || !isStorageShared()) {
+            return;
+        }
+
+        const synced = parsePersistedState(message.value);
+        const update: Partial<ZkLoginStoreState> = {
+            account: synced?.account ?? null,
+            accounts: synced?.accounts ?? [],
+            decodedJwt: synced?.decodedJwt ?? null,
+            salt: synced?.salt ?? null,
+            provider: synced?.provider ?? null,
+            ...(synced?.account ? {} : { error: null }),
+        };
+        // A login under way in this tab keeps its step; it writes its own result
+        const keepState = !!synced?.account && isAuthInProgress(useZkLoginStore.getState().authState);
+        applyingSyncedState = true;
+        try {
+            if (keepState || !transition(synced?.account ? 'ready' : 'unauthenticated', update)) {
+                useZkLoginStore.setState(update);
+            }
+        } finally {
+            applyingSyncedState = false;
+        }
+    });
+}
+
+type PersistedState = Pick<ZkLoginStoreState, 'account' | 'accounts' | 'decodedJwt' | 'salt' | 'provider'>;
+
+function parsePersistedState(value: string | null): Partial<PersistedState> | null {
+    if (!value) {
+        return null;
+    }
+    try {
+        const parsed = JSON.parse(value) as { state?: Partial<PersistedState> };
+        return parsed.state ?? null;
+    } catch {
+        return null;
+    }
+}
 
 export const useZkLoginStore = create<ZkLoginStoreState>()(
     persist(
         (set, get) => {
+            // Where a cancelled or reset flow lands
+            const settledState = (): AuthState => get().account ? 'ready' : 'unauthenticated';
+
             return {
                 // Initial state
                 account: null,
+                accounts: [],
                 decodedJwt: null,
-                isRestoring: false,
+                // True until the persisted state is read from secure storage
+                isRestoring: true,
                 salt: null,
-                status: 'idle' as const,
+                provider: null,
+                authState: 'unauthenticated' as const,
                 error: null,
-                client,
+                client: getSuiClient(),
+                network: getActiveNetwork(),
+                networks: getNetworks(),
                 zkLoginService: createZkLoginService(),
 
                 // Basic setters
@@ -99,7 +198,6 @@ export const useZkLoginStore = create<ZkLoginStoreState>()(
                 setDecodedJwt: (jwt) => set({ decodedJwt: jwt }),
                 setIsRestoring: (restoring) => set({ isRestoring: restoring }),
                 setSalt: (salt) => set({ salt }),
-                setStatus: (status) => set({ status }),
                 setError: (error) => set({ error }),
                 clearError: () => set({ error: null }),
 
@@ -112,28 +210,90 @@ export const useZkLoginStore = create<ZkLoginStoreState>()(
                  * 
                  * This action delegates to ZkLoginService to start the OAuth flow.
                  * It handles the complete OAuth initiation process including ephemeral
-                 * keypair generation, nonce creation, and Google OAuth redirect.
+                 * keypair generation, nonce creation, and the provider's OAuth redirect.
+                 * 
+                 * In popup mode the provider page opens in a window and the login
+                 * completes on the current page, without navigating. If the popup is
+                 * blocked, the full-page redirect is used instead.
                  * 
-                 * @param provider - OAuth provider (currently only "google" supported)
-                 * @param returnTo - URL to return to after successful authentication
+                 * @param provider - Registered OAuth provider id (see OAUTH_PROVIDERS)
+                 * @param returnTo - URL to return to after successful authentication (redirect mode)
+                 * @param options - Login mode override (defaults to VITE_LOGIN_MODE)
                  * 
                  * @example
                  * ```typescript
                  * await loginWithProvider('google', '/dashboard');
+                 * await loginWithProvider('google', undefined, { mode: 'popup' });
                  * ```
                  */
-                loginWithProvider: async (provider: "google", returnTo?: string) => {
-                    set({ status: 'loading', error: null });
+                loginWithProvider: async (provider: OAuthProviderId, returnTo?: string, options?: LoginOptions) => {
+                    if (!transition('redirecting', { error: null })) {
+                        return;
+                    }
 
                     const { zkLoginService } = get();
-                    const result = await zkLoginService.initiateLogin(returnTo);
 
-                    if (isOk(result)) {
-                        set({ status: 'success' });
-                        window.location.href = (result.data as { redirectUrl: string }).redirectUrl;
-                    } else {
-                        set({ status: 'error', error: result.error.message || 'Operation failed' });
+                    // The popup must open synchronously within the click, before any await
+                    const mode = options?.mode ?? zkLoginService.getLoginMode();
+                    const popup = mode === 'popup' ? openLoginPopup() : null;
+
+                    const result = await zkLoginService.initiateLogin(provider, returnTo, {
+                        prompt: options?.prompt,
+                        loginHint: options?.loginHint,
+                        keepCurrentSession: options?.keepCurrentSession,
+                        newAccount: options?.newAccount,
+                    });
+
+                    if (!isOk(result)) {
+                        popup?.close();
+                        transition('error', { error: result.error });
                         // Don't throw - let UI handle the error state
+                        return;
+                    }
+
+                    const { redirectUrl } = result.data;
+                    if (!popup) {
+                        // Redirect mode, or the popup was blocked: stays `redirecting` until the page unloads
+                        window.location.href = redirectUrl;
+                        return;
+                    }
+
+                    popup.location.href = redirectUrl;
+                    transition('awaitingCallback');
+                    const callbackResult = await waitForPopupCallback(popup);
+                    if (!isOk(callbackResult)) {
+                        // Closing the window cancels the login without an error
+                        const isCancelled = (callbackResult.error.details as { reason?: string } | undefined)?.reason === 'popup_closed';
+                        await zkLoginService.discardPendingLogin();
+                        if (isCancelled) {
+                            transition(settledState());
+                        } else {
+                            transition('error', { error: callbackResult.error });
+                        }
+                        return;
+                    }
+
+                    // Same checks as the callback route: state first, then provider errors
+                    const { idToken, code, state, error, errorDescription } = callbackResult.data;
+                    const stateResult = consumeOAuthState(state);
+                    if (!isOk(stateResult)) {
+                        transition('error', { error: stateResult.error });
+                        return;
+                    }
+                    if (error) {
+                        await zkLoginService.discardPendingLogin();
+                        transition('error', {
+                            error: createAppError('OAuth', errorDescription || `Sign-in was rejected by the provider (${error})`, {
+                                details: { error }
+                            })
+                        });
+                        return;
+                    }
+
+                    if (!idToken && code) {
+                        await get().completeLoginWithCode(code, stateResult.data.returnTo);
+                    } else {
+                        await get().completeLogin(idToken, stateResult.data.returnTo);
                     }
                 },
 
@@ -153,37 +313,82 @@ export const useZkLoginStore = create<ZkLoginStoreState>()(
                  * ```
                  */
                 completeLogin: async (idToken: string | null, returnTo: string) => {
-                    set({ status: 'loading', error: null });
+                    if (!transition('awaitingCallback', { error: null })) {
+                        return;
+                    }
 
                     if (!idToken) {
                         const appError = createAppError('OAuth', 'No ID token provided', {
                             details: { step: 'completeLogin' }
                         });
-                        set({ status: 'error', error: appError.message });
+                        transition('error', { error: appError });
                         return;
                     }
 
                     const { zkLoginService } = get();
-                    const result = await zkLoginService.completeLogin(idToken, returnTo);
+                    const result = await zkLoginService.completeLogin(idToken, returnTo, (step) => transition(step));
 
                     if (isOk(result)) {
-                        // Get salt from session storage for state tracking
+                        // Get salt from secure storage for state tracking
                         // This ensures the store state is consistent with the salt service
-                        const salt = sessionCookieStorage.getItem("zk_user_salt") as string | null;
+                        const salt = await secureStorage.getItem("zk_user_salt");
                         const { account, decodedJwt } = result.data as { account: { address: string }; decodedJwt: JwtPayload };
-                        set({
+                        transition('ready', {
                             account,
+                            accounts: await zkLoginService.listAccounts(),
                             decodedJwt,
                             salt: salt,
-                            status: 'success',
+                            provider: await zkLoginService.getCurrentProviderId(),
                             error: null,
                         });
                     } else {
-                        set({ status: 'error', error: result.error.message || 'Operation failed' });
+                        // The current session (if any) was not replaced
+                        await zkLoginService.discardPendingLogin();
+                        transition('error', { error: result.error });
                         // Don't throw - let UI handle the error state
                     }
                 },
 
+                /**
+                 * Complete Authorization Code Login - ZKLOGIN STEPS 6-9
+                 * 
+                 * Same as `completeLogin`, for providers using the authorization code + PKCE
+                 * flow: the service exchanges the code for an id_token first.
+                 * 
+                 * @param code - Authorization code returned from OAuth provider
+                 * @param returnTo - URL to return to after completion
+                 * 
+                 * @example
+                 * ```typescript
+                 * await completeLoginWithCode(code, '/dashboard');
+                 * ```
+                 */
+                completeLoginWithCode: async (code: string, returnTo: string) => {
+                    if (!transition('awaitingCallback', { error: null })) {
+                        return;
+                    }
+
+                    const { zkLoginService } = get();
+                    const result = await zkLoginService.completeLoginWithCode(code, returnTo, (step) => transition(step));
+
+                    if (isOk(result)) {
+                        const salt = await secureStorage.getItem("zk_user_salt");
+                        const { account, decodedJwt } = result.data;
+                        transition('ready', {
+                            account,
+                            accounts: await zkLoginService.listAccounts(),
+                            decodedJwt,
+                            salt: salt,
+                            provider: await zkLoginService.getCurrentProviderId(),
+                            error: null,
+                        });
+                    } else {
+                        // The current session (if any) was not replaced
+                        await zkLoginService.discardPendingLogin();
+                        transition('error', { error: result.error });
+                    }
+                },
+
                 /**
                  * Ensure ZkLogin Session - ZKLOGIN STEPS 10-11
                  * 
@@ -203,10 +408,9 @@ export const useZkLoginStore = create<ZkLoginStoreState>()(
                  * ```typescript
                  * const session = await ensureZkSession();
                  * if (session) {
-                 *   // Use session for transaction signing
+                 *   // Use the session's zkLogin signer for transaction signing
                  *   const txb = new Transaction();
-                 *   const { bytes, signature } = await txb.sign({ signer: session.ephemeralKeypair });
-                 *   const zkLoginSignature = session.getSignature(signature);
+                 *   await client.signAndExecuteTransaction({ transaction: txb, signer: session.signer });
                  * } else {
                  *   // Session expired or failed - user needs to login again
                  *   console.log("Please login again to continue");
@@ -214,29 +418,28 @@ export const useZkLoginStore = create<ZkLoginStoreState>()(
                  * ```
                  */
                 ensureZkSession: async (): Promise<ZkSession | null> => {
-                    set({ status: 'loading', error: null });
-
                     const { zkLoginService } = get();
                     const result = await zkLoginService.createSession();
 
                     if (isOk(result)) {
-                        set({ status: 'success', error: null });
+                        // An expiring session stays `expiring`; a login under way keeps its step
+                        const { authState } = get();
+                        if (authState === 'unauthenticated' || authState === 'expired' || authState === 'error') {
+                            transition('ready', { error: null });
+                        }
                         // The result.data is already a complete ZkSession object
                         return result.data as ZkSession;
                     } else {
                         // Handle different types of session failures
-                        if (result.error.kind === 'ZkLogin' && result.error.message.includes("Session expired")) {
-                            // Session expired due to epoch - clear all session data
-                            set({
-                                account: null,
-                                decodedJwt: null,
-                                salt: null,
-                                status: 'error',
-                                error: result.error.message || 'Session expired',
-                            });
+                        if (result.error.kind === 'SessionExpired') {
+                            // Session expired due to epoch - keep the account so it can be renewed
+                            transition('expired', { error: result.error });
+                        } else if (result.error.kind === 'Network' || result.error.kind === 'Timeout') {
+                            // Epoch unknown (offline, failing node): the session stays, try again later
+                            set({ error: result.error });
                         } else {
                             // Other session creation failures (missing data, etc.)
-                            set({ status: 'error', error: result.error.message || 'Operation failed' });
+                            transition('error', { error: result.error });
                         }
                         return null;
                     }
@@ -245,8 +448,9 @@ export const useZkLoginStore = create<ZkLoginStoreState>()(
                 /**
                  * Logout User - Clear All Session Data
                  * 
-                 * This action clears all zkLogin session data and signs out the user.
-                 * It delegates to the service to clear session cookies and resets
+                 * This action clears all zkLogin session data and signs out the user
+                 * from every stored account (see `logoutAccount` for a single one).
+                 * It delegates to the service to clear the secure storage and resets
                  * the store state to initial values.
                  * 
                  * @example
@@ -256,22 +460,20 @@ export const useZkLoginStore = create<ZkLoginStoreState>()(
                  */
                 logout: () => {
                     const { zkLoginService } = get();
-                    zkLoginService.clearAll(); // Clear all zkLogin data
+                    void zkLoginService.clearAll(); // Clear all zkLogin data
 
                     // Clear Zustand persistence storage
-                    sessionCookieStorage.removeItem("zklogin-storage");
+                    void useZkLoginStore.persist.clearStorage();
 
-                    // Reset store state
-                    set({
+                    // Reset store state (every state can return to unauthenticated)
+                    transition('unauthenticated', {
                         account: null,
+                        accounts: [],
                         decodedJwt: null,
                         salt: null,
-                        status: 'idle',
+                        provider: null,
                         error: null,
                     });
-
-                    // Force clear the cookie by setting it to empty and expiring it
-                    document.cookie = "zklogin-storage=; expires=Thu, 01 Jan 1970 00:00:00 GMT; path=/";
                 },
 
                 /**
@@ -290,9 +492,9 @@ export const useZkLoginStore = create<ZkLoginStoreState>()(
                  */
                 clearSalt: () => {
                     const { zkLoginService } = get();
-                    zkLoginService.clearSalt();
                     // Also clear the current session since the address will change
-                    get().logout();
+                    // (after the salt: the identity whose salt is cleared is read from it)
+                    void zkLoginService.clearSalt().finally(() => get().logout());
                 },
 
                 /**
@@ -302,7 +504,7 @@ export const useZkLoginStore = create<ZkLoginStoreState>()(
                  * It provides detailed information about session status for debugging
                  * and user feedback purposes.
                  * 
-                 * @returns Promise<{isValid: boolean, error?: string, sessionInfo?: any}> - Session validation result
+                 * @returns Promise<{isValid: boolean, error?: string, sessionInfo?: SessionInfo}> - Session validation result
                  * 
                  * @example
                  * ```typescript
@@ -318,15 +520,24 @@ export const useZkLoginStore = create<ZkLoginStoreState>()(
                     const result = await zkLoginService.createSession();
 
                     if (isOk(result)) {
-                        const sessionData = result.data as {
-                            address: string;
-                            maxEpoch: number;
-                            currentEpoch: number;
-                        };
+                        const sessionData = result.data;
 
                         // Calculate epochs remaining: maxEpoch (from login time) - currentEpoch (from blockchain now)
+                        // The session signs through maxEpoch itself (0 remaining is the last epoch)
                         const epochsRemaining = sessionData.maxEpoch - sessionData.currentEpoch;
-                        const isValid = epochsRemaining > 0;
+                        const isValid = epochsRemaining >= 0;
+
+                        // ready ⇄ expiring → expired (signed-in states only, see the state machine)
+                        const { authState } = get();
+                        if (!isValid) {
+                            transition('expired');
+                        } else if (epochsRemaining <= SESSION_EXPIRING_EPOCHS) {
+                            if (authState === 'ready') {
+                                transition('expiring');
+                            }
+                        } else if (authState === 'expiring') {
+                            transition('ready');
+                        }
 
                         return {
                             isValid,
@@ -334,13 +545,19 @@ export const useZkLoginStore = create<ZkLoginStoreState>()(
                                 address: sessionData.address,
                                 maxEpoch: sessionData.maxEpoch,
                                 currentEpoch: sessionData.currentEpoch,
-                                epochsRemaining
+                                epochsRemaining,
+                                expiresAtMs: sessionData.expiresAtMs,
+                                policy: sessionData.sessionPolicy
                             }
                         };
                     } else {
+                        // The account is kept so the session can be renewed
+                        if (result.error.kind === 'SessionExpired') {
+                            transition('expired');
+                        }
                         return {
                             isValid: false,
-                            error: result.error.message || "Session validation failed"
+                            error: result.error
                         };
                     }
                 },
@@ -366,7 +583,7 @@ export const useZkLoginStore = create<ZkLoginStoreState>()(
                  * ```
                  */
                 ensureValidSession: async (returnTo?: string): Promise<ZkSession | null> => {
-                    const { ensureZkSession, loginWithProvider } = get();
+                    const { ensureZkSession, loginWithProvider, provider } = get();
 
                     // First try to get existing session
                     const session = await ensureZkSession();
@@ -375,12 +592,280 @@ export const useZkLoginStore = create<ZkLoginStoreState>()(
                         return session;
                     }
 
+                    // The epoch could not be read: signing in again would replace a session that may be valid
+                    const { error } = get();
+                    if (error?.kind === 'Network' || error?.kind === 'Timeout') {
+                        return null;
+                    }
+
                     // Session is invalid or expired - trigger re-login
                     // Use current URL as return destination if none specified
                     const currentUrl = returnTo || window.location.pathname + window.location.search;
-                    await loginWithProvider("google", currentUrl);
+                    // Re-login with the same provider so the address stays the same
+                    await loginWithProvider(provider ?? 'google', currentUrl);
                     return null; // Will redirect to OAuth, so return null
                 },
+
+                /**
+                 * Cancel Login - Abandon a Pending Login
+                 * 
+                 * Drops the pending login (its ephemeral data, OAuth state and PKCE
+                 * verifier); the session that was active before it is kept.
+                 */
+                cancelLogin: async () => {
+                    await get().zkLoginService.discardPendingLogin();
+                    transition(settledState());
+                },
+
+                /**
+                 * Add Account - Sign In Another Identity
+                 * 
+                 * Starts a login next to the current account: the new identity gets its
+                 * own ephemeral key, JWT, proof and salt, and becomes the active account.
+                 * The current account stays active until the login completes
+                 * (`cancelLogin` drops the pending one).
+                 * 
+                 * @param provider - Provider to sign in with (defaults to the current one)
+                 * 
+                 * @example
+                 * ```typescript
+                 * await addAccount(); // another Google identity
+                 * ```
+                 */
+                addAccount: async (provider?: OAuthProviderId) => {
+                    const { loginWithProvider, provider: currentProvider } = get();
+                    const returnTo = window.location.pathname + window.location.search;
+                    await loginWithProvider(provider ?? currentProvider ?? 'google', returnTo, {
+                        keepCurrentSession: true,
+                        newAccount: true,
+                    });
+                },
+
+                /**
+                 * Switch Account - Make a Stored Account Active
+                 * 
+                 * Swaps the signing session to another account signed in on this
+                 * browser, without going through the provider. The session restore
+                 * (ZkLoginProvider) then checks that its session is still valid.
+                 * 
+                 * @param address - Address of a stored account
+                 */
+                switchAccount: async (address: string) => {
+                    const { zkLoginService } = get();
+                    const result = await zkLoginService.switchAccount(address);
+
+                    if (isOk(result)) {
+                        const { account, decodedJwt, salt } = result.data;
+                        transition('ready', {
+                            account: { address: account.address },
+                            accounts: await zkLoginService.listAccounts(),
+                            decodedJwt,
+                            salt,
+                            provider: account.provider,
+                            error: null,
+                        });
+                    } else {
+                        transition('error', { error: result.error });
+                    }
+                },
+
+                /**
+                 * Logout Account - Sign Out of One Account
+                 * 
+                 * Removes one stored account. Signing out of the active account switches
+                 * to the most recently used remaining one, or signs out completely when
+                 * none is left.
+                 * 
+                 * @param address - Address of a stored account
+                 */
+                logoutAccount: async (address: string) => {
+                    const { zkLoginService } = get();
+                    const wasActive = await zkLoginService.removeAccount(address);
+                    const accounts = await zkLoginService.listAccounts();
+                    set({ accounts });
+
+                    if (!wasActive) {
+                        return;
+                    }
+                    if (accounts.length > 0) {
+                        await get().switchAccount(accounts[0].address);
+                    } else {
+                        get().logout();
+                    }
+                },
+
+                /**
+                 * Switch Network - Talk to Another Sui Network
+                 * 
+                 * Rebuilds the Sui client for the network and loads the session
+                 * and accounts kept for it: epochs differ between networks, so a
+                 * session only signs on the network it was created on. Switching
+                 * back restores the previous network's session.
+                 * 
+                 * @param network - Enabled network id (see `networks`)
+                 * 
+                 * @example
+                 * ```typescript
+                 * await switchNetwork('testnet');
+                 * ```
+                 */
+                switchNetwork: async (network: SuiNetwork) => {
+                    // Not during a login: it completes against the network it started on
+                    if (network === get().network.id || isAuthInProgress(get().authState)) {
+                        return;
+                    }
+
+                    const result = setActiveNetwork(network);
+                    if (!isOk(result)) {
+                        transition('error', { error: result.error });
+                        return;
+                    }
+
+                    // The session restore (ZkLoginProvider) checks the loaded session
+                    const accountState = await get().zkLoginService.loadAccountState();
+                    transition(accountState.account ? 'ready' : 'unauthenticated', {
+                        ...accountState,
+                        network: result.data,
+                        client: getSuiClient(),
+                        error: null,
+                    });
+                },
+
+                /**
+                 * Export Backup - Encrypt the Active Account for Download
+                 *
+                 * Bundles the salt, address and identity (and, on request, the
+                 * signing session) into a passphrase-encrypted file. The store state
+                 * is unchanged; the caller reports errors.
+                 *
+                 * @param passphrase - Passphrase the file is encrypted with
+                 * @param options - `includeSession` adds the ephemeral key, JWT and proof
+                 * @returns Result with the file contents (JSON)
+                 *
+                 * @example
+                 * ```typescript
+                 * const file = await exportBackup(passphrase, { includeSession: false });
+                 * if (file.ok) download(file.data);
+                 * ```
+                 */
+                exportBackup: async (passphrase: string, options?: { includeSession?: boolean }) => {
+                    return get().zkLoginService.exportBackup(passphrase, options?.includeSession ?? false);
+                },
+
+                /**
+                 * Import Backup - Restore a Salt (and Session) From a File
+                 *
+                 * Restores the backed-up salt for the signed-in identity and reloads
+                 * the account. When the restored account cannot be used without a
+                 * new sign-in (`signedIn: false`), the store is signed out and the
+                 * next login derives the backed-up address.
+                 *
+                 * @param contents - Backup file contents
+                 * @param passphrase - Passphrase chosen at export
+                 * @returns Result with the restored address and whether it is signed in
+                 */
+                importBackup: async (contents: string, passphrase: string) => {
+                    const { zkLoginService } = get();
+                    const result = await zkLoginService.importBackup(contents, passphrase);
+
+                    const accountState = await zkLoginService.loadAccountState();
+                    transition(accountState.account ? 'ready' : 'unauthenticated', {
+                        ...accountState,
+                        error: null,
+                    });
+                    return result;
+                },
+
+                /**
+                 * Verify Personal Message - Check a Message Signature
+                 *
+                 * Delegates to ZkLoginService (network verifier, or the local
+                 * stand-in with the mock prover). The store state is unchanged;
+                 * the caller reports errors.
+                 *
+                 * @param message - Signed message bytes
+                 * @param signature - Serialized signature (base64)
+                 * @param address - Expected signer (optional)
+                 * @returns Result with the signer's address
+                 *
+                 * @example
+                 * ```typescript
+                 * const signed = await session.signPersonalMessage(message);
+                 * const result = await verifyPersonalMessage(message, signed.signature, account.address);
+                 * ```
+                 */
+                verifyPersonalMessage: async (message: Uint8Array, signature: string, address?: string) => {
+                    return get().zkLoginService.verifyPersonalMessage(message, signature, address);
+                },
+
+                /**
+                 * Sign In With Sui - API Token for Our Own Backend
+                 *
+                 * Signs the backend's challenge with a valid session (re-login
+                 * when it has expired, like ensureValidSession) and returns the
+                 * API token. The token is not kept in the store.
+                 *
+                 * @returns Result with the API token
+                 *
+                 * @example
+                 * ```typescript
+                 * const result = await signInWithSui();
+                 * if (result.ok) fetch(url, { headers: { Authorization: `Bearer ${result.data.token}` } });
+                 * ```
+                 */
+                signInWithSui: async () => {
+                    const session = await get().ensureValidSession();
+                    if (!session) {
+                        return err(createAppError('SessionExpired', 'Sign in again to continue', {
+                            details: { step: 'signInWithSui' }
+                        }));
+                    }
+                    return get().zkLoginService.signInWithSui(session);
+                },
+
+                /**
+                 * Renew Session - Re-authenticate Before Expiry
+                 * 
+                 * Starts a new login with the same provider and account (`login_hint`)
+                 * so the renewed session keeps the same address (the salt is unchanged),
+                 * and returns to the current route.
+                 * 
+                 * Silent renewal sends `prompt=none` with a full-page redirect (popups
+                 * need a click); it succeeds only while the provider session is active.
+                 * Interactive renewal uses the configured login mode. Until the new
+                 * login completes, the current session stays as it is (`cancelLogin`
+                 * drops the pending one); a login with another identity is refused.
+                 * 
+                 * @param options - Silent mode and return route
+                 * 
+                 * @example
+                 * ```typescript
+                 * await renewSession(); // one click, e.g. from a notification
+                 * await renewSession({ silent: true });
+                 * ```
+                 */
+                renewSession: async (options?: RenewSessionOptions) => {
+                    const { loginWithProvider, provider, decodedJwt, account } = get();
+                    if (!provider || !account) {
+                        transition('error', {
+                            error: createAppError('ZkLogin', 'No session to renew. Please sign in.', {
+                                details: { step: 'renewSession' }
+                            })
+                        });
+                        return;
+                    }
+
+                    const returnTo = options?.returnTo ?? window.location.pathname + window.location.search;
+                    const loginHint = typeof decodedJwt?.email === 'string' ? decodedJwt.email : decodedJwt?.sub;
+
+                    // completeLogin refuses a renewal that signs in another identity
+                    await loginWithProvider(provider, returnTo, {
+                        mode: options?.silent ? 'redirect' : undefined,
+                        prompt: options?.silent ? 'none' : undefined,
+                        loginHint,
+                        keepCurrentSession: true,
+                    });
+                },
             };
         },
         {
@@ -388,9 +873,19 @@ export const useZkLoginStore = create<ZkLoginStoreState>()(
             storage: createJSONStorage(() => createCrossTabStorage()),
             partialize: (state) => ({
                 account: state.account,
+                accounts: state.accounts,
                 decodedJwt: state.decodedJwt,
                 salt: state.salt,
+                provider: state.provider,
             }),
+            onRehydrateStorage: () => (state) => {
+                // Signed in until the session restore (ZkLoginProvider) finds otherwise;
+                // a login that started meanwhile keeps its step
+                const { authState } = useZkLoginStore.getState();
+                if (authState !== 'unauthenticated' || !state?.account || !transition('ready', { isRestoring: false })) {
+                    useZkLoginStore.setState({ isRestoring: false });
+                }
+            },
         }
     )
 );
\ No newline at end of file
@@ -1,18 +1,172 @@
 // Auth feature types
 import type { Ed25519Keypair } from '@mysten/sui/keypairs/ed25519';
 import type { SuiClient } from '@mysten/sui/client';
-import type { Result, AppError } from '@/shared/lib';
+import type { PublicKey } from '@mysten/sui/cryptography';
+import type { Result, AppError, SuiNetworkDefinition } from '@/shared/lib';
+import type { LoginMode, OAuthClientIdConfigKey, SuiNetwork } from '@/config';
 import type { ZkLoginService } from './services/zkLoginService';
+import type { ZkLoginSigner } from './services/zkLoginSigner';
+
+// OAuth provider registry types
+export type BuiltInOAuthProviderId = 'google' | 'facebook' | 'twitch' | 'apple' | 'kakao' | 'slack' | 'microsoft';
+
+// Generic OIDC issuers from config are addressed as `oidc:<issuer id>`
+export type OidcProviderId = `oidc:${string}`;
+
+export type OAuthProviderId = BuiltInOAuthProviderId | OidcProviderId;
+
+export type OAuthResponseType = 'id_token' | 'code';
+
+export interface OAuthProviderDefinition {
+    id: OAuthProviderId;
+    name: string;
+    authUrl: string;
+    // Token endpoint for the authorization code flow (PKCE)
+    tokenUrl?: string;
+    responseTypes: OAuthResponseType[];
+    // Value sent as response_type for the id_token flow (some providers need a hybrid value)
+    idTokenResponseType?: string;
+    scopes: string[];
+    claims: {
+        subject: string; // key claim used for address derivation and proving
+        email?: string;
+        name?: string;
+        picture?: string;
+    };
+    // Built-in providers read their client ID from config; OIDC issuers carry it inline
+    clientIdConfigKey?: OAuthClientIdConfigKey;
+    clientIdEnvVar?: string;
+    clientId?: string;
+    // Expected `iss` claim and signing keys location, used to verify id_tokens
+    // (learned from discovery for OIDC issuers)
+    issuer: string;
+    jwksUri: string;
+    extraParams?: Record<string, string>;
+}
+
+// Sign-in option shown in the UI
+export interface OAuthProviderOption {
+    id: OAuthProviderId;
+    name: string;
+}
+
+// Subset of the OpenID Provider Metadata used by the app
+export interface OidcDiscoveryDocument {
+    issuer: string;
+    authorization_endpoint: string;
+    jwks_uri: string;
+    token_endpoint?: string;
+    response_types_supported: string[];
+    scopes_supported?: string[];
+    code_challenge_methods_supported?: string[];
+}
+
+// OAuth response read from the callback URL (query string or fragment)
+export interface OAuthCallbackParams {
+    idToken: string | null;
+    code: string | null;
+    state: string | null;
+    error: string | null;
+    errorDescription: string | null;
+}
+
+export interface LoginOptions {
+    // Overrides the configured login mode (VITE_LOGIN_MODE)
+    mode?: LoginMode;
+    // `none` asks the provider to answer without showing any UI (silent renewal)
+    prompt?: 'none';
+    // Account to sign in with (e.g. the email of the current session)
+    loginHint?: string;
+    // Renewal: the login must sign in the identity of the current session
+    keepCurrentSession?: boolean;
+    // Sign in another identity next to the current account (gets its own salt)
+    newAccount?: boolean;
+}
+
+// An account signed in on this browser (its secrets stay in secure storage)
+export interface StoredAccount {
+    address: string;
+    provider: OAuthProviderId;
+    // Email, or the subject when the provider has no email claim
+    label: string;
+    addedAt: number;
+    lastUsedAt: number;
+    // Sign-in identity (missing on accounts stored before it was recorded);
+    // `sub` holds the provider's key claim (`claims.subject`, the JWT `sub` by default)
+    iss?: string;
+    sub?: string;
+    aud?: string;
+}
+
+// Account export (encrypted with a passphrase, see services/sessionBackup.ts)
+export interface SessionBackup {
+    version: 1;
+    createdAt: number;
+    // Network the session was created on (the salt and address work on every network)
+    network: SuiNetwork;
+    address: string;
+    salt: string;
+    provider: OAuthProviderId;
+    // Identity the salt belongs to (claims of the JWT); `sub` holds the
+    // provider's key claim (`claims.subject`, the JWT `sub` by default)
+    iss: string;
+    sub: string;
+    aud: string;
+    // Signing session at export time, included on request (signs until maxEpoch)
+    session?: {
+        ephemeralKeypair: string;
+        maxEpoch: number;
+        randomness: string;
+        jwt: string;
+        proof: string;
+        sessionPolicy: string | null;
+    };
+}
+
+// Outcome of importing a backup
+export interface RestoredBackup {
+    address: string;
+    provider: OAuthProviderId;
+    // False when the salt was restored but the user has to sign in again to use it
+    signedIn: boolean;
+}
+
+export interface RenewSessionOptions {
+    // Silent renewal (`prompt=none`): succeeds only if the provider session is still active
+    silent?: boolean;
+    // Route to come back to (defaults to the current route)
+    returnTo?: string;
+}
+
+// Steps of the auth flow; the allowed transitions are in store/authStateMachine.ts
+export type AuthState =
+    | 'unauthenticated'
+    | 'redirecting'       // sending the user to the provider
+    | 'awaitingCallback'  // waiting for the provider response, then verifying it
+    | 'fetchingSalt'
+    | 'proving'
+    | 'ready'             // signed in with a usable session
+    | 'expiring'          // session ends after the current epoch
+    | 'expired'
+    | 'error';
+
+// Login steps reported by ZkLoginService.completeLogin
+export type LoginProgressStep = Extract<AuthState, 'fetchingSalt' | 'proving'>;
 
 // Internal store state (includes all internal properties)
 export interface ZkLoginStoreState {
     // State properties
     account: { address: string } | null;
+    accounts: StoredAccount[];
     decodedJwt: JwtPayload | null;
     isRestoring: boolean;
     salt: string | null;
-    status: 'idle' | 'loading' | 'success' | 'error';
-    error: string | null;
+    provider: OAuthProviderId | null;
+    authState: AuthState;
+    error: AppError | null;
+    client: SuiClient;
+    network: SuiNetworkDefinition;
+    networks: SuiNetworkDefinition[];
     zkLoginService: ZkLoginService;
 
     // Internal setters
@@ -20,37 +174,62 @@ export interface ZkLoginStoreState {
     setDecodedJwt: (jwt: JwtPayload | null) => void;
     setIsRestoring: (restoring: boolean) => void;
     setSalt: (salt: string | null) => void;
-    setStatus: (status: 'idle' | 'loading' | 'success' | 'error') => void;
-    setError: (error: string | null) => void;
+    setError: (error: AppError | null) => void;
 
     // Public API methods
-    loginWithProvider: (provider: "google", returnTo?: string) => Promise<void>;
+    loginWithProvider: (provider: OAuthProviderId, returnTo?: string, options?: LoginOptions) => Promise<void>;
     completeLogin: (jwt: string | null, returnTo: string) => Promise<void>;
+    completeLoginWithCode: (code: string, returnTo: string) => Promise<void>;
     ensureZkSession: () => Promise<ZkSession | null>;
     logout: () => void;
     clearSalt: () => void;
     clearError: () => void;
-    checkSessionValidity: () => Promise<{ isValid: boolean; sessionInfo?: unknown; error?: string }>;
+    checkSessionValidity: () => Promise<SessionValidation>;
     ensureValidSession: (returnTo?: string) => Promise<ZkSession | null>;
+    renewSession: (options?: RenewSessionOptions) => Promise<void>;
+    cancelLogin: () => Promise<void>;
+    addAccount: (provider?: OAuthProviderId) => Promise<void>;
+    switchAccount: (address: string) => Promise<void>;
+    logoutAccount: (address: string) => Promise<void>;
+    switchNetwork: (network: SuiNetwork) => Promise<void>;
+    exportBackup: (passphrase: string, options?: { includeSession?: boolean }) => Promise<Result<string, AppError>>;
+    importBackup: (contents: string, passphrase: string) => Promise<Result<RestoredBackup, AppError>>;
+    verifyPersonalMessage: (message: Uint8Array, signature: string, address?: string) => Promise<Result<VerifiedMessage, AppError>>;
+    signInWithSui: () => Promise<Result<SiwsToken, AppError>>;
 }
 
 // Public interface (what components see)
 export interface ZkLoginState {
     account: { address: string } | null;
+    accounts: StoredAccount[];
     decodedJwt: JwtPayload | null;
     isRestoring: boolean;
     salt: string | null;
-    status: 'idle' | 'loading' | 'success' | 'error';
-    error: string | null;
+    provider: OAuthProviderId | null;
+    authState: AuthState;
+    error: AppError | null;
     client: import('@mysten/sui/client').SuiClient;
-    loginWithProvider: (provider: "google", returnTo?: string) => Promise<void>;
+    network: SuiNetworkDefinition;
+    networks: SuiNetworkDefinition[];
+    loginWithProvider: (provider: OAuthProviderId, returnTo?: string, options?: LoginOptions) => Promise<void>;
     completeLogin: (jwt: string | null, returnTo: string) => Promise<void>;
+    completeLoginWithCode: (code: string, returnTo: string) => Promise<void>;
     ensureZkSession: () => Promise<ZkSession | null>;
     logout: () => void;
     clearSalt: () => void;
     clearError: () => void;
-    checkSessionValidity: () => Promise<{ isValid: boolean; sessionInfo?: unknown; error?: string }>;
+    checkSessionValidity: () => Promise<SessionValidation>;
     ensureValidSession: (returnTo?: string) => Promise<ZkSession | null>;
+    renewSession: (options?: RenewSessionOptions) => Promise<void>;
+    cancelLogin: () => Promise<void>;
+    addAccount: (provider?: OAuthProviderId) => Promise<void>;
+    switchAccount: (address: string) => Promise<void>;
+    logoutAccount: (address: string) => Promise<void>;
+    switchNetwork: (network: SuiNetwork) => Promise<void>;
+    exportBackup: (passphrase: string, options?: { includeSession?: boolean }) => Promise<Result<string, AppError>>;
+    importBackup: (contents: string, passphrase: string) => Promise<Result<RestoredBackup, AppError>>;
+    verifyPersonalMessage: (message: Uint8Array, signature: string, address?: string) => Promise<Result<VerifiedMessage, AppError>>;
+    signInWithSui: () => Promise<Result<SiwsToken, AppError>>;
 }
 
 export interface JwtPayload {
@@ -73,22 +252,114 @@ export interface GoogleJwtPayload extends JwtPayload {
     picture: string;
 }
 
+// Session lifetime chosen at login from the configured session policy
+export interface SessionPolicy {
+    network: SuiNetwork;
+    // Where the window came from: wall-clock target, per-network window or default window
+    source: 'target' | 'network' | 'default';
+    // Epochs added to the login epoch (maxEpoch = login epoch + epochs)
+    epochs: number;
+    maxEpochs: number;
+    // True when the requested window was capped at maxEpochs
+    clamped: boolean;
+    targetDurationMinutes?: number;
+    epochDurationMs: number;
+    // Estimated wall-clock end of maxEpoch
+    expiresAtMs: number;
+}
+
+// Session status reported by checkSessionValidity
+export interface SessionInfo {
+    address: string;
+    maxEpoch: number;
+    currentEpoch: number;
+    epochsRemaining: number;
+    // Estimated wall-clock expiry (end of maxEpoch)
+    expiresAtMs: number | null;
+    policy: SessionPolicy | null;
+}
+
+// Result of checkSessionValidity
+export interface SessionValidation {
+    isValid: boolean;
+    sessionInfo?: SessionInfo;
+    error?: AppError;
+}
+
 export interface ZkSession {
     ephemeralKeyPair: Ed25519Keypair;
     maxEpoch: number;
     currentEpoch: number;
+    // Estimated end of maxEpoch (epoch clock), null when the epoch timing is unavailable
+    expiresAtMs: number | null;
+    sessionPolicy: SessionPolicy | null;
     jwtRandomness: string;
     jwtToken: string;
     proof: string;
     userAddress: string;
     address: string; // Alias for userAddress
+    // Pass to any SDK API that accepts a Signer (signAndExecuteTransaction, signPersonalMessage)
+    signer: ZkLoginSigner;
+    // Wrap an ephemeral signature (base64) into a zkLogin signature
     getSignature: (userSignature: string) => string;
-    signTransaction: (transaction: import('@mysten/sui/transactions').Transaction, client: import('@mysten/sui/client').SuiClient) => Promise<{ bytes: Uint8Array; signature: string }>;
+    // zkLogin signature over arbitrary bytes (PersonalMessage intent)
+    signPersonalMessage: (message: Uint8Array) => Promise<{ bytes: string; signature: string }>;
 }
 
 export interface SaltService {
     getOrCreateSalt: (jwt: string) => Promise<Result<string, AppError>>;
-    clearSalt: () => void;
+    clearSalt: () => Promise<void>;
+}
+
+// Everything a prover needs to prove a JWT for an ephemeral key
+export interface ZkProofRequest {
+    jwt: string;
+    ephemeralPublicKey: PublicKey;
+    maxEpoch: number;
+    randomness: string;
+    salt: string;
+    keyClaimName: string;
+}
+
+// Prover output: zkLogin signature inputs without the address seed
+export interface ZkProof {
+    proofPoints: {
+        a: string[];
+        b: string[][];
+        c: string[];
+    };
+    issBase64Details: {
+        value: string;
+        indexMod4: number;
+    };
+    headerBase64: string;
+}
+
+export interface ProverService {
+    readonly name: string;
+    generateProof: (request: ZkProofRequest) => Promise<Result<ZkProof, AppError>>;
+}
+
+// Result of verifying a personal message signature
+export interface VerifiedMessage {
+    address: string;
+    scheme: import('@mysten/sui/cryptography').SignatureScheme;
+    // Last epoch of the signing session (zkLogin signatures only)
+    maxEpoch: number | null;
+    // Whether the zkLogin proof was checked (false for the local verifier and key signatures)
+    proofVerified: boolean;
+}
+
+// API token from the Sign-In with Sui handshake
+export interface SiwsToken {
+    token: string;
+    address: string;
+    expiresAtMs: number;
+}
+
+export interface MessageVerifier {
+    readonly name: string;
+    verifyPersonalMessage: (message: Uint8Array, signature: string, address?: string) => Promise<Result<VerifiedMessage, AppError>>;
 }
 
 export interface ZkLoginContext extends ZkLoginState {
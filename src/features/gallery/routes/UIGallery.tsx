@@ -15,6 +15,7 @@ import {
   ConnectWalletButton,
   DropdownMenu,
   FaucetButton,
+  NetworkSwitcher,
   NotificationItem,
   SessionStatus,
   TransactionDetails,
@@ -698,7 +699,7 @@ export default function UIGallery() {
       },
       {
         title: 'FaucetButton',
-        description: 'Request test tokens from Sui devnet faucet with loading states',
+        description: "Request test tokens from the active network's faucet with loading states",
         demo: (
           <div className={STYLES.componentDemo}>
             <div className='space-y-4'>
@@ -759,6 +760,30 @@ export default function UIGallery() {
           </div>
         ),
       },
+      {
+        title: 'NetworkSwitcher',
+        description: 'Active Sui network with a dropdown to switch networks',
+        demo: (
+          <div className={STYLES.componentDemo}>
+            <NetworkSwitcher
+              networks={[
+                { id: 'devnet', name: 'Sui Devnet' },
+                { id: 'testnet', name: 'Sui Testnet' },
+                { id: 'mainnet', name: 'Sui Mainnet' },
+              ]}
+              activeNetwork='devnet'
+              onSwitch={() => {}}
+            />
+            <div className={STYLES.codeBlock}>
+              {`<NetworkSwitcher
+  networks={networks}
+  activeNetwork={network.id}
+  onSwitch={id => switchNetwork(id)}
+/>`}
+            </div>
+          </div>
+        ),
+      },
     ],
   };
 
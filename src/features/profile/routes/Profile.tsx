@@ -1,18 +1,20 @@
 import React, { useState, useEffect } from 'react';
-import { useZkLogin } from '@/features/auth';
+import { useZkLogin, useSessionMonitor } from '@/features/auth';
 import { AccountCard, Panel, SessionStatus, VerifiedBadge } from '@/shared/ui';
-import { ProfileHeader, ProfileStats, OwnedObjectsList, SaltManagementPanel } from '../ui';
+import {
+  ProfileHeader,
+  ProfileStats,
+  OwnedObjectsList,
+  SaltManagementPanel,
+  SessionBackupPanel,
+  MessageSigningPanel,
+} from '../ui';
 
 // ============================================================================
 // TYPES & INTERFACES
 // ============================================================================
 
-interface SessionInfo {
-  isValid: boolean;
-  currentEpoch: number;
-  maxEpoch: number;
-  epochsRemaining: number;
-}
+// No props needed for this component
 
 // ============================================================================
 // CONSTANTS
@@ -54,12 +56,11 @@ export default function Profile() {
   // HOOKS & STATE
   // ============================================================================
 
-  const { account, decodedJwt, client, checkSessionValidity, loginWithProvider } = useZkLogin();
+  const { account, decodedJwt, client, network } = useZkLogin();
+  // Notifications come from the app-wide monitor in AppLayout
+  const sessionMonitor = useSessionMonitor({ notify: false });
   const [balance, setBalance] = useState<string | null>(null);
   const [balanceLoading, setBalanceLoading] = useState(false);
-  const [sessionInfo, setSessionInfo] = useState<SessionInfo | null>(null);
-  const [isCheckingSession, setIsCheckingSession] = useState(false);
-  const [sessionError, setSessionError] = useState<string | null>(null);
 
   // ============================================================================
   // EFFECTS
@@ -88,57 +89,15 @@ export default function Profile() {
     fetchBalance();
   }, [account?.address, client]);
 
-  // Fetch session status on load/account change
-  useEffect(() => {
-    const run = async () => {
-      await checkSession();
-    };
-    run();
-  }, [account?.address]);
-
   // ============================================================================
   // EVENT HANDLERS
   // ============================================================================
 
-  const checkSession = async (): Promise<void> => {
-    if (typeof checkSessionValidity !== 'function') {
-      setSessionError('checkSessionValidity is not available');
-      return;
-    }
-
-    setIsCheckingSession(true);
-    setSessionError(null);
-
-    try {
-      const validation = await checkSessionValidity();
-      if (validation.isValid) {
-        // Type guard to ensure sessionInfo matches our interface
-        const sessionInfo = validation.sessionInfo as SessionInfo | undefined;
-        if (sessionInfo) {
-          // Include the isValid property in the sessionInfo
-          setSessionInfo({
-            ...sessionInfo,
-            isValid: validation.isValid,
-          });
-        } else {
-          setSessionInfo(null);
-        }
-        setSessionError(null);
-      } else {
-        setSessionInfo(null);
-        setSessionError(validation.error || 'Session validation failed');
-      }
-    } catch (error) {
-      setSessionError('Session check failed: ' + (error as Error).message);
-    } finally {
-      setIsCheckingSession(false);
-    }
-  };
-
-  const handleReLogin = async (): Promise<void> => {
-    const currentUrl = window.location.pathname + window.location.search;
-    await loginWithProvider('google', currentUrl);
-  };
+  // Expired sessions are reported through the error, like failed checks
+  const sessionInfo =
+    sessionMonitor.sessionInfo && !sessionMonitor.isExpired
+      ? { ...sessionMonitor.sessionInfo, isValid: true }
+      : null;
 
   const handleAddressCopied = (): void => {
     // Could add notification here if needed
@@ -168,7 +127,7 @@ export default function Profile() {
       <ProfileHeader address={account.address} email={decodedJwt?.email} />
 
       {/* Profile Stats */}
-      <ProfileStats />
+      <ProfileStats networkName={network.name} />
 
       {/* Account Details */}
       <AccountCard
@@ -224,10 +183,13 @@ export default function Profile() {
           {/* Session Status */}
           <SessionStatus
             sessionInfo={sessionInfo}
-            isChecking={isCheckingSession}
-            error={sessionError || undefined}
-            onRefresh={checkSession}
-            onReLogin={handleReLogin}
+            isChecking={sessionMonitor.isChecking}
+            error={sessionMonitor.error || undefined}
+            isExpiringSoon={sessionMonitor.isExpiringSoon}
+            isRenewing={sessionMonitor.isRenewing}
+            onRefresh={sessionMonitor.refresh}
+            onReLogin={sessionMonitor.renew}
+            onRenew={sessionMonitor.renew}
           />
         </div>
       </Panel>
@@ -235,8 +197,14 @@ export default function Profile() {
       {/* Salt Management Panel */}
       <SaltManagementPanel />
 
+      {/* Backup & Restore */}
+      <SessionBackupPanel />
+
+      {/* Message Signing */}
+      <MessageSigningPanel />
+
       {/* Owned Objects */}
-      <OwnedObjectsList address={account.address} client={client} />
+      <OwnedObjectsList address={account.address} client={client} network={network} />
     </div>
   );
 }
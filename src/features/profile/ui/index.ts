@@ -1,5 +1,7 @@
 // Profile Feature UI Components
+export { default as MessageSigningPanel } from './organisms/MessageSigningPanel';
 export { default as OwnedObjectsList } from './organisms/OwnedObjectsList';
 export { default as ProfileHeader } from './organisms/ProfileHeader';
 export { default as ProfileStats } from './organisms/ProfileStats';
 export { default as SaltManagementPanel } from './organisms/SaltManagementPanel';
+export { default as SessionBackupPanel } from './organisms/SessionBackupPanel';
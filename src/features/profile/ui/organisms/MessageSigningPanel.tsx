@@ -0,0 +1,305 @@
+import React, { useState } from 'react';
+import { Panel, Input, Button, CopyButton } from '@/shared/ui';
+import { useZkLogin, type VerifiedMessage } from '@/features/auth';
+import { useNotifications } from '@/app';
+
+// ============================================================================
+// TYPES & INTERFACES
+// ============================================================================
+
+interface MessageSigningPanelProps {
+  /** Additional CSS classes */
+  className?: string;
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+const STYLES = {
+  container: 'space-y-4',
+  header: 'flex items-center gap-3 mb-4',
+  headerIcon: 'w-6 h-6 bg-purple-500/20 rounded-full flex items-center justify-center',
+  headerIconText: 'text-purple-400 text-sm',
+  headerContent: 'flex-1',
+  headerTitle: 'text-lg font-bold text-white',
+  headerSubtitle: 'text-white/60 text-xs',
+  sections: 'grid grid-cols-1 md:grid-cols-2 gap-6',
+  section: 'space-y-3',
+  sectionTitle: 'text-sm font-semibold text-white/90',
+  sectionText: 'text-xs text-white/60 leading-relaxed',
+  label: 'block text-xs font-medium text-white/80 mb-1',
+  textarea:
+    'block w-full px-3 py-1.5 text-sm border border-gray-300 rounded-lg bg-white text-black focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent',
+  signatureBox: 'bg-white/5 rounded-lg p-3 space-y-2',
+  signatureText: 'font-mono text-xs text-white/80 break-all',
+  resultValid: 'bg-green-500/10 border border-green-500/20 rounded-lg p-3 space-y-1',
+  resultValidTitle: 'text-green-300 text-sm font-semibold',
+  resultText: 'text-xs text-white/70 break-all',
+  warningText: 'text-yellow-300/80 text-xs leading-relaxed',
+} as const;
+
+const TEXT = {
+  title: 'Sign & Verify Messages',
+  subtitle: 'Prove you own this address without sending a transaction',
+  signTitle: 'Sign a message',
+  signText:
+    'Signs the message with your zkLogin session (PersonalMessage intent). Backends verify it to log you in or accept attestations.',
+  messageLabel: 'Message',
+  messagePlaceholder: 'Hello from zkLogin',
+  signButton: 'Sign Message',
+  signatureLabel: 'Signature',
+  copySignature: 'Copy',
+  useForVerify: 'Verify this signature',
+  verifyTitle: 'Verify a signature',
+  verifyText: 'Checks a personal message signature and shows which address signed it.',
+  signaturePlaceholder: 'Base64 signature',
+  addressLabel: 'Expected signer (optional)',
+  verifyButton: 'Verify',
+  valid: 'Valid signature',
+  signedBy: 'Signed by',
+  scheme: 'Scheme',
+  maxEpoch: 'Session valid through epoch',
+  proofNotVerified:
+    'The zkLogin proof was not checked (local verifier for the mock prover). Do not rely on this result to authenticate users.',
+  signed: 'Message signed',
+  signedMessage: 'The signature is ready to copy or verify.',
+} as const;
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+const encodeMessage = (message: string): Uint8Array => new TextEncoder().encode(message);
+
+// ============================================================================
+// COMPONENT
+// ============================================================================
+
+/**
+ * MessageSigningPanel Component
+ *
+ * A panel to sign arbitrary messages with the active zkLogin session and to
+ * verify personal message signatures (from this or any other address).
+ *
+ * @param props - Component props
+ * @returns JSX element
+ */
+export default function MessageSigningPanel({ className = '' }: MessageSigningPanelProps) {
+  // ============================================================================
+  // HOOKS & STATE
+  // ============================================================================
+
+  const { account, ensureValidSession, verifyPersonalMessage } = useZkLogin();
+  const { showError, showSuccess } = useNotifications();
+
+  const [message, setMessage] = useState('');
+  const [signature, setSignature] = useState<string | null>(null);
+  const [isSigning, setIsSigning] = useState(false);
+
+  const [verifyMessage, setVerifyMessage] = useState('');
+  const [verifySignature, setVerifySignature] = useState('');
+  const [expectedAddress, setExpectedAddress] = useState('');
+  const [verified, setVerified] = useState<VerifiedMessage | null>(null);
+  const [isVerifying, setIsVerifying] = useState(false);
+
+  // ============================================================================
+  // EVENT HANDLERS
+  // ============================================================================
+
+  const handleSign = async (): Promise<void> => {
+    if (!message) {
+      return;
+    }
+
+    setIsSigning(true);
+    try {
+      // Redirects to sign in again when the session has expired
+      const session = await ensureValidSession();
+      if (!session) {
+        return;
+      }
+
+      const signed = await session.signPersonalMessage(encodeMessage(message));
+      setSignature(signed.signature);
+      showSuccess(TEXT.signed, TEXT.signedMessage);
+    } catch (error) {
+      showError(error);
+    } finally {
+      setIsSigning(false);
+    }
+  };
+
+  const handleUseForVerify = (): void => {
+    if (!signature) {
+      return;
+    }
+    setVerifyMessage(message);
+    setVerifySignature(signature);
+    setExpectedAddress(account?.address ?? '');
+    setVerified(null);
+  };
+
+  const handleVerify = async (): Promise<void> => {
+    if (!verifySignature) {
+      return;
+    }
+
+    setIsVerifying(true);
+    setVerified(null);
+    try {
+      const result = await verifyPersonalMessage(
+        encodeMessage(verifyMessage),
+        verifySignature.trim(),
+        expectedAddress.trim() || undefined
+      );
+      if (!result.ok) {
+        showError(result.error);
+        return;
+      }
+      setVerified(result.data);
+    } finally {
+      setIsVerifying(false);
+    }
+  };
+
+  // ============================================================================
+  // RENDER
+  // ============================================================================
+
+  return (
+    <Panel variant='glass' size='md' className={`${STYLES.container} ${className}`}>
+      {/* Header */}
+      <div className={STYLES.header}>
+        <div className={STYLES.headerIcon}>
+          <span className={STYLES.headerIconText}>✍️</span>
+        </div>
+        <div className={STYLES.headerContent}>
+          <h2 className={STYLES.headerTitle}>{TEXT.title}</h2>
+          <p className={STYLES.headerSubtitle}>{TEXT.subtitle}</p>
+        </div>
+      </div>
+
+      <div className={STYLES.sections}>
+        {/* Sign */}
+        <div className={STYLES.section}>
+          <h3 className={STYLES.sectionTitle}>{TEXT.signTitle}</h3>
+          <p className={STYLES.sectionText}>{TEXT.signText}</p>
+          <div>
+            <label htmlFor='sign-message' className={STYLES.label}>
+              {TEXT.messageLabel}
+            </label>
+            <textarea
+              id='sign-message'
+              rows={3}
+              value={message}
+              onChange={e => {
+                setMessage(e.target.value);
+                setSignature(null);
+              }}
+              placeholder={TEXT.messagePlaceholder}
+              className={STYLES.textarea}
+            />
+          </div>
+          <Button
+            onClick={handleSign}
+            disabled={!message || !account || isSigning}
+            loading={isSigning}
+            variant='primary'
+            size='sm'
+          >
+            {TEXT.signButton}
+          </Button>
+          {signature && (
+            <div className={STYLES.signatureBox}>
+              <p className={STYLES.label}>{TEXT.signatureLabel}</p>
+              <p className={STYLES.signatureText}>{signature}</p>
+              <div className='flex gap-2'>
+                <CopyButton text={signature} label={TEXT.copySignature} size='sm' />
+                <Button onClick={handleUseForVerify} variant='ghost' size='sm'>
+                  {TEXT.useForVerify}
+                </Button>
+              </div>
+            </div>
+          )}
+        </div>
+
+        {/* Verify */}
+        <div className={STYLES.section}>
+          <h3 className={STYLES.sectionTitle}>{TEXT.verifyTitle}</h3>
+          <p className={STYLES.sectionText}>{TEXT.verifyText}</p>
+          <div>
+            <label htmlFor='verify-message' className={STYLES.label}>
+              {TEXT.messageLabel}
+            </label>
+            <textarea
+              id='verify-message'
+              rows={2}
+              value={verifyMessage}
+              onChange={e => {
+                setVerifyMessage(e.target.value);
+                setVerified(null);
+              }}
+              className={STYLES.textarea}
+            />
+          </div>
+          <div>
+            <label htmlFor='verify-signature' className={STYLES.label}>
+              {TEXT.signatureLabel}
+            </label>
+            <textarea
+              id='verify-signature'
+              rows={3}
+              value={verifySignature}
+              onChange={e => {
+                setVerifySignature(e.target.value);
+                setVerified(null);
+              }}
+              placeholder={TEXT.signaturePlaceholder}
+              className={`${STYLES.textarea} font-mono`}
+            />
+          </div>
+          <Input
+            label={TEXT.addressLabel}
+            value={expectedAddress}
+            onChange={e => {
+              setExpectedAddress(e.target.value);
+              setVerified(null);
+            }}
+            placeholder='0x...'
+            fullWidth
+            size='sm'
+          />
+          <Button
+            onClick={handleVerify}
+            disabled={!verifySignature || isVerifying}
+            loading={isVerifying}
+            variant='secondary'
+            size='sm'
+          >
+            {TEXT.verifyButton}
+          </Button>
+          {verified && (
+            <div className={STYLES.resultValid}>
+              <p className={STYLES.resultValidTitle}>{TEXT.valid}</p>
+              <p className={STYLES.resultText}>
+                {TEXT.signedBy}: {verified.address}
+              </p>
+              <p className={STYLES.resultText}>
+                {TEXT.scheme}: {verified.scheme}
+              </p>
+              {verified.maxEpoch !== null && (
+                <p className={STYLES.resultText}>
+                  {TEXT.maxEpoch}: {verified.maxEpoch}
+                </p>
+              )}
+              {verified.scheme === 'ZkLogin' && !verified.proofVerified && (
+                <p className={STYLES.warningText}>{TEXT.proofNotVerified}</p>
+              )}
+            </div>
+          )}
+        </div>
+      </div>
+    </Panel>
+  );
+}
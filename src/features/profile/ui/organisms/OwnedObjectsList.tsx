@@ -1,6 +1,6 @@
 import React, { useState, useEffect } from 'react';
 import { LoadingSpinner, Panel } from '@/shared/ui/atoms';
-import { getConfig } from '@/config';
+import { getExplorerObjectUrl, type SuiNetworkDefinition } from '@/shared/lib';
 
 // ============================================================================
 // TYPES & INTERFACES
@@ -18,6 +18,8 @@ interface OwnedObjectsListProps {
   address: string;
   /** Sui client instance */
   client: import('@mysten/sui/client').SuiClient;
+  /** Network the client talks to (explorer links) */
+  network: SuiNetworkDefinition;
   /** Additional CSS classes */
   className?: string;
 }
@@ -57,6 +59,7 @@ const STYLES = {
 export default function OwnedObjectsList({
   address,
   client,
+  network,
   className = '',
 }: OwnedObjectsListProps) {
   // ============================================================================
@@ -100,13 +103,8 @@ export default function OwnedObjectsList({
   // RENDER HELPERS
   // ============================================================================
 
-  const getExplorerUrl = (objectId: string): string => {
-    const configResult = getConfig();
-    if (!configResult.ok) {
-      return `https://suiscan.xyz/devnet/object/${objectId}`;
-    }
-    const baseUrl = configResult.data.explorerObjectBaseUrl || 'https://suiscan.xyz/devnet/object';
-    return `${baseUrl}/${objectId}`;
+  const getExplorerUrl = (objectId: string): string | null => {
+    return getExplorerObjectUrl(network, objectId);
   };
 
   // ============================================================================
@@ -154,21 +152,27 @@ export default function OwnedObjectsList({
     <Panel variant='glass' size='lg' className={className}>
       <h2 className={STYLES.title}>Your Objects</h2>
       <div className={STYLES.list}>
-        {objects.map(object => (
-          <div key={object.data?.objectId} className={STYLES.objectItem}>
-            <div className={STYLES.objectContent}>
-              <div className={STYLES.objectId}>{object.data?.objectId}</div>
-              <a
-                href={getExplorerUrl(object.data?.objectId || '')}
-                target='_blank'
-                rel='noopener noreferrer'
-                className={STYLES.objectLink}
-              >
-                View in Explorer →
-              </a>
+        {objects.map(object => {
+          // No link on networks without an explorer (localnet)
+          const explorerUrl = getExplorerUrl(object.data?.objectId || '');
+          return (
+            <div key={object.data?.objectId} className={STYLES.objectItem}>
+              <div className={STYLES.objectContent}>
+                <div className={STYLES.objectId}>{object.data?.objectId}</div>
+                {explorerUrl && (
+                  <a
+                    href={explorerUrl}
+                    target='_blank'
+                    rel='noopener noreferrer'
+                    className={STYLES.objectLink}
+                  >
+                    View in Explorer →
+                  </a>
+                )}
+              </div>
             </div>
-          </div>
-        ))}
+          );
+        })}
       </div>
     </Panel>
   );
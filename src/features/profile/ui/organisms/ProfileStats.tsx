@@ -6,6 +6,8 @@ import { Panel, StatusIndicator } from '@/shared/ui/atoms';
 // ============================================================================
 
 interface ProfileStatsProps {
+  /** Display name of the active network */
+  networkName: string;
   /** Additional CSS classes */
   className?: string;
 }
@@ -43,7 +45,7 @@ const STYLES = {
  * @param props - Component props
  * @returns JSX element
  */
-export default function ProfileStats({ className = '' }: ProfileStatsProps) {
+export default function ProfileStats({ networkName, className = '' }: ProfileStatsProps) {
   // ============================================================================
   // RENDER
   // ============================================================================
@@ -65,7 +67,7 @@ export default function ProfileStats({ className = '' }: ProfileStatsProps) {
           <h3 className={STYLES.statTitle}>Network</h3>
           <div className={`${STYLES.statusDot} ${STYLES.statusDotBlue}`}></div>
         </div>
-        <p className={STYLES.statDescription}>Sui Devnet</p>
+        <p className={STYLES.statDescription}>{networkName}</p>
       </Panel>
 
       {/* Account Type */}
@@ -1,7 +1,7 @@
 import React, { useState, useEffect } from 'react';
 import { Panel, Input, Button, CopyButton } from '@/shared/ui';
-import { useZkLogin } from '@/features/auth';
-import { sessionCookieStorage } from '@/shared/utils';
+import { isAuthInProgress, useZkLogin } from '@/features/auth';
+import { secureStorage } from '@/shared/lib';
 
 // ============================================================================
 // TYPES & INTERFACES
@@ -70,7 +70,7 @@ export default function SaltManagementPanel({ className = '' }: SaltManagementPa
   // HOOKS & STATE
   // ============================================================================
 
-  const { salt, completeLogin, decodedJwt, status } = useZkLogin();
+  const { salt, completeLogin, decodedJwt, authState } = useZkLogin();
   const [saltInput, setSaltInput] = useState(salt || '');
   const [isChangingAddress, setIsChangingAddress] = useState(false);
   const [isEditing, setIsEditing] = useState(false);
@@ -102,12 +102,12 @@ export default function SaltManagementPanel({ className = '' }: SaltManagementPa
     setIsChangingAddress(true);
 
     try {
-      // Store the custom salt in the cookie storage
+      // Store the custom salt in the secure storage
       // This will be picked up by DemoSaltService.getOrCreateSalt()
-      sessionCookieStorage.setItem('zk_user_salt', saltInput.trim());
+      await secureStorage.setItem('zk_user_salt', saltInput.trim());
 
-      // Get the JWT token from session storage
-      const jwtToken = sessionCookieStorage.getItem('zk_jwt_token') as string;
+      // Get the JWT token from secure storage
+      const jwtToken = await secureStorage.getItem('zk_jwt_token');
 
       if (!jwtToken) {
         return;
@@ -197,7 +197,7 @@ export default function SaltManagementPanel({ className = '' }: SaltManagementPa
                 </Button>
                 <Button
                   onClick={handleChangeAddress}
-                  disabled={!saltInput.trim() || isChangingAddress || status === 'loading'}
+                  disabled={!saltInput.trim() || isChangingAddress || isAuthInProgress(authState)}
                   loading={isChangingAddress}
                   variant='primary'
                   size='sm'
@@ -0,0 +1,276 @@
+import React, { useRef, useState } from 'react';
+import { Panel, Input, Button } from '@/shared/ui';
+import { useZkLogin, MIN_BACKUP_PASSPHRASE_LENGTH } from '@/features/auth';
+import { useNotifications } from '@/app';
+
+// ============================================================================
+// TYPES & INTERFACES
+// ============================================================================
+
+interface SessionBackupPanelProps {
+  /** Additional CSS classes */
+  className?: string;
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+const STYLES = {
+  container: 'space-y-4',
+  header: 'flex items-center gap-3 mb-4',
+  headerIcon: 'w-6 h-6 bg-blue-500/20 rounded-full flex items-center justify-center',
+  headerIconText: 'text-blue-400 text-sm',
+  headerContent: 'flex-1',
+  headerTitle: 'text-lg font-bold text-white',
+  headerSubtitle: 'text-white/60 text-xs',
+  sections: 'grid grid-cols-1 md:grid-cols-2 gap-6',
+  section: 'space-y-3',
+  sectionTitle: 'text-sm font-semibold text-white/90',
+  sectionText: 'text-xs text-white/60 leading-relaxed',
+  checkboxLabel: 'flex items-start gap-2 text-xs text-white/80 cursor-pointer',
+  checkbox: 'mt-0.5 accent-blue-500',
+  warningBox: 'bg-yellow-500/10 border border-yellow-500/20 rounded-lg p-3',
+  warningText: 'text-yellow-300/80 text-xs leading-relaxed',
+  fileInput:
+    'block w-full text-xs text-white/70 file:mr-3 file:px-3 file:py-1.5 file:rounded-lg file:border-0 file:bg-white/10 file:text-white/90 hover:file:bg-white/20',
+} as const;
+
+const TEXT = {
+  title: 'Backup & Restore',
+  subtitle: 'Keep your address when site data is cleared',
+  exportTitle: 'Export backup',
+  exportText:
+    'Downloads your salt, address and sign-in identity, encrypted with a passphrase. Without the salt the address cannot be recovered.',
+  passphraseLabel: 'Passphrase',
+  passphrasePlaceholder: `At least ${MIN_BACKUP_PASSPHRASE_LENGTH} characters`,
+  confirmLabel: 'Confirm passphrase',
+  passphraseMismatch: 'Passphrases do not match',
+  includeSession: 'Include the current session (signs transactions until it expires)',
+  sessionWarning:
+    'Anyone with this file and the passphrase can sign transactions for your address until the session expires.',
+  exportButton: 'Download Backup',
+  importTitle: 'Restore backup',
+  importText:
+    'Sign in with the account of the backup, then restore it to get its address back on this browser.',
+  importPassphrasePlaceholder: 'Passphrase of the backup',
+  importButton: 'Restore',
+  exported: 'Backup downloaded',
+  exportedMessage: 'Keep the file and its passphrase somewhere safe.',
+  restored: 'Backup restored',
+  restoredMessage: 'Signed in with',
+  signInAgain: 'Salt restored',
+  signInAgainMessage: 'Sign in again to use',
+} as const;
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+const shortAddress = (address: string): string => `${address.slice(0, 8)}...${address.slice(-6)}`;
+
+const downloadFile = (contents: string, filename: string): void => {
+  const url = URL.createObjectURL(new Blob([contents], { type: 'application/json' }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+// ============================================================================
+// COMPONENT
+// ============================================================================
+
+/**
+ * SessionBackupPanel Component
+ *
+ * A panel to export the active account as a passphrase-encrypted file and to
+ * restore one. Restoring checks that the backup belongs to the signed-in
+ * identity and derives the backed-up address.
+ *
+ * @param props - Component props
+ * @returns JSX element
+ */
+export default function SessionBackupPanel({ className = '' }: SessionBackupPanelProps) {
+  // ============================================================================
+  // HOOKS & STATE
+  // ============================================================================
+
+  const { account, network, exportBackup, importBackup } = useZkLogin();
+  const { showError, showSuccess, showInfo } = useNotifications();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const [passphrase, setPassphrase] = useState('');
+  const [confirmPassphrase, setConfirmPassphrase] = useState('');
+  const [includeSession, setIncludeSession] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
+
+  const [backupFile, setBackupFile] = useState<File | null>(null);
+  const [importPassphrase, setImportPassphrase] = useState('');
+  const [isImporting, setIsImporting] = useState(false);
+
+  const isPassphraseValid = passphrase.length >= MIN_BACKUP_PASSPHRASE_LENGTH;
+  const isMismatch = confirmPassphrase.length > 0 && confirmPassphrase !== passphrase;
+
+  // ============================================================================
+  // EVENT HANDLERS
+  // ============================================================================
+
+  const handleExport = async (): Promise<void> => {
+    if (!account || !isPassphraseValid || passphrase !== confirmPassphrase) {
+      return;
+    }
+
+    setIsExporting(true);
+    try {
+      const result = await exportBackup(passphrase, { includeSession });
+      if (!result.ok) {
+        showError(result.error);
+        return;
+      }
+
+      downloadFile(
+        result.data,
+        `zklogin-backup-${account.address.slice(0, 10)}-${network.id}.json`
+      );
+      showSuccess(TEXT.exported, TEXT.exportedMessage);
+      setPassphrase('');
+      setConfirmPassphrase('');
+      setIncludeSession(false);
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const handleImport = async (): Promise<void> => {
+    if (!backupFile || !importPassphrase) {
+      return;
+    }
+
+    setIsImporting(true);
+    try {
+      const result = await importBackup(await backupFile.text(), importPassphrase);
+      if (!result.ok) {
+        showError(result.error);
+        return;
+      }
+
+      const { address, signedIn } = result.data;
+      if (signedIn) {
+        showSuccess(TEXT.restored, `${TEXT.restoredMessage} ${shortAddress(address)}`);
+      } else {
+        showInfo(TEXT.signInAgain, `${TEXT.signInAgainMessage} ${shortAddress(address)}`);
+      }
+      setBackupFile(null);
+      setImportPassphrase('');
+      if (fileInputRef.current) {
+        fileInputRef.current.value = '';
+      }
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  // ============================================================================
+  // RENDER
+  // ============================================================================
+
+  return (
+    <Panel variant='glass' size='md' className={`${STYLES.container} ${className}`}>
+      {/* Header */}
+      <div className={STYLES.header}>
+        <div className={STYLES.headerIcon}>
+          <span className={STYLES.headerIconText}>💾</span>
+        </div>
+        <div className={STYLES.headerContent}>
+          <h2 className={STYLES.headerTitle}>{TEXT.title}</h2>
+          <p className={STYLES.headerSubtitle}>{TEXT.subtitle}</p>
+        </div>
+      </div>
+
+      <div className={STYLES.sections}>
+        {/* Export */}
+        <div className={STYLES.section}>
+          <h3 className={STYLES.sectionTitle}>{TEXT.exportTitle}</h3>
+          <p className={STYLES.sectionText}>{TEXT.exportText}</p>
+          <Input
+            type='password'
+            label={TEXT.passphraseLabel}
+            value={passphrase}
+            onChange={e => setPassphrase(e.target.value)}
+            placeholder={TEXT.passphrasePlaceholder}
+            autoComplete='new-password'
+            fullWidth
+            size='sm'
+          />
+          <Input
+            type='password'
+            label={TEXT.confirmLabel}
+            value={confirmPassphrase}
+            onChange={e => setConfirmPassphrase(e.target.value)}
+            error={isMismatch ? TEXT.passphraseMismatch : undefined}
+            autoComplete='new-password'
+            fullWidth
+            size='sm'
+          />
+          <label className={STYLES.checkboxLabel}>
+            <input
+              type='checkbox'
+              checked={includeSession}
+              onChange={e => setIncludeSession(e.target.checked)}
+              className={STYLES.checkbox}
+            />
+            {TEXT.includeSession}
+          </label>
+          {includeSession && (
+            <div className={STYLES.warningBox}>
+              <p className={STYLES.warningText}>{TEXT.sessionWarning}</p>
+            </div>
+          )}
+          <Button
+            onClick={handleExport}
+            disabled={!isPassphraseValid || passphrase !== confirmPassphrase || isExporting}
+            loading={isExporting}
+            variant='primary'
+            size='sm'
+          >
+            {TEXT.exportButton}
+          </Button>
+        </div>
+
+        {/* Import */}
+        <div className={STYLES.section}>
+          <h3 className={STYLES.sectionTitle}>{TEXT.importTitle}</h3>
+          <p className={STYLES.sectionText}>{TEXT.importText}</p>
+          <input
+            ref={fileInputRef}
+            type='file'
+            accept='application/json,.json'
+            onChange={e => setBackupFile(e.target.files?.[0] ?? null)}
+            className={STYLES.fileInput}
+          />
+          <Input
+            type='password'
+            label={TEXT.passphraseLabel}
+            value={importPassphrase}
+            onChange={e => setImportPassphrase(e.target.value)}
+            placeholder={TEXT.importPassphrasePlaceholder}
+            autoComplete='off'
+            fullWidth
+            size='sm'
+          />
+          <Button
+            onClick={handleImport}
+            disabled={!backupFile || !importPassphrase || isImporting}
+            loading={isImporting}
+            variant='secondary'
+            size='sm'
+          >
+            {TEXT.importButton}
+          </Button>
+        </div>
+      </div>
+    </Panel>
+  );
+}
@@ -1,2 +1,3 @@
 // Transactions feature exports
 export * from './routes';
+export * from './services';
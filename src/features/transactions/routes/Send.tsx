@@ -0,0 +1,232 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { isValidSuiAddress } from '@mysten/sui/utils';
+import { useZkLogin } from '@/features/auth';
+import { useNotifications } from '@/app';
+import { formatSui, parseSuiAmount } from '@/shared/lib';
+import { FaucetSection } from '@/shared/ui';
+import { SendForm } from '../ui';
+import { createTransferService, type PreparedTransfer, type TransferRequest } from '../services';
+
+// ============================================================================
+// TYPES & INTERFACES
+// ============================================================================
+
+interface TxResult {
+  digest: string;
+  status: 'success' | 'error';
+  error?: string;
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+const STYLES = {
+  notSignedIn: 'min-h-[60vh] flex items-center justify-center',
+  notSignedInContent: 'text-center space-y-4',
+  notSignedInIcon: 'w-16 h-16 bg-red-500/20 rounded-full flex items-center justify-center mx-auto',
+  notSignedInIconText: 'text-red-400 text-2xl',
+  notSignedInTitle: 'text-2xl font-bold text-white',
+  notSignedInSubtitle: 'text-white/60',
+} as const;
+
+// ============================================================================
+// COMPONENT
+// ============================================================================
+
+/**
+ * Send Component
+ *
+ * Transfer page: validates the recipient and amount, dry-runs the transfer
+ * for review (gas cost, balance changes) and executes exactly the reviewed
+ * transaction with the zkLogin session.
+ *
+ * @returns JSX element
+ */
+export default function Send() {
+  // ============================================================================
+  // HOOKS & STATE
+  // ============================================================================
+
+  const { account, ensureValidSession, client, network } = useZkLogin();
+  const { showError } = useNotifications();
+  const transfers = useMemo(() => createTransferService(), []);
+
+  const [recipient, setRecipient] = useState('');
+  const [amount, setAmount] = useState('');
+  const [recipientError, setRecipientError] = useState<string | undefined>();
+  const [amountError, setAmountError] = useState<string | undefined>();
+  const [prepared, setPrepared] = useState<PreparedTransfer | null>(null);
+  const [isPreparing, setIsPreparing] = useState(false);
+  const [isSending, setIsSending] = useState(false);
+  const [txResult, setTxResult] = useState<TxResult | null>(null);
+
+  // Network and account a dry run that is still running must match when it returns
+  const current = useRef({ network: network.id, address: account?.address });
+  current.current = { network: network.id, address: account?.address };
+
+  // ============================================================================
+  // EFFECTS
+  // ============================================================================
+
+  // A dry run is only valid for the network and account it was made on
+  useEffect(() => {
+    setPrepared(null);
+  }, [network.id, account?.address]);
+
+  // ============================================================================
+  // EVENT HANDLERS
+  // ============================================================================
+
+  const validateRecipient = (): string | null => {
+    const value = recipient.trim();
+    if (!isValidSuiAddress(value)) {
+      setRecipientError('Enter a valid Sui address (0x followed by 64 hex characters)');
+      return null;
+    }
+    return value;
+  };
+
+  const prepare = async (request: TransferRequest): Promise<PreparedTransfer | null> => {
+    const preparedOn = network.id;
+    setIsPreparing(true);
+    try {
+      const result = await transfers.prepare(request, client);
+      // Switched network or account meanwhile: the result belongs to the previous one
+      if (current.current.network !== preparedOn || current.current.address !== request.sender) {
+        return null;
+      }
+      if (!result.ok) {
+        showError(result.error);
+        return null;
+      }
+      setPrepared(result.data);
+      return result.data;
+    } finally {
+      setIsPreparing(false);
+    }
+  };
+
+  const handleRecipientChange = (value: string): void => {
+    setRecipient(value);
+    setRecipientError(undefined);
+    setPrepared(null);
+  };
+
+  const handleAmountChange = (value: string): void => {
+    setAmount(value);
+    setAmountError(undefined);
+    setPrepared(null);
+  };
+
+  const handleMax = async (): Promise<void> => {
+    const to = validateRecipient();
+    if (!to || !account) {
+      return;
+    }
+
+    setAmountError(undefined);
+    const result = await prepare({ sender: account.address, recipient: to, amount: 'max' });
+    if (result) {
+      setAmount(formatSui(result.amount));
+    }
+  };
+
+  const handleReview = async (): Promise<void> => {
+    const to = validateRecipient();
+    const parsed = parseSuiAmount(amount);
+    if (!parsed.ok) {
+      setAmountError(parsed.error.message);
+    }
+    if (!to || !parsed.ok || !account) {
+      return;
+    }
+
+    await prepare({ sender: account.address, recipient: to, amount: parsed.data });
+  };
+
+  const handleConfirm = async (): Promise<void> => {
+    if (!prepared) {
+      return;
+    }
+
+    setIsSending(true);
+    try {
+      // Redirects to sign in again when the session has expired
+      const session = await ensureValidSession();
+      if (!session) {
+        return;
+      }
+
+      const result = await transfers.execute(session, prepared, client);
+      if (!result.ok) {
+        setTxResult({ digest: '', status: 'error', error: result.error.message });
+        return;
+      }
+
+      const failure = result.data.effects?.status.error;
+      setTxResult(
+        failure
+          ? { digest: result.data.digest, status: 'error', error: failure }
+          : { digest: result.data.digest, status: 'success' }
+      );
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  const handleReset = (): void => {
+    setAmount('');
+    setPrepared(null);
+    setTxResult(null);
+  };
+
+  // ============================================================================
+  // RENDER
+  // ============================================================================
+
+  if (!account?.address) {
+    return (
+      <div className={STYLES.notSignedIn}>
+        <div className={STYLES.notSignedInContent}>
+          <div className={STYLES.notSignedInIcon}>
+            <span className={STYLES.notSignedInIconText}>🔒</span>
+          </div>
+          <h2 className={STYLES.notSignedInTitle}>Please Sign In</h2>
+          <p className={STYLES.notSignedInSubtitle}>Connect your wallet to send SUI</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className='max-w-4xl mx-auto space-y-8'>
+      <SendForm
+        address={account.address}
+        network={network}
+        recipient={recipient}
+        amount={amount}
+        recipientError={recipientError}
+        amountError={amountError}
+        prepared={prepared}
+        isPreparing={isPreparing}
+        isSending={isSending}
+        txResult={txResult}
+        onRecipientChange={handleRecipientChange}
+        onAmountChange={handleAmountChange}
+        onMax={handleMax}
+        onReview={handleReview}
+        onConfirm={handleConfirm}
+        onReset={handleReset}
+        balanceCard={
+          <FaucetSection
+            address={account.address}
+            client={client}
+            faucetUrl={network.faucetUrl}
+            title='Account Balance'
+          />
+        }
+      />
+    </div>
+  );
+}
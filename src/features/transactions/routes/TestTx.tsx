@@ -1,9 +1,11 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
 import { useZkLogin, type ZkSession } from '@/features/auth';
 import { Transaction } from '@mysten/sui/transactions';
 import type { SuiClient } from '@mysten/sui/client';
+import { getConfig, type SuiNetwork } from '@/config';
 import { FaucetSection } from '@/shared/ui';
 import { TestTransactionForm } from '../ui';
+import { createSponsorService, type SponsorService } from '../services';
 
 // ============================================================================
 // TYPES & INTERFACES
@@ -52,16 +54,10 @@ async function executeTestTx(session: ZkSession, client: SuiClient): Promise<TxR
     const [coin] = txb.splitCoins(txb.gas, [txb.pure.u64(100000)]); // 0.0001 SUI = 100000 MIST
     txb.transferObjects([coin], txb.pure.address(session.address));
 
-    // Sign the transaction using the session's signTransaction method
-    const { bytes, signature: userSignature } = await session.signTransaction(txb, client);
-
-    // Create zkLogin signature combining ephemeral signature with ZK proof
-    const zkLoginSignature = session.getSignature(userSignature);
-
-    // Execute the transaction on the blockchain
-    const result = await client.executeTransactionBlock({
-      transactionBlock: bytes,
-      signature: zkLoginSignature,
+    // Sign with the session's zkLogin signer and execute the transaction on the blockchain
+    const result = await client.signAndExecuteTransaction({
+      transaction: txb,
+      signer: session.signer,
     });
 
     return {
@@ -77,6 +73,41 @@ async function executeTestTx(session: ZkSession, client: SuiClient): Promise<TxR
   }
 }
 
+/**
+ * Execute Sponsored Test Transaction
+ *
+ * Calls `0x2::tx_context::sender` through the gas station: the sponsor pays
+ * the gas, so this works with an empty balance. The gas coin belongs to the
+ * sponsor and cannot be used, hence no transfer.
+ *
+ * @param sponsor - Sponsor service for the configured gas station
+ * @param session - Active zkLogin session with signing capabilities
+ * @param client - Sui blockchain client for RPC calls
+ * @param network - Network the transaction is sent on
+ * @param apiToken - Sign-In with Sui token, for sponsors that require one
+ * @returns Transaction execution result
+ */
+async function executeSponsoredTestTx(
+  sponsor: SponsorService,
+  session: ZkSession,
+  client: SuiClient,
+  network: SuiNetwork,
+  apiToken?: string
+): Promise<TxResult> {
+  const txb = new Transaction();
+  txb.moveCall({ target: '0x2::tx_context::sender' });
+
+  const result = await sponsor.sponsorAndExecute(session, txb, client, network, { apiToken });
+  if (!result.ok) {
+    return { digest: '', status: 'error', error: result.error.message };
+  }
+
+  const failure = result.data.effects?.status.error;
+  return failure
+    ? { digest: result.data.digest, status: 'error', error: failure }
+    : { digest: result.data.digest, status: 'success' };
+}
+
 // ============================================================================
 // COMPONENT
 // ============================================================================
@@ -94,12 +125,19 @@ export default function TestTx() {
   // HOOKS & STATE
   // ============================================================================
 
-  const { account, ensureValidSession, client } = useZkLogin();
+  const { account, ensureValidSession, signInWithSui, client, network } = useZkLogin();
   const [isSending, setIsSending] = useState(false);
   const [txResult, setTxResult] = useState<TxResult | null>(null);
   const [balance, setBalance] = useState<string | null>(null);
   const [balanceLoading, setBalanceLoading] = useState(false);
 
+  // Gas station (VITE_SPONSOR_URL); sponsors may require a Sign-In with Sui token
+  const sponsor = useMemo(() => createSponsorService(), []);
+  const siwsConfigured = useMemo(() => {
+    const configResult = getConfig();
+    return configResult.ok && !!configResult.data.siwsUrl;
+  }, []);
+
   // ============================================================================
   // EFFECTS
   // ============================================================================
@@ -171,6 +209,47 @@ export default function TestTx() {
     }
   };
 
+  const handleSendSponsoredTransaction = async (): Promise<void> => {
+    if (!sponsor) {
+      return;
+    }
+
+    setIsSending(true);
+    setTxResult(null);
+
+    try {
+      const session = await ensureValidSession();
+      if (!session) {
+        setTxResult({
+          digest: '',
+          status: 'error',
+          error: 'Session expired. Please complete the login process.',
+        });
+        return;
+      }
+
+      let apiToken: string | undefined;
+      if (siwsConfigured) {
+        const token = await signInWithSui();
+        if (!token.ok) {
+          setTxResult({ digest: '', status: 'error', error: token.error.message });
+          return;
+        }
+        apiToken = token.data.token;
+      }
+
+      setTxResult(await executeSponsoredTestTx(sponsor, session, client, network.id, apiToken));
+    } catch (error) {
+      setTxResult({
+        digest: '',
+        status: 'error',
+        error: 'Transaction failed: ' + (error as Error).message,
+      });
+    } finally {
+      setIsSending(false);
+    }
+  };
+
   // ============================================================================
   // RENDER
   // ============================================================================
@@ -193,13 +272,16 @@ export default function TestTx() {
     <div className='max-w-4xl mx-auto space-y-8'>
       <TestTransactionForm
         address={account.address}
+        network={network}
         isSending={isSending}
         txResult={txResult}
         onSendTransaction={handleSendTransaction}
+        onSendSponsoredTransaction={sponsor ? handleSendSponsoredTransaction : undefined}
         balanceCard={
           <FaucetSection
             address={account.address}
             client={client}
+            faucetUrl={network.faucetUrl}
             title='Account Balance'
             onBalanceUpdate={newBalance => setBalance(newBalance)}
           />
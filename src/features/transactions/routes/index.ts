@@ -1,2 +1,3 @@
 // Transactions routes exports
 export { default as TestTx } from './TestTx';
+export { default as Send } from './Send';
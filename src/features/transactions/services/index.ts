@@ -0,0 +1,5 @@
+// Transactions services exports
+export { SponsorService, createSponsorService } from './sponsorService';
+export type { SponsorOptions } from './sponsorService';
+export { TransferService, createTransferService } from './transferService';
+export type { TransferRequest, PreparedTransfer, BalanceChange } from './transferService';
@@ -0,0 +1,203 @@
+import { z } from 'zod';
+import { bcs } from '@mysten/sui/bcs';
+import type { SuiClient, SuiTransactionBlockResponse } from '@mysten/sui/client';
+import type { Transaction } from '@mysten/sui/transactions';
+import { fromBase64, normalizeSuiAddress, toBase64 } from '@mysten/sui/utils';
+import type { ZkSession } from '@/features/auth';
+import { getConfig, type SuiNetwork } from '@/config';
+import { Result, ok, err, isErr } from '@/shared/lib';
+import { createAppError, type AppError } from '@/shared/lib';
+import { httpClient } from '@/shared/lib';
+
+const sponsoredSchema = z.object({
+    bytes: z.string().min(1),
+    signature: z.string().min(1),
+    sponsor: z.string().min(1),
+    gasBudget: z.string(),
+});
+
+export interface SponsorOptions {
+    // API token from Sign-In with Sui, for sponsors that require one
+    apiToken?: string;
+}
+
+/**
+ * Sponsor Service - Gasless Transactions Through a Gas Station
+ *
+ * Lets users without SUI send transactions: the sponsor pays the gas
+ * (reference server: `server/sponsor-server`).
+ *
+ * 1. Build the transaction kind only (commands and inputs, no gas data)
+ * 2. `POST {sponsorUrl}/sponsor` → full transaction bytes with the sponsor as
+ *    gas owner, signed by the sponsor
+ * 3. Sign the same bytes with the zkLogin session and execute with both signatures
+ *
+ * 🛡️ CHECKS BEFORE SIGNING:
+ * The returned transaction must have this session as sender, the exact kind
+ * that was sent and the sponsor (not the sender) as gas owner, paying with
+ * none of the sender's coins, so the sponsor cannot change what is executed
+ * or make the user pay for gas.
+ *
+ * Transactions must not use `tx.gas` (the gas coin belongs to the sponsor);
+ * the reference server also only sponsors calls into allowed packages.
+ *
+ * @example
+ * ```typescript
+ * const sponsor = createSponsorService();
+ * const result = await sponsor?.sponsorAndExecute(session, tx, client, network.id);
+ * if (result?.ok) console.log('Executed', result.data.digest);
+ * ```
+ */
+export class SponsorService {
+    private readonly baseUrl: string;
+
+    constructor(baseUrl: string) {
+        this.baseUrl = baseUrl.replace(/\/+$/, '');
+    }
+
+    /**
+     * Get a transaction sponsored, sign it and execute it
+     *
+     * @param session - Active zkLogin session (sender of the transaction)
+     * @param transaction - Transaction to send; its sender is set to the session address
+     * @param client - Sui client of the active network
+     * @param network - Network the transaction is executed on
+     * @param options - API token for sponsors that require Sign-In with Sui
+     * @returns Result with the execution response, or the sponsor's error (Forbidden for policy violations)
+     */
+    async sponsorAndExecute(
+        session: ZkSession,
+        transaction: Transaction,
+        client: SuiClient,
+        network: SuiNetwork,
+        options: SponsorOptions = {}
+    ): Promise<Result<SuiTransactionBlockResponse, AppError>> {
+        let kindBytes: Uint8Array;
+        try {
+            transaction.setSender(session.address);
+            kindBytes = await transaction.build({ client, onlyTransactionKind: true });
+        } catch (error) {
+            return err(createAppError('Validation', 'Failed to build the transaction', {
+                cause: error,
+                details: { step: 'build' }
+            }));
+        }
+
+        const response = await httpClient.post<unknown>(`${this.baseUrl}/sponsor`, {
+            sender: session.address,
+            network,
+            transactionKindBytes: toBase64(kindBytes),
+        }, options.apiToken ? { headers: { Authorization: `Bearer ${options.apiToken}` } } : undefined);
+        if (isErr(response)) {
+            return err(wrapError(response.error));
+        }
+
+        const sponsored = sponsoredSchema.safeParse(response.data);
+        if (!sponsored.success) {
+            return err(createAppError('Server', 'Sponsor returned an invalid response', {
+                cause: sponsored.error,
+                details: { step: 'sponsor' }
+            }));
+        }
+
+        const bytes = fromBase64(sponsored.data.bytes);
+        const problem = await checkSponsoredTransaction(bytes, {
+            sender: session.address,
+            sponsor: sponsored.data.sponsor,
+            kindBytes,
+        }, client);
+        if (problem) {
+            return err(createAppError('Validation', `Refusing to sign the sponsored transaction: ${problem}`, {
+                details: { step: 'sponsor', sponsor: sponsored.data.sponsor }
+            }));
+        }
+
+        try {
+            const { signature } = await session.signer.signTransaction(bytes);
+            const result = await client.executeTransactionBlock({
+                transactionBlock: bytes,
+                signature: [signature, sponsored.data.signature],
+                options: { showEffects: true },
+            });
+            return ok(result);
+        } catch (error) {
+            return err(createAppError('Network', 'Failed to execute the sponsored transaction', {
+                cause: error,
+                details: { step: 'execute', gasBudget: sponsored.data.gasBudget }
+            }));
+        }
+    }
+}
+
+/**
+ * Check that the sponsor returned the transaction that was asked for
+ *
+ * @returns What is wrong with the transaction, or null when it can be signed
+ */
+async function checkSponsoredTransaction(
+    bytes: Uint8Array,
+    expected: { sender: string; sponsor: string; kindBytes: Uint8Array },
+    client: SuiClient
+): Promise<string | null> {
+    let data: ReturnType<typeof bcs.TransactionData.parse>['V1'];
+    try {
+        data = bcs.TransactionData.parse(bytes).V1;
+    } catch {
+        return 'it is not a valid transaction';
+    }
+
+    const sender = normalizeSuiAddress(expected.sender);
+    const gasOwner = normalizeSuiAddress(data.gasData.owner);
+    if (normalizeSuiAddress(data.sender) !== sender) {
+        return 'it has another sender';
+    }
+    if (gasOwner !== normalizeSuiAddress(expected.sponsor) || gasOwner === sender) {
+        return 'its gas is not paid by the sponsor';
+    }
+    if (toBase64(bcs.TransactionKind.serialize(data.kind).toBytes()) !== toBase64(expected.kindBytes)) {
+        return 'its commands differ from the transaction that was sent';
+    }
+
+    // The gas owner is checked, but not whose coins pay: none may be the sender's
+    try {
+        const coins = await client.multiGetObjects({
+            ids: data.gasData.payment.map(coin => coin.objectId),
+            options: { showOwner: true },
+        });
+        const paidBySender = coins.some(coin => {
+            const owner = coin.data?.owner;
+            return typeof owner === 'object' && owner !== null && 'AddressOwner' in owner
+                && normalizeSuiAddress(owner.AddressOwner) === sender;
+        });
+        if (paidBySender) {
+            return 'its gas is paid with your coins';
+        }
+    } catch {
+        return 'its gas payment could not be checked';
+    }
+    return null;
+}
+
+function wrapError(error: AppError): AppError {
+    // Forbidden keeps a generic message; the sponsor's reason is in the body
+    const reason = (error.details as { error?: unknown } | undefined)?.error;
+    const message = typeof reason === 'string' ? reason : error.message;
+    return createAppError(error.kind, `Sponsorship failed: ${message}`, {
+        cause: error,
+        status: error.status,
+        details: { step: 'sponsor' }
+    });
+}
+
+/**
+ * Factory function to create the sponsor service from the configuration
+ *
+ * @returns Sponsor service instance, or null when `VITE_SPONSOR_URL` is not set
+ */
+export function createSponsorService(): SponsorService | null {
+    const configResult = getConfig();
+    if (!configResult.ok || !configResult.data.sponsorUrl) {
+        return null;
+    }
+    return new SponsorService(configResult.data.sponsorUrl);
+}
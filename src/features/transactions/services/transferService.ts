@@ -0,0 +1,187 @@
+import type { ObjectOwner, SuiClient, SuiTransactionBlockResponse } from '@mysten/sui/client';
+import { Transaction } from '@mysten/sui/transactions';
+import { isValidSuiAddress, normalizeStructTag, normalizeSuiAddress, SUI_TYPE_ARG } from '@mysten/sui/utils';
+import type { ZkSession } from '@/features/auth';
+import { Result, ok, err } from '@/shared/lib';
+import { createAppError, type AppError } from '@/shared/lib';
+
+export interface TransferRequest {
+    sender: string;
+    recipient: string;
+    // Amount in MIST, or 'max' to send the whole balance minus gas
+    amount: bigint | 'max';
+}
+
+export interface BalanceChange {
+    address: string;
+    // MIST, negative when the address pays
+    amount: bigint;
+}
+
+export interface PreparedTransfer {
+    sender: string;
+    recipient: string;
+    // Amount the recipient receives (for 'max': balance minus the estimated gas)
+    amount: bigint;
+    // Net gas cost from the dry run (computation + storage - rebate)
+    gasCost: bigint;
+    gasBudget: bigint;
+    // SUI balance changes from the dry run
+    balanceChanges: BalanceChange[];
+    // Exact bytes that were dry-run; these are signed and executed
+    bytes: Uint8Array;
+}
+
+/**
+ * Transfer Service - Send SUI With a Dry Run First
+ *
+ * Two steps, so the user sees the outcome before signing:
+ *
+ * 1. `prepare` validates the recipient, builds the transfer and dry-runs it,
+ *    returning the gas cost and balance changes
+ * 2. `execute` signs exactly the prepared bytes with the zkLogin session and
+ *    executes them
+ *
+ * 'max' transfers the gas coin itself (`transferObjects([tx.gas])`): all SUI
+ * coins are merged into it and what is left after gas goes to the recipient,
+ * so no amount has to be guessed.
+ *
+ * @example
+ * ```typescript
+ * const transfers = createTransferService();
+ * const prepared = await transfers.prepare({ sender, recipient, amount: 'max' }, client);
+ * if (prepared.ok) await transfers.execute(session, prepared.data, client);
+ * ```
+ */
+export class TransferService {
+    /**
+     * Build and dry-run a SUI transfer
+     *
+     * @param request - Sender, recipient and amount
+     * @param client - Sui client of the active network
+     * @returns Result with the prepared transfer; a Validation error for bad input,
+     *   an insufficient balance or a failing dry run
+     */
+    async prepare(request: TransferRequest, client: SuiClient): Promise<Result<PreparedTransfer, AppError>> {
+        if (!isValidSuiAddress(request.recipient)) {
+            return err(createAppError('Validation', 'Recipient is not a valid Sui address', {
+                details: { recipient: request.recipient }
+            }));
+        }
+        const recipient = normalizeSuiAddress(request.recipient);
+
+        let balance: bigint;
+        try {
+            balance = BigInt((await client.getBalance({ owner: request.sender })).totalBalance);
+        } catch (error) {
+            return err(createAppError('Network', 'Failed to load the balance', {
+                cause: error,
+                details: { step: 'getBalance' }
+            }));
+        }
+        if (balance === 0n || (request.amount !== 'max' && request.amount >= balance)) {
+            return err(createAppError('Validation', 'Insufficient balance for this amount and gas', {
+                details: { balance: balance.toString() }
+            }));
+        }
+
+        const transaction = new Transaction();
+        transaction.setSender(request.sender);
+        if (request.amount === 'max') {
+            transaction.transferObjects([transaction.gas], recipient);
+        } else {
+            const [coin] = transaction.splitCoins(transaction.gas, [request.amount]);
+            transaction.transferObjects([coin], recipient);
+        }
+
+        let bytes: Uint8Array;
+        try {
+            // Selects gas coins and estimates the budget with a dry run
+            bytes = await transaction.build({ client });
+        } catch (error) {
+            return err(createAppError('Validation', `Transfer cannot be built: ${(error as Error).message}`, {
+                cause: error,
+                details: { step: 'build' }
+            }));
+        }
+
+        try {
+            const dryRun = await client.dryRunTransactionBlock({ transactionBlock: bytes });
+            if (dryRun.effects.status.status !== 'success') {
+                return err(createAppError('Validation', `Transfer would fail: ${dryRun.effects.status.error}`, {
+                    details: { step: 'dryRun' }
+                }));
+            }
+
+            const { computationCost, storageCost, storageRebate } = dryRun.effects.gasUsed;
+            const gasCost = BigInt(computationCost) + BigInt(storageCost) - BigInt(storageRebate);
+            const balanceChanges = dryRun.balanceChanges
+                .filter(change => normalizeStructTag(change.coinType) === normalizeStructTag(SUI_TYPE_ARG))
+                .map(change => ({
+                    address: getOwnerAddress(change.owner),
+                    amount: BigInt(change.amount),
+                }));
+
+            return ok({
+                sender: request.sender,
+                recipient,
+                amount: request.amount === 'max' ? balance - gasCost : request.amount,
+                gasCost,
+                gasBudget: BigInt(dryRun.input.gasData.budget),
+                balanceChanges,
+                bytes,
+            });
+        } catch (error) {
+            return err(createAppError('Network', 'Failed to dry-run the transfer', {
+                cause: error,
+                details: { step: 'dryRun' }
+            }));
+        }
+    }
+
+    /**
+     * Sign and execute a prepared transfer
+     *
+     * @param session - Active zkLogin session of the sender
+     * @param prepared - Result of `prepare`
+     * @param client - Sui client of the network it was prepared on
+     * @returns Result with the execution response (check `effects.status` for on-chain failures)
+     */
+    async execute(session: ZkSession, prepared: PreparedTransfer, client: SuiClient): Promise<Result<SuiTransactionBlockResponse, AppError>> {
+        if (normalizeSuiAddress(session.address) !== normalizeSuiAddress(prepared.sender)) {
+            return err(createAppError('Validation', 'The transfer was prepared for another account', {
+                details: { sender: prepared.sender }
+            }));
+        }
+
+        try {
+            const { signature } = await session.signer.signTransaction(prepared.bytes);
+            const result = await client.executeTransactionBlock({
+                transactionBlock: prepared.bytes,
+                signature,
+                options: { showEffects: true },
+            });
+            return ok(result);
+        } catch (error) {
+            return err(createAppError('Network', 'Failed to execute the transfer', {
+                cause: error,
+                details: { step: 'execute' }
+            }));
+        }
+    }
+}
+
+function getOwnerAddress(owner: ObjectOwner): string {
+    if (typeof owner === 'object' && 'AddressOwner' in owner) {
+        return owner.AddressOwner;
+    }
+    if (typeof owner === 'object' && 'ObjectOwner' in owner) {
+        return owner.ObjectOwner;
+    }
+    return 'shared';
+}
+
+// Factory function to create service instance
+export function createTransferService(): TransferService {
+    return new TransferService();
+}
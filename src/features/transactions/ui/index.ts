@@ -1,2 +1,3 @@
 // Transactions Feature UI Components
 export { default as TestTransactionForm } from './organisms/TestTransactionForm';
+export { default as SendForm } from './organisms/SendForm';
@@ -0,0 +1,204 @@
+import React from 'react';
+import { Button, Input, Panel } from '@/shared/ui/atoms';
+import { TransactionDetails, TransactionResult } from '@/shared/ui/molecules';
+import { formatSui, getExplorerTxUrl, type SuiNetworkDefinition } from '@/shared/lib';
+import type { PreparedTransfer } from '../../services';
+
+// ============================================================================
+// TYPES & INTERFACES
+// ============================================================================
+
+interface SendFormProps {
+  /** Sender address */
+  address: string;
+  /** Network the transfer is sent on */
+  network: SuiNetworkDefinition;
+  /** Recipient input value */
+  recipient: string;
+  /** Amount input value (SUI) */
+  amount: string;
+  /** Validation error for the recipient */
+  recipientError?: string;
+  /** Validation error for the amount */
+  amountError?: string;
+  /** Dry-run result, shown for review before signing */
+  prepared: PreparedTransfer | null;
+  /** Whether the dry run is in progress */
+  isPreparing: boolean;
+  /** Whether the transfer is being signed and executed */
+  isSending: boolean;
+  /** Execution result */
+  txResult?: {
+    digest: string;
+    status: 'success' | 'error';
+    error?: string;
+  } | null;
+  /** Callback when the recipient changes */
+  onRecipientChange: (value: string) => void;
+  /** Callback when the amount changes */
+  onAmountChange: (value: string) => void;
+  /** Callback to send the whole balance minus gas */
+  onMax: () => void;
+  /** Callback to dry-run the transfer */
+  onReview: () => void;
+  /** Callback to sign and execute the reviewed transfer */
+  onConfirm: () => void;
+  /** Callback to start a new transfer */
+  onReset: () => void;
+  /** Balance card component to display under the header */
+  balanceCard?: React.ReactNode;
+  /** Additional CSS classes */
+  className?: string;
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+const STYLES = {
+  container: 'space-y-8',
+  header: 'text-center space-y-4',
+  title: 'text-4xl font-bold gradient-text',
+  subtitle: 'text-white/70',
+  form: 'space-y-4',
+  amountRow: 'flex items-end gap-2',
+  actions: 'flex justify-center gap-3 pt-2',
+  note: 'text-xs text-white/50 text-center',
+} as const;
+
+// ============================================================================
+// COMPONENT
+// ============================================================================
+
+/**
+ * SendForm Component
+ *
+ * Transfer form: recipient and amount, a dry-run review with gas cost and
+ * balance changes, then confirmation and the execution result.
+ *
+ * @param props - Component props
+ * @returns JSX element
+ */
+export default function SendForm({
+  address,
+  network,
+  recipient,
+  amount,
+  recipientError,
+  amountError,
+  prepared,
+  isPreparing,
+  isSending,
+  txResult,
+  onRecipientChange,
+  onAmountChange,
+  onMax,
+  onReview,
+  onConfirm,
+  onReset,
+  balanceCard,
+  className = '',
+}: SendFormProps) {
+  // ============================================================================
+  // RENDER
+  // ============================================================================
+
+  const isBusy = isPreparing || isSending;
+
+  return (
+    <div className={`${STYLES.container} ${className}`}>
+      {/* Header */}
+      <div className={STYLES.header}>
+        <h1 className={STYLES.title}>Send SUI</h1>
+        <p className={STYLES.subtitle}>Transfer SUI to any address on {network.name}</p>
+      </div>
+
+      {/* Balance Card */}
+      {balanceCard && <div className='mb-8'>{balanceCard}</div>}
+
+      <Panel variant='glass' size='lg'>
+        {txResult ? (
+          <div className={STYLES.form}>
+            <TransactionResult
+              txHash={txResult.digest}
+              status={txResult.status}
+              errorMessage={txResult.error}
+              successMessage='Your transfer has been executed on the Sui blockchain.'
+              explorerUrl={getExplorerTxUrl(network, txResult.digest) ?? undefined}
+            />
+            <div className={STYLES.actions}>
+              <Button onClick={onReset} variant='secondary'>
+                New Transfer
+              </Button>
+            </div>
+          </div>
+        ) : (
+          <div className={STYLES.form}>
+            <Input
+              label='Recipient'
+              value={recipient}
+              onChange={e => onRecipientChange(e.target.value)}
+              error={recipientError}
+              placeholder='0x...'
+              disabled={isBusy}
+              fullWidth
+            />
+            <div className={STYLES.amountRow}>
+              <div className='flex-1'>
+                <Input
+                  label='Amount (SUI)'
+                  value={amount}
+                  onChange={e => onAmountChange(e.target.value)}
+                  error={amountError}
+                  placeholder='0.0'
+                  inputMode='decimal'
+                  disabled={isBusy}
+                  fullWidth
+                />
+              </div>
+              <Button onClick={onMax} disabled={isBusy || !recipient} variant='ghost'>
+                Max
+              </Button>
+            </div>
+
+            {/* Dry-run review */}
+            {prepared && (
+              <TransactionDetails
+                network={network.name}
+                fromAddress={address}
+                toAddress={prepared.recipient}
+                amount={`${formatSui(prepared.amount)} SUI`}
+                authMethod='zkLogin'
+                gasCost={`${formatSui(prepared.gasCost)} SUI`}
+                balanceChanges={prepared.balanceChanges.map(change => ({
+                  address: change.address,
+                  amount: `${change.amount > 0n ? '+' : ''}${formatSui(change.amount)} SUI`,
+                }))}
+              />
+            )}
+
+            <div className={STYLES.actions}>
+              {prepared ? (
+                <Button onClick={onConfirm} disabled={isBusy} loading={isSending} variant='primary'>
+                  Confirm & Send
+                </Button>
+              ) : (
+                <Button
+                  onClick={onReview}
+                  disabled={isBusy || !recipient || !amount}
+                  loading={isPreparing}
+                  variant='primary'
+                >
+                  Review Transfer
+                </Button>
+              )}
+            </div>
+            <p className={STYLES.note}>
+              The transfer is simulated first; nothing is signed until you confirm.
+            </p>
+          </div>
+        )}
+      </Panel>
+    </div>
+  );
+}
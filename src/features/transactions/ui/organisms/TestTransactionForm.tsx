@@ -1,6 +1,7 @@
 import React, { useState } from 'react';
 import { Button, LoadingSpinner, Panel } from '@/shared/ui/atoms';
 import { TransactionDetails, TransactionResult } from '@/shared/ui/molecules';
+import { getExplorerTxUrl, type SuiNetworkDefinition } from '@/shared/lib';
 
 // ============================================================================
 // TYPES & INTERFACES
@@ -9,6 +10,8 @@ import { TransactionDetails, TransactionResult } from '@/shared/ui/molecules';
 interface TestTransactionFormProps {
   /** User account address */
   address: string;
+  /** Network the transaction is sent on */
+  network: SuiNetworkDefinition;
   /** Whether transaction is being sent */
   isSending: boolean;
   /** Transaction result */
@@ -19,6 +22,8 @@ interface TestTransactionFormProps {
   } | null;
   /** Callback when transaction is initiated */
   onSendTransaction: () => void;
+  /** Callback for the gasless transaction, shown when a sponsor is configured */
+  onSendSponsoredTransaction?: () => void;
   /** Balance card component to display under the header */
   balanceCard?: React.ReactNode;
   /** Additional CSS classes */
@@ -67,9 +72,11 @@ const STYLES = {
  */
 export default function TestTransactionForm({
   address,
+  network,
   isSending,
   txResult,
   onSendTransaction,
+  onSendSponsoredTransaction,
   balanceCard,
   className = '',
 }: TestTransactionFormProps) {
@@ -113,7 +120,7 @@ export default function TestTransactionForm({
 
           {/* Transaction Details */}
           <TransactionDetails
-            network='Sui Devnet'
+            network={network.name}
             fromAddress={address}
             toAddress={address}
             amount='0.0001 SUI'
@@ -128,14 +135,14 @@ export default function TestTransactionForm({
               status={txResult.status}
               errorMessage={txResult.error}
               successMessage='Your test transaction has been sent successfully on the Sui blockchain.'
-              explorerUrl={`https://suiscan.xyz/devnet/tx/${txResult.digest}`}
+              explorerUrl={getExplorerTxUrl(network, txResult.digest) ?? undefined}
               className='mb-8'
             />
           )}
 
           {/* Send Button */}
           {!txResult && (
-            <div className='mb-8 flex justify-center'>
+            <div className='mb-8 flex flex-col items-center gap-4'>
               <Button onClick={onSendTransaction} disabled={isSending} variant='hero'>
                 {isSending ? (
                   <div className='flex items-center gap-3'>
@@ -149,12 +156,24 @@ export default function TestTransactionForm({
                   </div>
                 )}
               </Button>
+              {onSendSponsoredTransaction && (
+                <Button
+                  onClick={onSendSponsoredTransaction}
+                  disabled={isSending}
+                  variant='secondary'
+                  size='sm'
+                >
+                  ⛽ Send Gasless Transaction (sponsored)
+                </Button>
+              )}
             </div>
           )}
 
           {/* Disclaimer */}
           <div className={STYLES.disclaimer}>
             This is a test transaction. 0.0001 SUI will be sent from your account to itself.
+            {onSendSponsoredTransaction &&
+              ' The gasless transaction only reads your address on-chain; the sponsor pays its gas.'}
           </div>
         </div>
       </Panel>
@@ -4,7 +4,7 @@ import { createBrowserRouter, RouterProvider } from 'react-router-dom';
 import './index.css';
 import { AppLayout, Home, ErrorBoundary, NotificationProvider } from '@/app';
 import { Profile } from '@/features/profile';
-import { TestTx } from '@/features/transactions';
+import { Send, TestTx } from '@/features/transactions';
 import { UIGallery } from '@/features/gallery';
 import { AuthCallback, ZkLoginProvider } from '@/features/auth';
 
@@ -22,6 +22,7 @@ const router = createBrowserRouter([
     children: [
       { index: true, element: <Home /> }, // Landing page
       { path: 'profile', element: <Profile /> }, // User profile
+      { path: 'send', element: <Send /> }, // SUI transfers
       { path: 'test_tx', element: <TestTx /> }, // Transaction testing
       { path: 'gallery', element: <UIGallery /> }, // UI component gallery
     ],
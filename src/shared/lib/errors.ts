@@ -18,7 +18,10 @@ export type AppErrorKind =
   | 'ZkLogin'
   | 'OAuth'
   | 'SaltService'
-  | 'JWT';
+  | 'JWT'
+  | 'SessionExpired'     // zkLogin session past maxEpoch
+  | 'ProverUnavailable'  // prover unreachable, timing out or failing
+  | 'NonceMismatch';     // id_token nonce does not match this login's ephemeral key
 
 export type AppError = {
   kind: AppErrorKind;
@@ -81,3 +84,90 @@ export function toAppError(error: unknown, fallbackMessage = 'An unexpected erro
 
   return createAppError('Unknown', fallbackMessage, { cause: error });
 }
+
+/**
+ * What the user can do about an error
+ * - signIn: start a new sign-in
+ * - retry: try the same operation again
+ * - none: nothing to do from the app
+ */
+export type RemediationAction = 'signIn' | 'retry' | 'none';
+
+export type ErrorRemediation = {
+  title: string;
+  hint: string;
+  action: RemediationAction;
+};
+
+const REMEDIATIONS: Partial<Record<AppErrorKind, ErrorRemediation>> = {
+  SessionExpired: {
+    title: 'Session expired',
+    hint: 'Your zkLogin session reached its last epoch. Sign in again with the same account to keep your address.',
+    action: 'signIn',
+  },
+  ProverUnavailable: {
+    title: 'Prover unavailable',
+    hint: 'The proving service did not respond. Try again in a moment, or check the prover configured for this network.',
+    action: 'retry',
+  },
+  NonceMismatch: {
+    title: 'Sign-in does not match',
+    hint: 'This sign-in response belongs to another login attempt (another tab or an older sign-in). Start the sign-in again from this tab.',
+    action: 'signIn',
+  },
+  JWT: {
+    title: 'Invalid sign-in token',
+    hint: 'The token from your sign-in provider could not be verified. Sign in again; if it keeps failing, check your device clock.',
+    action: 'signIn',
+  },
+  OAuth: {
+    title: 'Sign-in not completed',
+    hint: 'The sign-in provider did not complete the sign-in. Start it again.',
+    action: 'signIn',
+  },
+  Unauthorized: {
+    title: 'Sign-in required',
+    hint: 'Sign in again to continue.',
+    action: 'signIn',
+  },
+  SaltService: {
+    title: 'Salt service unavailable',
+    hint: 'Your salt could not be fetched, so your address cannot be derived. Try again in a moment.',
+    action: 'retry',
+  },
+  Network: {
+    title: 'Connection problem',
+    hint: 'Check your internet connection and try again.',
+    action: 'retry',
+  },
+  Timeout: {
+    title: 'Request timed out',
+    hint: 'The service took too long to answer. Try again.',
+    action: 'retry',
+  },
+  RateLimited: {
+    title: 'Too many requests',
+    hint: 'Wait a minute before trying again.',
+    action: 'retry',
+  },
+  Server: {
+    title: 'Service error',
+    hint: 'A service failed to answer. Try again later.',
+    action: 'retry',
+  },
+};
+
+const DEFAULT_REMEDIATION: ErrorRemediation = {
+  title: 'Something went wrong',
+  hint: 'Try again. If the problem persists, sign in again.',
+  action: 'retry',
+};
+
+/**
+ * Describe what the user can do about an error, based on its kind
+ *
+ * The error's own message says what failed; the remediation says what to do next.
+ */
+export function getErrorRemediation(error: AppError): ErrorRemediation {
+  return REMEDIATIONS[error.kind] ?? DEFAULT_REMEDIATION;
+}
@@ -151,6 +151,46 @@ function getDefaultMessage(status: number): string {
   return messages[status] || 'Request failed';
 }
 
+export interface RetryOptions {
+  /** Attempts after the first one */
+  retries: number;
+  /** Delay before the first retry, doubled for each further retry */
+  baseDelayMs: number;
+  /** Which errors are worth another attempt (default: isRetryableError) */
+  shouldRetry?: (error: AppError) => boolean;
+}
+
+/**
+ * Errors that may succeed on another attempt: network errors, timeouts,
+ * rate limiting and server errors
+ */
+export function isRetryableError(error: AppError): boolean {
+  return ['Network', 'Timeout', 'RateLimited', 'Server'].includes(error.kind);
+}
+
+/**
+ * Run a request again with exponential backoff (and jitter) while it fails
+ * with a retryable error
+ *
+ * @param request - Request to run, called once per attempt
+ * @param options - Number of retries and backoff
+ * @returns Result of the last attempt
+ */
+export async function withRetry<T>(
+  request: () => Promise<Result<T>>,
+  options: RetryOptions
+): Promise<Result<T>> {
+  const shouldRetry = options.shouldRetry ?? isRetryableError;
+  let result = await request();
+
+  for (let attempt = 0; attempt < options.retries && !result.ok && shouldRetry(result.error); attempt++) {
+    const delayMs = options.baseDelayMs * 2 ** attempt;
+    await new Promise(resolve => setTimeout(resolve, delayMs / 2 + Math.random() * (delayMs / 2)));
+    result = await request();
+  }
+  return result;
+}
+
 /**
  * Convenience methods for common HTTP methods
  */
@@ -3,3 +3,6 @@ export * from './errors';
 export * from './http';
 export * from './result';
 export * from './sui/client';
+export * from './sui/networks';
+export * from './sui/amount';
+export * from './secureStorage';
@@ -0,0 +1,28 @@
+import { getConfig } from '@/config';
+import { createPrefixedStorage, createSecureStorage, type SecureStorage } from '@/shared/utils';
+import { getActiveNetwork } from './sui/client';
+
+// Create secure storage for the configured backend
+const configResult = getConfig();
+if (!configResult.ok) {
+  throw new Error(`Configuration failed: ${configResult.error.message}`);
+}
+
+const storage = createSecureStorage(configResult.data.secureStorage);
+
+// Keys are scoped to the active Sui network (`devnet:zk_jwt_token`): epochs differ
+// between networks, so each one keeps its own sessions and accounts
+const networkStorage = createPrefixedStorage(storage, () => `${getActiveNetwork().id}:`);
+
+// Except the salt kept per identity and the backend salt cache: an identity keeps
+// its salt, and so its address, on every network. The active account's
+// `zk_user_salt` belongs to the network's session like the rest of it.
+const isSharedKey = (key: string): boolean =>
+  key.startsWith('zk_identity_salt_') || key === 'zk_salt_cache';
+
+export const secureStorage: SecureStorage = {
+  kind: storage.kind,
+  getItem: key => (isSharedKey(key) ? storage : networkStorage).getItem(key),
+  setItem: (key, value) => (isSharedKey(key) ? storage : networkStorage).setItem(key, value),
+  removeItem: key => (isSharedKey(key) ? storage : networkStorage).removeItem(key),
+};
@@ -0,0 +1,70 @@
+import { MIST_PER_SUI, SUI_DECIMALS } from '@mysten/sui/utils';
+import { createAppError, type AppError } from '../errors';
+import { err, ok, type Result } from '../result';
+
+/**
+ * SUI Amounts
+ *
+ * Converts between user-entered SUI amounts and MIST (1 SUI = 10^9 MIST)
+ * with bigint arithmetic only, so large balances and 9 decimals never lose
+ * precision the way `Number(balance) / 1e9` does.
+ *
+ * @example
+ * ```typescript
+ * const amount = parseSuiAmount('1.5'); // ok(1500000000n)
+ * formatSui(1500000000n); // '1.5'
+ * ```
+ */
+
+const AMOUNT_PATTERN = /^(\d+)(?:\.(\d*))?$|^\.(\d+)$/;
+
+/**
+ * Parse a SUI amount typed by the user into MIST
+ *
+ * @param input - Decimal amount in SUI (`1`, `0.5`, `.25`)
+ * @returns Result with the amount in MIST; a Validation error for malformed,
+ *   zero or over-precise (more than 9 decimals) amounts
+ */
+export function parseSuiAmount(input: string): Result<bigint, AppError> {
+  const match = AMOUNT_PATTERN.exec(input.trim());
+  if (!match) {
+    return err(
+      createAppError('Validation', 'Enter an amount like 1 or 0.5', { details: { input } })
+    );
+  }
+
+  const whole = match[1] ?? '0';
+  const fraction = match[2] ?? match[3] ?? '';
+  if (fraction.length > SUI_DECIMALS) {
+    return err(
+      createAppError('Validation', `SUI has at most ${SUI_DECIMALS} decimals`, {
+        details: { input },
+      })
+    );
+  }
+
+  const mist = BigInt(whole) * MIST_PER_SUI + BigInt(fraction.padEnd(SUI_DECIMALS, '0'));
+  if (mist === 0n) {
+    return err(
+      createAppError('Validation', 'Amount must be greater than zero', { details: { input } })
+    );
+  }
+  return ok(mist);
+}
+
+/**
+ * Format MIST as a SUI amount without trailing zeros
+ *
+ * @param mist - Amount in MIST (negative for outgoing balance changes)
+ * @returns Decimal SUI amount, e.g. `1.5` or `-0.001`
+ */
+export function formatSui(mist: bigint): string {
+  const sign = mist < 0n ? '-' : '';
+  const absolute = mist < 0n ? -mist : mist;
+  const whole = absolute / MIST_PER_SUI;
+  const fraction = (absolute % MIST_PER_SUI)
+    .toString()
+    .padStart(SUI_DECIMALS, '0')
+    .replace(/0+$/, '');
+  return `${sign}${whole}${fraction ? `.${fraction}` : ''}`;
+}
@@ -1,12 +1,90 @@
-import { SuiClient } from '@mysten/sui/client'
-import { getConfig } from '@/config'
+import { SuiClient } from '@mysten/sui/client';
+import { getConfig, type SuiNetwork } from '@/config';
+import { persistentCookieStorage } from '@/shared/utils';
+import { createAppError, type AppError } from '../errors';
+import { err, ok, type Result } from '../result';
+import { resolveNetworks, type SuiNetworkDefinition } from './networks';
+
+/**
+ * Active Sui Network and Client
+ *
+ * The app talks to one network at a time. The choice starts at
+ * `VITE_SUI_NETWORK`, can be switched at runtime and is remembered in a
+ * persistent cookie (no secret). Switching rebuilds the `SuiClient`, so read
+ * it with `getSuiClient()` instead of keeping a reference.
+ *
+ * @example
+ * ```typescript
+ * const result = setActiveNetwork('testnet');
+ * if (result.ok) {
+ *   const { epoch } = await getSuiClient().getLatestSuiSystemState();
+ * }
+ * ```
+ */
 
-// Create client with configuration
 const configResult = getConfig();
 if (!configResult.ok) {
   throw new Error(`Configuration failed: ${configResult.error.message}`);
 }
 
-export const client = new SuiClient({
-  url: configResult.data.suiRpcUrl,
-})
+const NETWORK_COOKIE = 'zk_sui_network';
+
+const networks = resolveNetworks(configResult.data);
+
+const findNetwork = (id: unknown): SuiNetworkDefinition | undefined =>
+  networks.find(network => network.id === id);
+
+let activeNetwork =
+  findNetwork(persistentCookieStorage.getItem(NETWORK_COOKIE)) ??
+  findNetwork(configResult.data.suiNetwork) ??
+  networks[0];
+
+let activeClient = new SuiClient({ url: activeNetwork.rpcUrl });
+
+/**
+ * Networks available in the switcher (enabled in config)
+ */
+export function getNetworks(): SuiNetworkDefinition[] {
+  return networks;
+}
+
+/**
+ * Network the app currently talks to
+ */
+export function getActiveNetwork(): SuiNetworkDefinition {
+  return activeNetwork;
+}
+
+/**
+ * Client for the active network (a new instance after each switch)
+ */
+export function getSuiClient(): SuiClient {
+  return activeClient;
+}
+
+/**
+ * Switch the active network and rebuild the client
+ *
+ * Only switches the connection: callers holding network-scoped state (the
+ * zkLogin session) reload it afterwards.
+ *
+ * @param id - Network to switch to
+ * @returns Result with the new active network, or an error if it is not enabled
+ */
+export function setActiveNetwork(id: SuiNetwork): Result<SuiNetworkDefinition, AppError> {
+  const network = findNetwork(id);
+  if (!network) {
+    return err(
+      createAppError('Validation', `Network ${id} is not enabled`, {
+        details: { network: id, available: networks.map(({ id }) => id) },
+      })
+    );
+  }
+
+  if (network.id !== activeNetwork.id) {
+    activeNetwork = network;
+    activeClient = new SuiClient({ url: network.rpcUrl });
+    persistentCookieStorage.setItem(NETWORK_COOKIE, network.id);
+  }
+  return ok(network);
+}
@@ -0,0 +1,118 @@
+import type { Config, SuiNetwork } from '@/config';
+
+/**
+ * Sui Network Registry
+ *
+ * Built-in settings for every network the app can switch to at runtime. Each
+ * entry carries the endpoints that differ per network: fullnode RPC, the
+ * Mysten zkLogin prover serving it, the faucet and the explorer pages.
+ *
+ * Overrides come from `VITE_SUI_NETWORKS` (per network) and, for the default
+ * network only, from the single-network variables `VITE_SUI_RPC_URL`,
+ * `VITE_ZK_PROVER_URL` and `VITE_EXPLORER_OBJECT_BASE_URL`.
+ *
+ * @example
+ * ```typescript
+ * const networks = resolveNetworks(config);
+ * const testnet = networks.find((network) => network.id === 'testnet');
+ * ```
+ */
+
+export interface SuiNetworkDefinition {
+  id: SuiNetwork;
+  name: string;
+  rpcUrl: string;
+  // zkLogin prover for this network: the hosted Mysten prover (Devnet and Localnet only,
+  // null on Testnet and Mainnet, which need Enoki or a self-hosted prover) or an override
+  proverUrl: string | null;
+  // Faucet endpoint (`/v2/gas`), null when the network has no faucet
+  faucetUrl: string | null;
+  // Explorer base URLs, the object id or transaction digest is appended
+  explorerObjectBaseUrl: string | null;
+  explorerTxBaseUrl: string | null;
+}
+
+export const SUI_NETWORKS: Record<SuiNetwork, SuiNetworkDefinition> = {
+  devnet: {
+    id: 'devnet',
+    name: 'Sui Devnet',
+    rpcUrl: 'https://fullnode.devnet.sui.io:443',
+    proverUrl: 'https://prover-dev.mystenlabs.com/v1',
+    faucetUrl: 'https://faucet.devnet.sui.io/v2/gas',
+    explorerObjectBaseUrl: 'https://suiscan.xyz/devnet/object',
+    explorerTxBaseUrl: 'https://suiscan.xyz/devnet/tx',
+  },
+  testnet: {
+    id: 'testnet',
+    name: 'Sui Testnet',
+    rpcUrl: 'https://fullnode.testnet.sui.io:443',
+    proverUrl: null,
+    faucetUrl: 'https://faucet.testnet.sui.io/v2/gas',
+    explorerObjectBaseUrl: 'https://suiscan.xyz/testnet/object',
+    explorerTxBaseUrl: 'https://suiscan.xyz/testnet/tx',
+  },
+  mainnet: {
+    id: 'mainnet',
+    name: 'Sui Mainnet',
+    rpcUrl: 'https://fullnode.mainnet.sui.io:443',
+    proverUrl: null,
+    faucetUrl: null,
+    explorerObjectBaseUrl: 'https://suiscan.xyz/mainnet/object',
+    explorerTxBaseUrl: 'https://suiscan.xyz/mainnet/tx',
+  },
+  localnet: {
+    id: 'localnet',
+    name: 'Sui Localnet',
+    rpcUrl: 'http://127.0.0.1:9000',
+    proverUrl: 'https://prover-dev.mystenlabs.com/v1',
+    faucetUrl: 'http://127.0.0.1:9123/v2/gas',
+    explorerObjectBaseUrl: null,
+    explorerTxBaseUrl: null,
+  },
+};
+
+/**
+ * Apply the configured overrides to the registry
+ *
+ * Localnet is only listed when enabled in `VITE_SUI_NETWORKS` or selected as
+ * the default network; any other network can be hidden with `enabled: false`.
+ *
+ * @param config - Validated app configuration
+ * @returns Enabled networks in registry order
+ */
+export function resolveNetworks(config: Config): SuiNetworkDefinition[] {
+  return Object.values(SUI_NETWORKS)
+    .filter(network => {
+      const enabled = config.networks[network.id]?.enabled;
+      return network.id === config.suiNetwork || (enabled ?? network.id !== 'localnet');
+    })
+    .map(network => {
+      const { enabled: _enabled, ...override } = config.networks[network.id] ?? {};
+      const isDefault = network.id === config.suiNetwork;
+      return {
+        ...network,
+        rpcUrl: (isDefault && config.suiRpcUrl) || network.rpcUrl,
+        proverUrl: (isDefault && config.proverUrl) || network.proverUrl,
+        explorerObjectBaseUrl:
+          (isDefault && config.explorerObjectBaseUrl) || network.explorerObjectBaseUrl,
+        ...override,
+      };
+    });
+}
+
+/**
+ * Explorer page of an object, or null when the network has no explorer
+ */
+export function getExplorerObjectUrl(
+  network: SuiNetworkDefinition,
+  objectId: string
+): string | null {
+  return network.explorerObjectBaseUrl ? `${network.explorerObjectBaseUrl}/${objectId}` : null;
+}
+
+/**
+ * Explorer page of a transaction, or null when the network has no explorer
+ */
+export function getExplorerTxUrl(network: SuiNetworkDefinition, digest: string): string | null {
+  return network.explorerTxBaseUrl ? `${network.explorerTxBaseUrl}/${digest}` : null;
+}
@@ -20,6 +20,7 @@ import {
   LuTriangle,
   LuInfo,
   LuCoins,
+  LuPlus,
 } from 'react-icons/lu';
 import {
   // Material Design from react-icons
@@ -88,6 +89,8 @@ const ICON_MAP: Record<string, React.ComponentType<React.SVGProps<SVGSVGElement>
   'info-md': MdInfo,
   // Faucet icons
   coins: LuCoins,
+  // Account icons
+  plus: LuPlus,
 };
 
 // ============================================================================
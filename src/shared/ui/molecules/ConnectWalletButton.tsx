@@ -1,6 +1,14 @@
 import { useState } from 'react';
 import { useLocation } from 'react-router-dom';
-import { useZkLogin } from '@/features/auth';
+import {
+  useZkLogin,
+  AUTH_STATE_LABELS,
+  getConfiguredOAuthProviders,
+  isAuthInProgress,
+  type OAuthProviderOption,
+  type OAuthProviderId,
+} from '@/features/auth';
+import DropdownMenu, { useDropdown } from './DropdownMenu';
 
 // ============================================================================
 // TYPES & INTERFACES
@@ -12,8 +20,6 @@ import { useZkLogin } from '@/features/auth';
 // CONSTANTS
 // ============================================================================
 
-const PROVIDER = 'google' as const;
-
 const STYLES = {
   button:
     'w-full px-6 py-3 rounded-lg text-white text-base font-medium transition-all duration-200',
@@ -22,15 +28,52 @@ const STYLES = {
   buttonDisabled: 'bg-gray-500 cursor-not-allowed opacity-70',
   loadingContainer: 'flex items-center justify-center gap-2',
   spinner: 'w-4 h-4 border-2 border-white/30 border-t-white rounded-full animate-spin',
+  providerList: 'p-2 space-y-1',
+  providerTitle: 'text-sm text-white/60 font-medium mb-2 px-2',
+  providerButton:
+    'w-full px-3 py-2 rounded-lg text-left text-sm font-medium text-white/90 hover:bg-white/10 transition-colors duration-200',
 } as const;
 
 const TEXT = {
   connect: 'Connect Wallet',
   connecting: 'Connecting...',
   tooltipConnecting: 'Connecting...',
-  tooltipConnect: 'Sign in with Google (zkLogin)',
+  tooltipConnect: 'Sign in with zkLogin',
+  chooseProvider: 'Sign in with',
+  noProviders: 'No sign-in provider configured',
 } as const;
 
+// ============================================================================
+// SUB-COMPONENTS
+// ============================================================================
+
+interface ProviderListProps {
+  providers: OAuthProviderOption[];
+  onSelect: (provider: OAuthProviderId) => void;
+}
+
+const ProviderList = ({ providers, onSelect }: ProviderListProps): React.JSX.Element => {
+  const { closeDropdown } = useDropdown();
+
+  return (
+    <div className={STYLES.providerList}>
+      <div className={STYLES.providerTitle}>{TEXT.chooseProvider}</div>
+      {providers.map(provider => (
+        <button
+          key={provider.id}
+          onClick={() => {
+            closeDropdown();
+            onSelect(provider.id);
+          }}
+          className={STYLES.providerButton}
+        >
+          {provider.name}
+        </button>
+      ))}
+    </div>
+  );
+};
+
 // ============================================================================
 // COMPONENT
 // ============================================================================
@@ -38,13 +81,13 @@ const TEXT = {
 /**
  * ConnectWalletButton Component
  *
- * Handles the wallet connection flow with Google OAuth zkLogin integration.
+ * Handles the wallet connection flow with OAuth zkLogin integration.
  * Provides visual feedback during the connection process and prevents multiple clicks.
  *
  * Features:
- * - Google OAuth integration with zkLogin authentication
+ * - Sign-in with any configured OAuth provider (chooser shown when more than one)
  * - Return URL preservation for seamless user experience
- * - Loading state with spinner animation
+ * - Loading state with spinner animation (the tooltip shows the current login step)
  * - Error handling with console logging
  * - Disabled state during connection to prevent multiple requests
  *
@@ -55,15 +98,16 @@ export default function ConnectWalletButton() {
   // HOOKS & STATE
   // ============================================================================
 
-  const { loginWithProvider } = useZkLogin();
+  const { loginWithProvider, authState } = useZkLogin();
   const location = useLocation();
   const [isConnecting, setIsConnecting] = useState(false);
+  const [providers] = useState(getConfiguredOAuthProviders);
 
   // ============================================================================
   // EVENT HANDLERS
   // ============================================================================
 
-  const handleConnect = async (): Promise<void> => {
+  const handleConnect = async (provider: OAuthProviderId): Promise<void> => {
     if (isConnecting) return; // Prevent multiple clicks
 
     try {
@@ -71,8 +115,8 @@ export default function ConnectWalletButton() {
       // Determine return URL - redirect to /profile if coming from root page
       const returnTo = location.pathname === '/' ? '/profile' : location.pathname + location.search;
 
-      // Initiate zkLogin flow with Google OAuth
-      await loginWithProvider(PROVIDER, returnTo);
+      // Initiate zkLogin flow with the selected OAuth provider
+      await loginWithProvider(provider, returnTo);
     } catch {
       // Login failed - error handling is done by the auth system
     } finally {
@@ -88,12 +132,22 @@ export default function ConnectWalletButton() {
     isConnecting ? STYLES.buttonDisabled : STYLES.buttonEnabled
   }`;
 
-  const buttonTitle = isConnecting ? TEXT.tooltipConnecting : TEXT.tooltipConnect;
+  const singleProvider = providers.length === 1 ? providers[0] : null;
 
-  return (
+  const buttonTitle = isConnecting
+    ? isAuthInProgress(authState)
+      ? AUTH_STATE_LABELS[authState]
+      : TEXT.tooltipConnecting
+    : providers.length === 0
+      ? TEXT.noProviders
+      : singleProvider
+        ? `Sign in with ${singleProvider.name} (zkLogin)`
+        : TEXT.tooltipConnect;
+
+  const button = (
     <button
-      onClick={handleConnect}
-      disabled={isConnecting}
+      onClick={singleProvider ? () => handleConnect(singleProvider.id) : undefined}
+      disabled={isConnecting || providers.length === 0}
       className={buttonClassName}
       title={buttonTitle}
     >
@@ -107,4 +161,14 @@ export default function ConnectWalletButton() {
       )}
     </button>
   );
+
+  if (providers.length <= 1 || isConnecting) {
+    return button;
+  }
+
+  return (
+    <DropdownMenu trigger={button} position='right' width='w-56'>
+      <ProviderList providers={providers} onSelect={handleConnect} />
+    </DropdownMenu>
+  );
 }
@@ -1,7 +1,7 @@
 /**
  * FaucetButton Component
  *
- * A molecule component that handles requesting test tokens from the Sui devnet faucet.
+ * A molecule component that handles requesting test tokens from the active network's faucet.
  * Provides user feedback through the notification system and loading states.
  * Part of the atomic design system - handles the complete faucet interaction flow.
  */
@@ -9,7 +9,14 @@
 import React, { useState } from 'react';
 import { useNotifications } from '@/app/providers';
 import { Button, Icon } from '@/shared/ui';
-import { createAppError, type AppError, type Result, ok, err } from '@/shared/lib';
+import {
+  createAppError,
+  getActiveNetwork,
+  type AppError,
+  type Result,
+  ok,
+  err,
+} from '@/shared/lib';
 
 // ============================================================================
 // TYPES & INTERFACES
@@ -18,6 +25,8 @@ import { createAppError, type AppError, type Result, ok, err } from '@/shared/li
 interface FaucetButtonProps {
   /** User's Sui address to receive tokens */
   address: string;
+  /** Faucet endpoint (defaults to the active network's, null renders nothing) */
+  faucetUrl?: string | null;
   /** Optional custom button text */
   buttonText?: string;
   /** Button variant */
@@ -42,8 +51,6 @@ interface FaucetResponse {
 // CONSTANTS
 // ============================================================================
 
-const SUI_DEVNET_FAUCET_URL = 'https://faucet.devnet.sui.io/v2/gas';
-
 const STYLES = {
   container: 'inline-flex items-center',
   button: 'inline-flex items-center gap-2',
@@ -63,14 +70,18 @@ const TEXT = {
 // ============================================================================
 
 /**
- * Request test tokens from Sui devnet faucet
+ * Request test tokens from a Sui faucet
  *
+ * @param faucetUrl - Faucet endpoint (`/v2/gas`)
  * @param address - User's Sui address to receive tokens
  * @returns Result containing success status or error
  */
-async function requestFaucetTokens(address: string): Promise<Result<FaucetResponse, AppError>> {
+async function requestFaucetTokens(
+  faucetUrl: string,
+  address: string
+): Promise<Result<FaucetResponse, AppError>> {
   try {
-    const response = await fetch(SUI_DEVNET_FAUCET_URL, {
+    const response = await fetch(faucetUrl, {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
@@ -117,14 +128,16 @@ async function requestFaucetTokens(address: string): Promise<Result<FaucetRespon
 /**
  * FaucetButton Component
  *
- * A molecule component that handles requesting test tokens from the Sui devnet faucet.
+ * A molecule component that handles requesting test tokens from a Sui faucet.
  * Provides user feedback through the notification system and loading states.
+ * Renders nothing on networks without a faucet (mainnet).
  *
  * @param props - Component props
  * @returns JSX element
  */
 export function FaucetButton({
   address,
+  faucetUrl = getActiveNetwork().faucetUrl,
   buttonText = TEXT.defaultButtonText,
   variant = 'primary',
   size = 'md',
@@ -144,6 +157,9 @@ export function FaucetButton({
   // ============================================================================
 
   const handleFaucetRequest = async (): Promise<void> => {
+    if (!faucetUrl) {
+      return;
+    }
     if (!address) {
       showError(createAppError('Validation', 'Address is required to request faucet tokens'));
       return;
@@ -152,7 +168,7 @@ export function FaucetButton({
     setIsRequesting(true);
 
     try {
-      const result = await requestFaucetTokens(address);
+      const result = await requestFaucetTokens(faucetUrl, address);
 
       if (result.ok) {
         showSuccess(TEXT.successTitle, TEXT.successMessage);
@@ -177,6 +193,10 @@ export function FaucetButton({
   // RENDER
   // ============================================================================
 
+  if (!faucetUrl) {
+    return null;
+  }
+
   return (
     <div className={STYLES.container}>
       <Button
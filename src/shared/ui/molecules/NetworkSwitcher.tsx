@@ -0,0 +1,158 @@
+import { useState } from 'react';
+import { Icon } from '../atoms';
+import DropdownMenu, { useDropdown } from './DropdownMenu';
+
+// ============================================================================
+// TYPES & INTERFACES
+// ============================================================================
+
+interface NetworkOption {
+  id: string;
+  name: string;
+}
+
+interface NetworkSwitcherProps {
+  /** Networks the user can switch to */
+  networks: NetworkOption[];
+  /** Id of the active network */
+  activeNetwork: string;
+  /** Callback when user picks another network */
+  onSwitch: (network: string) => void;
+  /** Disable switching (e.g. while a login is in progress) */
+  disabled?: boolean;
+  /** Whether to use mobile-optimized layout */
+  isMobile?: boolean;
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+const STYLES = {
+  trigger:
+    'flex items-center gap-2 px-3 py-2 rounded-lg bg-white/10 hover:bg-white/20 border border-white/20 hover:border-white/30 transition-all duration-200 group',
+  triggerDisabled: 'opacity-50 pointer-events-none',
+  dot: 'w-2 h-2 rounded-full',
+  name: 'text-xs font-medium text-white/90',
+  chevron: 'w-3 h-3 text-white/60 transition-all duration-200 group-hover:text-white/80',
+  chevronOpen: 'rotate-180',
+  content: 'p-2',
+  title: 'text-xs text-white/50 font-medium px-3 py-1',
+  option:
+    'w-full flex items-center gap-3 px-3 py-2 rounded-lg hover:bg-gray-800 transition-colors duration-200 text-left',
+  optionName: 'flex-1 text-sm font-medium text-white/90',
+  optionActive: 'w-4 h-4 text-green-400 shrink-0',
+} as const;
+
+// Mainnet stands out from the test networks
+const DOT_COLORS: Record<string, string> = {
+  mainnet: 'bg-green-400',
+  testnet: 'bg-yellow-400',
+  devnet: 'bg-blue-400',
+  localnet: 'bg-gray-400',
+};
+
+const TEXT = {
+  title: 'Network',
+  hint: 'Each network keeps its own session',
+} as const;
+
+// ============================================================================
+// SUB-COMPONENTS
+// ============================================================================
+
+const NetworkDot = ({ network }: { network: string }): React.JSX.Element => (
+  <span className={`${STYLES.dot} ${DOT_COLORS[network] ?? DOT_COLORS.localnet}`} />
+);
+
+interface NetworkListProps {
+  networks: NetworkOption[];
+  activeNetwork: string;
+  onSwitch: (network: string) => void;
+}
+
+const NetworkList = ({
+  networks,
+  activeNetwork,
+  onSwitch,
+}: NetworkListProps): React.JSX.Element => {
+  const { closeDropdown } = useDropdown();
+
+  const handleSelect = (network: string): void => {
+    closeDropdown();
+    if (network !== activeNetwork) {
+      onSwitch(network);
+    }
+  };
+
+  return (
+    <div className={STYLES.content}>
+      <div className={STYLES.title} title={TEXT.hint}>
+        {TEXT.title}
+      </div>
+      {networks.map(network => (
+        <button key={network.id} onClick={() => handleSelect(network.id)} className={STYLES.option}>
+          <NetworkDot network={network.id} />
+          <span className={STYLES.optionName}>{network.name}</span>
+          {network.id === activeNetwork && (
+            <Icon name='check' size='sm' className={STYLES.optionActive} />
+          )}
+        </button>
+      ))}
+    </div>
+  );
+};
+
+// ============================================================================
+// COMPONENT
+// ============================================================================
+
+/**
+ * NetworkSwitcher Component
+ *
+ * A molecule component showing the active Sui network with a dropdown to switch
+ * to another one. Renders only the label when a single network is available.
+ *
+ * @param props - Component props
+ * @returns JSX element containing the network switcher
+ */
+export default function NetworkSwitcher({
+  networks,
+  activeNetwork,
+  onSwitch,
+  disabled = false,
+  isMobile = false,
+}: NetworkSwitcherProps) {
+  const [isOpen, setIsOpen] = useState(false);
+
+  const active = networks.find(network => network.id === activeNetwork);
+  const trigger = (
+    <div className={`${STYLES.trigger} ${disabled ? STYLES.triggerDisabled : ''}`}>
+      <NetworkDot network={activeNetwork} />
+      <span className={STYLES.name}>{active?.name ?? activeNetwork}</span>
+      {networks.length > 1 && (
+        <Icon
+          name='chevron-down'
+          size='sm'
+          className={`${STYLES.chevron} ${isOpen ? STYLES.chevronOpen : ''}`}
+        />
+      )}
+    </div>
+  );
+
+  if (networks.length <= 1) {
+    return trigger;
+  }
+
+  return (
+    <DropdownMenu
+      trigger={trigger}
+      position='right'
+      width='w-56'
+      isMobile={isMobile}
+      onToggle={setIsOpen}
+    >
+      <NetworkList networks={networks} activeNetwork={activeNetwork} onSwitch={onSwitch} />
+    </DropdownMenu>
+  );
+}
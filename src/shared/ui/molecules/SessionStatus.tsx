@@ -1,4 +1,5 @@
-import React from 'react';
+import React, { useEffect, useState } from 'react';
+import { getErrorRemediation, type AppError } from '@/shared/lib';
 import { StatusIndicator, LoadingSpinner } from '../atoms';
 
 // ============================================================================
@@ -14,6 +15,14 @@ interface SessionInfo {
   maxEpoch: number;
   /** Epochs remaining */
   epochsRemaining: number;
+  /** Estimated expiry time in ms (end of maxEpoch) */
+  expiresAtMs?: number | null;
+  /** Session window chosen at login */
+  policy?: {
+    network: string;
+    epochs: number;
+    source: 'target' | 'network' | 'default';
+  } | null;
 }
 
 interface SessionStatusProps {
@@ -21,12 +30,18 @@ interface SessionStatusProps {
   sessionInfo?: SessionInfo | null;
   /** Whether session check is in progress */
   isChecking?: boolean;
-  /** Error message if session check failed */
-  error?: string | null;
+  /** Error if session check failed (its kind selects the remediation shown) */
+  error?: AppError | null;
   /** Callback to refresh session */
   onRefresh?: () => void;
   /** Callback to re-login */
   onReLogin?: () => void;
+  /** Whether the session is about to expire and should be renewed */
+  isExpiringSoon?: boolean;
+  /** Whether a renewal is in progress */
+  isRenewing?: boolean;
+  /** Callback to renew the session before it expires */
+  onRenew?: () => void;
   /** Additional CSS classes */
   className?: string;
 }
@@ -48,7 +63,9 @@ const STYLES = {
   valueSuccess: 'text-green-400',
   valueError: 'text-red-400',
   errorContainer: 'bg-red-500/10 border border-red-500/30 rounded p-2 mb-2',
-  errorText: 'text-red-200 text-xs mb-2',
+  errorTitle: 'block text-red-300 text-xs font-semibold mb-1',
+  errorText: 'block text-red-200 text-xs mb-1',
+  errorHint: 'block text-red-200/70 text-xs mb-2',
   errorActions: 'flex gap-2',
   errorButton: 'flex-1 px-3 py-2 rounded text-xs transition-colors',
   reLoginButton: 'bg-red-500/20 hover:bg-red-500/30 border border-red-500/30 text-red-300',
@@ -58,10 +75,52 @@ const STYLES = {
   expiredText: 'text-red-200 text-xs',
   expiredActions: 'flex gap-2',
   expiredButton: 'flex-1 px-3 py-2 rounded text-xs transition-colors',
+  valueWarning: 'text-yellow-400',
+  renewContainer: 'bg-yellow-500/10 border border-yellow-500/30 rounded p-2',
+  renewHeader: 'flex items-center gap-2 mb-2',
+  renewText: 'text-yellow-200 text-xs',
+  renewButton:
+    'w-full px-3 py-2 rounded text-xs transition-colors bg-yellow-500/20 hover:bg-yellow-500/30 border border-yellow-500/30 text-yellow-300 disabled:opacity-50 disabled:cursor-not-allowed',
   noSession: 'text-center py-1',
   noSessionText: 'text-white/60 text-xs',
 } as const;
 
+// ============================================================================
+// UTILITY FUNCTIONS
+// ============================================================================
+
+/**
+ * Current time, updated every second while `active`
+ */
+function useNow(active: boolean): number {
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    if (!active) {
+      return;
+    }
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [active]);
+
+  return now;
+}
+
+/**
+ * Format a remaining duration as "1h 05m 09s" (estimates: "any moment" once passed)
+ */
+function formatCountdown(remainingMs: number): string {
+  if (remainingMs <= 0) {
+    return 'any moment';
+  }
+  const totalSeconds = Math.floor(remainingMs / 1000);
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return hours > 0 ? `${hours}h ${pad(minutes)}m ${pad(seconds)}s` : `${minutes}m ${pad(seconds)}s`;
+}
+
 // ============================================================================
 // COMPONENT
 // ============================================================================
@@ -70,7 +129,10 @@ const STYLES = {
  * SessionStatus Component
  *
  * Displays zkLogin session status with validation information.
- * Used in profile pages to show session health and expiration.
+ * Used in profile pages to show session health and expiration (with a live
+ * countdown to the estimated expiry time), and offers a
+ * renewal when the session is about to expire. Errors show what to do next
+ * based on their kind (sign in again or refresh).
  *
  * @param props - Component props
  * @returns JSX element
@@ -81,13 +143,20 @@ export default function SessionStatus({
   error,
   onRefresh,
   onReLogin,
+  isExpiringSoon = false,
+  isRenewing = false,
+  onRenew,
   className = '',
 }: SessionStatusProps) {
   // ============================================================================
   // RENDER
   // ============================================================================
 
+  const expiresAtMs = sessionInfo?.expiresAtMs ?? null;
+  const now = useNow(expiresAtMs !== null);
+
   const isSessionValid = sessionInfo?.isValid ?? false;
+  const remediation = error ? getErrorRemediation(error) : null;
   const isSessionExpired = sessionInfo && sessionInfo.epochsRemaining < 0;
 
   return (
@@ -115,13 +184,20 @@ export default function SessionStatus({
       </div>
 
       {/* Error State */}
-      {error && (
+      {error && remediation && (
         <div className={STYLES.errorContainer}>
-          <span className={STYLES.errorText}>{error}</span>
+          <span className={STYLES.errorTitle}>{remediation.title}</span>
+          <span className={STYLES.errorText}>{error.message}</span>
+          <span className={STYLES.errorHint}>{remediation.hint}</span>
           <div className={STYLES.errorActions}>
-            <button onClick={onReLogin} className={`${STYLES.errorButton} ${STYLES.reLoginButton}`}>
-              Re-login
-            </button>
+            {remediation.action === 'signIn' && (
+              <button
+                onClick={onReLogin}
+                className={`${STYLES.errorButton} ${STYLES.reLoginButton}`}
+              >
+                Re-login
+              </button>
+            )}
             <button
               onClick={onRefresh}
               disabled={isChecking}
@@ -161,11 +237,60 @@ export default function SessionStatus({
           <div className={STYLES.detailRow}>
             <span className={STYLES.label}>Epochs Remaining:</span>
             <span
-              className={`${STYLES.value} ${isSessionValid ? STYLES.valueSuccess : STYLES.valueError}`}
+              className={`${STYLES.value} ${
+                !isSessionValid
+                  ? STYLES.valueError
+                  : isExpiringSoon
+                    ? STYLES.valueWarning
+                    : STYLES.valueSuccess
+              }`}
             >
               {sessionInfo.epochsRemaining}
             </span>
           </div>
+          {expiresAtMs !== null && isSessionValid && (
+            <div className={STYLES.detailRow}>
+              <span className={STYLES.label}>Expires In:</span>
+              <span
+                className={`${STYLES.value} ${isExpiringSoon ? STYLES.valueWarning : STYLES.valueSuccess}`}
+                title={new Date(expiresAtMs).toLocaleString()}
+              >
+                {formatCountdown(expiresAtMs - now)}
+              </span>
+            </div>
+          )}
+          {sessionInfo.policy && (
+            <div className={STYLES.detailRow}>
+              <span className={STYLES.label}>Session Window:</span>
+              <span className={STYLES.value}>
+                {`${sessionInfo.policy.epochs} epochs · ${sessionInfo.policy.network} (${sessionInfo.policy.source})`}
+              </span>
+            </div>
+          )}
+
+          {/* Upcoming Renewal */}
+          {isExpiringSoon && isSessionValid && (
+            <div className={STYLES.renewContainer}>
+              <div className={STYLES.renewHeader}>
+                <span className='text-yellow-400'>⏳</span>
+                <span className={STYLES.renewText}>
+                  Session expires soon. Renew it to keep the same address without losing this page.
+                </span>
+              </div>
+              {onRenew && (
+                <button onClick={onRenew} disabled={isRenewing} className={STYLES.renewButton}>
+                  {isRenewing ? (
+                    <span className='inline-flex items-center gap-1'>
+                      <LoadingSpinner size='sm' variant='white' />
+                      <span>Renewing...</span>
+                    </span>
+                  ) : (
+                    'Renew Session'
+                  )}
+                </button>
+              )}
+            </div>
+          )}
 
           {/* Session Expired Warning */}
           {isSessionExpired && (
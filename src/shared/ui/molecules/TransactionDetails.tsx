@@ -15,6 +15,10 @@ interface TransactionDetailsProps {
   amount: string;
   /** Authentication method */
   authMethod: string;
+  /** Estimated gas cost from a dry run */
+  gasCost?: string;
+  /** Balance changes from a dry run */
+  balanceChanges?: { address: string; amount: string }[];
   /** Additional CSS classes */
   className?: string;
 }
@@ -32,6 +36,10 @@ const STYLES = {
   value: 'text-white',
   valueMono: 'font-mono text-white text-xs break-all',
   valueSuccess: 'text-green-400',
+  changesTitle: 'text-white/60 pt-2',
+  changeRow: 'flex justify-between gap-4',
+  changePositive: 'text-green-400 whitespace-nowrap',
+  changeNegative: 'text-red-300 whitespace-nowrap',
 } as const;
 
 // ============================================================================
@@ -53,6 +61,8 @@ export default function TransactionDetails({
   toAddress,
   amount,
   authMethod,
+  gasCost,
+  balanceChanges,
   className = '',
 }: TransactionDetailsProps) {
   // ============================================================================
@@ -83,6 +93,29 @@ export default function TransactionDetails({
           <span className={STYLES.label}>Authentication:</span>
           <span className={`${STYLES.value} ${STYLES.valueSuccess}`}>{authMethod}</span>
         </div>
+        {gasCost && (
+          <div className={STYLES.detailRow}>
+            <span className={STYLES.label}>Estimated gas:</span>
+            <span className={STYLES.value}>{gasCost}</span>
+          </div>
+        )}
+        {balanceChanges && balanceChanges.length > 0 && (
+          <>
+            <div className={STYLES.changesTitle}>Balance changes:</div>
+            {balanceChanges.map(change => (
+              <div key={change.address} className={STYLES.changeRow}>
+                <span className={STYLES.valueMono}>{change.address}</span>
+                <span
+                  className={
+                    change.amount.startsWith('-') ? STYLES.changeNegative : STYLES.changePositive
+                  }
+                >
+                  {change.amount}
+                </span>
+              </div>
+            ))}
+          </>
+        )}
       </div>
     </div>
   );
@@ -4,6 +4,7 @@ export { BalanceCard, default as BalanceCardDefault } from './BalanceCard';
 export { default as ConnectWalletButton } from './ConnectWalletButton';
 export { default as DropdownMenu, useDropdown } from './DropdownMenu';
 export { FaucetButton, default as FaucetButtonDefault } from './FaucetButton';
+export { default as NetworkSwitcher } from './NetworkSwitcher';
 export { NotificationItem, type Notification } from './NotificationItem';
 export { default as SessionStatus } from './SessionStatus';
 export { default as TransactionDetails } from './TransactionDetails';
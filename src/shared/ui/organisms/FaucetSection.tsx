@@ -21,6 +21,8 @@ interface FaucetSectionProps {
   address: string;
   /** Sui client for balance fetching */
   client: SuiClient | null;
+  /** Faucet of the client's network (null hides the faucet button) */
+  faucetUrl?: string | null;
   /** Custom title for the section */
   title?: string;
   /** Panel variant */
@@ -74,6 +76,7 @@ const TEXT = {
 export function FaucetSection({
   address,
   client,
+  faucetUrl,
   title = TEXT.defaultTitle,
   variant = 'glass',
   size = 'md',
@@ -189,6 +192,7 @@ export function FaucetSection({
         <div className={STYLES.faucetSection}>
           <FaucetButton
             address={address}
+            faucetUrl={faucetUrl}
             variant='hero'
             buttonText='Get Test SUI'
             onComplete={handleFaucetComplete}
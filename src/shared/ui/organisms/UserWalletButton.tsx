@@ -11,11 +11,24 @@ interface NavigationItem {
   label: string;
 }
 
+interface WalletAccount {
+  address: string;
+  label?: string;
+}
+
 interface UserWalletButtonProps {
   /** The wallet address to display */
   address: string;
   /** Callback when user disconnects */
   onDisconnect: () => void;
+  /** Accounts signed in on this browser (shows the account switcher) */
+  accounts?: WalletAccount[];
+  /** Callback when user switches to another account */
+  onSwitchAccount?: (address: string) => void;
+  /** Callback when user adds another account */
+  onAddAccount?: () => void;
+  /** Callback when user signs out of a single account */
+  onSignOutAccount?: (address: string) => void;
   /** Whether to use mobile-optimized layout */
   isMobile?: boolean;
   /** Whether to include navigation items in dropdown */
@@ -32,6 +45,7 @@ const COPY_FEEDBACK_DURATION = 2000;
 const DEFAULT_IS_MOBILE = false;
 const DEFAULT_INCLUDE_NAVIGATION = false;
 const DEFAULT_NAVIGATION_ITEMS: NavigationItem[] = [];
+const DEFAULT_ACCOUNTS: WalletAccount[] = [];
 
 const STYLES = {
   walletDisplay:
@@ -54,6 +68,20 @@ const STYLES = {
   disconnectTitle: 'text-sm font-medium text-red-300',
   disconnectSubtitle: 'text-xs text-red-400/60',
   dropdownContent: 'p-2',
+  accountList: 'pb-2 mb-2 border-b border-white/10',
+  accountListTitle: 'text-xs text-white/50 font-medium px-3 py-1',
+  accountRow: 'flex items-center gap-1 rounded-lg hover:bg-gray-800 transition-colors duration-200',
+  accountButton: 'flex-1 min-w-0 flex items-center gap-3 px-3 py-2 text-left',
+  accountInfo: 'flex-1 min-w-0',
+  accountLabel: 'text-sm font-medium text-white/90 truncate',
+  accountAddress: 'text-xs text-white/60',
+  accountActive: 'w-4 h-4 text-green-400 shrink-0',
+  accountSignOut:
+    'p-2 mr-1 rounded-lg text-white/40 hover:text-red-300 hover:bg-red-900/50 transition-colors duration-200',
+  addAccountButton:
+    'w-full flex items-center gap-3 px-3 py-2 rounded-lg hover:bg-gray-800 transition-colors duration-200 text-left',
+  addAccountIcon: 'w-8 h-8 rounded-lg bg-purple-500/20 flex items-center justify-center',
+  addAccountTitle: 'text-sm font-medium text-white/90',
 } as const;
 
 const TEXT = {
@@ -63,6 +91,11 @@ const TEXT = {
   copySuccessSubtitle: 'Address copied to clipboard',
   disconnect: 'Disconnect',
   disconnectSubtitle: 'Sign out of your wallet',
+  disconnectAll: 'Disconnect all',
+  disconnectAllSubtitle: 'Sign out of every account',
+  accounts: 'Accounts',
+  addAccount: 'Add account',
+  signOutAccount: 'Sign out of this account',
 } as const;
 
 // ============================================================================
@@ -89,6 +122,10 @@ const DisconnectIcon = (): React.JSX.Element => (
   <Icon name='disconnect' size='sm' className='w-4 h-4 text-red-400' />
 );
 
+const PlusIcon = (): React.JSX.Element => (
+  <Icon name='plus' size='sm' className='w-4 h-4 text-purple-400' />
+);
+
 // ============================================================================
 // UTILITY FUNCTIONS
 // ============================================================================
@@ -142,29 +179,104 @@ const CopyAddressButton = ({ onCopy, copied }: CopyAddressButtonProps): React.JS
 
 interface DisconnectButtonProps {
   onDisconnect: () => void;
+  all?: boolean;
 }
 
-const DisconnectButton = ({ onDisconnect }: DisconnectButtonProps): React.JSX.Element => (
+const DisconnectButton = ({
+  onDisconnect,
+  all = false,
+}: DisconnectButtonProps): React.JSX.Element => (
   <button onClick={onDisconnect} className={STYLES.disconnectButton}>
     <div className={STYLES.disconnectIcon}>
       <DisconnectIcon />
     </div>
     <div className={STYLES.disconnectContent}>
-      <div className={STYLES.disconnectTitle}>{TEXT.disconnect}</div>
-      <div className={STYLES.disconnectSubtitle}>{TEXT.disconnectSubtitle}</div>
+      <div className={STYLES.disconnectTitle}>{all ? TEXT.disconnectAll : TEXT.disconnect}</div>
+      <div className={STYLES.disconnectSubtitle}>
+        {all ? TEXT.disconnectAllSubtitle : TEXT.disconnectSubtitle}
+      </div>
     </div>
   </button>
 );
 
+interface AccountSwitcherProps {
+  activeAddress: string;
+  accounts: WalletAccount[];
+  onSwitch?: (address: string) => void;
+  onAdd?: () => void;
+  onSignOut?: (address: string) => void;
+}
+
+const AccountSwitcher = ({
+  activeAddress,
+  accounts,
+  onSwitch,
+  onAdd,
+  onSignOut,
+}: AccountSwitcherProps): React.JSX.Element => (
+  <div className={STYLES.accountList}>
+    <div className={STYLES.accountListTitle}>{TEXT.accounts}</div>
+    {accounts.map(account => {
+      const isActive = account.address === activeAddress;
+      return (
+        <div key={account.address} className={STYLES.accountRow}>
+          <button
+            onClick={() => !isActive && onSwitch?.(account.address)}
+            className={STYLES.accountButton}
+            disabled={isActive}
+          >
+            <Avatar address={account.address} size={28} />
+            <div className={STYLES.accountInfo}>
+              <div className={STYLES.accountLabel}>
+                {account.label ?? formatAddress(account.address)}
+              </div>
+              <div className={STYLES.accountAddress}>{formatAddress(account.address)}</div>
+            </div>
+            {isActive && <Icon name='check' size='sm' className={STYLES.accountActive} />}
+          </button>
+          {onSignOut && (
+            <button
+              onClick={() => onSignOut(account.address)}
+              className={STYLES.accountSignOut}
+              title={TEXT.signOutAccount}
+              aria-label={TEXT.signOutAccount}
+            >
+              <Icon name='close' size='sm' />
+            </button>
+          )}
+        </div>
+      );
+    })}
+    {onAdd && (
+      <button onClick={onAdd} className={STYLES.addAccountButton}>
+        <div className={STYLES.addAccountIcon}>
+          <PlusIcon />
+        </div>
+        <div className={STYLES.addAccountTitle}>{TEXT.addAccount}</div>
+      </button>
+    )}
+  </div>
+);
+
 interface WalletDropdownContentProps {
+  address: string;
+  accounts: WalletAccount[];
   onCopyAddress: () => void;
   onDisconnect: () => void;
+  onSwitchAccount?: (address: string) => void;
+  onAddAccount?: () => void;
+  onSignOutAccount?: (address: string) => void;
   copied: boolean;
 }
 
 const WalletDropdownContent = ({
+  address,
+  accounts,
   onCopyAddress,
   onDisconnect,
+  onSwitchAccount,
+  onAddAccount,
+  onSignOutAccount,
   copied,
 }: WalletDropdownContentProps): React.JSX.Element => {
   const { closeDropdown } = useDropdown();
@@ -174,10 +286,29 @@ const WalletDropdownContent = ({
     closeDropdown();
   };
 
+  // Close the menu once an account action is picked
+  const withClose =
+    <T extends unknown[]>(callback?: (...args: T) => void) =>
+    (...args: T): void => {
+      callback?.(...args);
+      closeDropdown();
+    };
+
+  const showSwitcher = accounts.length > 0 || !!onAddAccount;
+
   return (
     <div className={STYLES.dropdownContent}>
+      {showSwitcher && (
+        <AccountSwitcher
+          activeAddress={address}
+          accounts={accounts}
+          onSwitch={onSwitchAccount && withClose(onSwitchAccount)}
+          onAdd={onAddAccount && withClose(onAddAccount)}
+          onSignOut={onSignOutAccount && withClose(onSignOutAccount)}
+        />
+      )}
       <CopyAddressButton onCopy={onCopyAddress} copied={copied} />
-      <DisconnectButton onDisconnect={handleDisconnect} />
+      <DisconnectButton onDisconnect={handleDisconnect} all={accounts.length > 1} />
     </div>
   );
 };
@@ -190,13 +321,14 @@ const WalletDropdownContent = ({
  * UserWalletButton Component
  *
  * A wallet button that displays the connected user state with avatar, shortened address,
- * and a dropdown menu containing wallet actions (copy address, disconnect).
+ * and a dropdown menu containing wallet actions (switch account, copy address, disconnect).
  *
  * Features:
  * - Avatar generation based on wallet address
  * - Shortened address display for better UX
  * - Copy address functionality with visual feedback
  * - Disconnect functionality with confirmation
+ * - Account switcher with add account and per-account sign out (when accounts are passed)
  * - Mobile and desktop responsive layouts
  * - Optional navigation integration for mobile
  *
@@ -206,6 +338,10 @@ const WalletDropdownContent = ({
 export default function UserWalletButton({
   address,
   onDisconnect,
+  accounts = DEFAULT_ACCOUNTS,
+  onSwitchAccount,
+  onAddAccount,
+  onSignOutAccount,
   isMobile = DEFAULT_IS_MOBILE,
   includeNavigation = DEFAULT_INCLUDE_NAVIGATION,
   navigationItems = DEFAULT_NAVIGATION_ITEMS,
@@ -239,15 +375,20 @@ export default function UserWalletButton({
     <DropdownMenu
       trigger={<WalletDisplay address={address} isOpen={isDropdownOpen} />}
       position='right'
-      width='w-64'
+      width='w-72'
       isMobile={isMobile}
       includeNavigation={includeNavigation}
       navigationItems={navigationItems}
       onToggle={setIsDropdownOpen}
     >
       <WalletDropdownContent
+        address={address}
+        accounts={accounts}
         onCopyAddress={handleCopyAddress}
         onDisconnect={onDisconnect}
+        onSwitchAccount={onSwitchAccount}
+        onAddAccount={onAddAccount}
+        onSignOutAccount={onSignOutAccount}
         copied={copied}
       />
     </DropdownMenu>
@@ -1,2 +1,4 @@
 // Shared utilities
 export * from './cookieStorage';
+export * from './indexedDb';
+export * from './secureStorage';
@@ -0,0 +1,131 @@
+/**
+ * IndexedDB Utilities
+ *
+ * Minimal promise wrappers around IndexedDB for small key-value stores.
+ * Each database is opened lazily once per page and shared between callers.
+ *
+ * Use it for data that is too large for cookies or must survive a browser
+ * restart (e.g. cached ZK proofs). Values are stored with the structured clone
+ * algorithm, so plain objects, arrays, strings and numbers work as-is.
+ *
+ * @example
+ * ```typescript
+ * const store = createIndexedDbStore<{ proof: string }>('zklogin', 'proofs');
+ * await store.put('key', { proof: '...' });
+ * const value = await store.get('key');
+ * ```
+ */
+
+export interface IndexedDbStore<T> {
+    get: (key: string) => Promise<T | undefined>;
+    getAll: () => Promise<Array<{ key: string; value: T }>>;
+    put: (key: string, value: T) => Promise<void>;
+    delete: (key: string) => Promise<void>;
+    clear: () => Promise<void>;
+}
+
+const databases = new Map<string, Promise<IDBDatabase>>();
+
+/**
+ * Check whether IndexedDB is available (not in SSR, some private modes)
+ */
+export const isIndexedDbAvailable = (): boolean => {
+    try {
+        return typeof indexedDB !== 'undefined';
+    } catch {
+        return false;
+    }
+};
+
+/**
+ * Open (or reuse) a database containing the given object stores
+ *
+ * Databases are versioned by their store list: adding a store name bumps the
+ * version so the upgrade creates it.
+ */
+const openDatabase = (dbName: string, storeNames: string[]): Promise<IDBDatabase> => {
+    const cacheKey = `${dbName}:${storeNames.join(',')}`;
+    const existing = databases.get(cacheKey);
+    if (existing) {
+        return existing;
+    }
+
+    const opening = new Promise<IDBDatabase>((resolve, reject) => {
+        const request = indexedDB.open(dbName, storeNames.length);
+        request.onupgradeneeded = () => {
+            for (const name of storeNames) {
+                if (!request.result.objectStoreNames.contains(name)) {
+                    request.result.createObjectStore(name);
+                }
+            }
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+        request.onblocked = () => reject(new Error(`IndexedDB ${dbName} upgrade blocked by another tab`));
+    });
+    // Allow a retry after a failed open
+    opening.catch(() => databases.delete(cacheKey));
+    databases.set(cacheKey, opening);
+    return opening;
+};
+
+const runRequest = <R>(
+    db: IDBDatabase,
+    storeName: string,
+    mode: IDBTransactionMode,
+    operation: (store: IDBObjectStore) => IDBRequest<R>
+): Promise<R> => {
+    return new Promise<R>((resolve, reject) => {
+        const transaction = db.transaction(storeName, mode);
+        const request = operation(transaction.objectStore(storeName));
+        transaction.oncomplete = () => resolve(request.result);
+        transaction.onerror = () => reject(transaction.error ?? request.error);
+        transaction.onabort = () => reject(transaction.error ?? new Error('IndexedDB transaction aborted'));
+    });
+};
+
+/**
+ * Create a typed key-value store backed by an IndexedDB object store
+ *
+ * @param dbName - Database name
+ * @param storeName - Object store name
+ * @param allStoreNames - Every store of this database (needed to create them on first open)
+ * @returns Store with async get/getAll/put/delete/clear (rejects when IndexedDB fails)
+ */
+export const createIndexedDbStore = <T>(
+    dbName: string,
+    storeName: string,
+    allStoreNames: string[] = [storeName]
+): IndexedDbStore<T> => {
+    const db = () => openDatabase(dbName, allStoreNames);
+
+    return {
+        get: async (key) => runRequest(await db(), storeName, 'readonly', (store) => store.get(key) as IDBRequest<T | undefined>),
+        getAll: async () => {
+            const database = await db();
+            return new Promise((resolve, reject) => {
+                const entries: Array<{ key: string; value: T }> = [];
+                const transaction = database.transaction(storeName, 'readonly');
+                const request = transaction.objectStore(storeName).openCursor();
+                request.onsuccess = () => {
+                    const cursor = request.result;
+                    if (cursor) {
+                        entries.push({ key: String(cursor.key), value: cursor.value as T });
+                        cursor.continue();
+                    }
+                };
+                transaction.oncomplete = () => resolve(entries);
+                transaction.onerror = () => reject(transaction.error ?? request.error);
+            });
+        },
+        put: async (key, value) => {
+            await runRequest(await db(), storeName, 'readwrite', (store) => store.put(value, key));
+        },
+        delete: async (key) => {
+            await runRequest(await db(), storeName, 'readwrite', (store) => store.delete(key));
+        },
+        clear: async () => {
+            await runRequest(await db(), storeName, 'readwrite', (store) => store.clear());
+        },
+    };
+};
@@ -0,0 +1,205 @@
+import type { SecureStorageKind } from '@/config';
+import { createIndexedDbStore, isIndexedDbAvailable } from './indexedDb';
+
+/**
+ * Secure Storage for zkLogin Secrets
+ *
+ * Async key-value storage for the ephemeral key, JWT randomness, JWT, proof,
+ * PKCE verifier and salt. Unlike cookies, nothing stored here is sent with
+ * HTTP requests and values are not limited to ~4KB.
+ *
+ * Backends:
+ * 1. IndexedDB - values encrypted with AES-GCM under a non-extractable
+ *    WebCrypto wrapping key (kept in IndexedDB, usable but never readable by
+ *    script). Survives reloads, new tabs and browser restarts.
+ * 2. sessionStorage - plain values, scoped to the tab, cleared when it closes
+ * 3. Memory - plain values, lost on reload (tests, locked-down browsers)
+ *
+ * When the requested backend is not available the next one down is used.
+ *
+ * @example
+ * ```typescript
+ * const storage = createSecureStorage('indexeddb');
+ * await storage.setItem('zk_jwt_token', idToken);
+ * const token = await storage.getItem('zk_jwt_token');
+ * ```
+ */
+
+export interface SecureStorage {
+    // Backend actually in use (after fallback)
+    readonly kind: SecureStorageKind;
+    getItem: (key: string) => Promise<string | null>;
+    setItem: (key: string, value: string) => Promise<void>;
+    removeItem: (key: string) => Promise<void>;
+}
+
+const DB_NAME = 'zklogin-secure';
+const ITEMS_STORE = 'items';
+const KEYS_STORE = 'keys';
+const WRAPPING_KEY_ID = 'wrapping-key';
+
+interface EncryptedItem {
+    iv: Uint8Array<ArrayBuffer>;
+    ciphertext: ArrayBuffer;
+}
+
+/**
+ * IndexedDB backend with AES-GCM encryption
+ *
+ * The wrapping key is generated on first use with `extractable: false`, so a
+ * script can encrypt and decrypt with it but cannot export the raw key bytes.
+ * Values that no longer decrypt (key deleted with the site data) read as null.
+ */
+class IndexedDbSecureStorage implements SecureStorage {
+    readonly kind = 'indexeddb' as const;
+    private readonly items = createIndexedDbStore<EncryptedItem>(DB_NAME, ITEMS_STORE, [ITEMS_STORE, KEYS_STORE]);
+    private readonly keys = createIndexedDbStore<CryptoKey>(DB_NAME, KEYS_STORE, [ITEMS_STORE, KEYS_STORE]);
+    private wrappingKey: Promise<CryptoKey> | null = null;
+
+    async getItem(key: string): Promise<string | null> {
+        const item = await this.items.get(key);
+        if (!item) {
+            return null;
+        }
+        try {
+            const plaintext = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: item.iv }, await this.getWrappingKey(), item.ciphertext);
+            return new TextDecoder().decode(plaintext);
+        } catch {
+            await this.items.delete(key);
+            return null;
+        }
+    }
+
+    async setItem(key: string, value: string): Promise<void> {
+        const iv = crypto.getRandomValues(new Uint8Array(12));
+        const ciphertext = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, await this.getWrappingKey(), new TextEncoder().encode(value));
+        await this.items.put(key, { iv, ciphertext });
+    }
+
+    async removeItem(key: string): Promise<void> {
+        await this.items.delete(key);
+    }
+
+    private getWrappingKey(): Promise<CryptoKey> {
+        if (!this.wrappingKey) {
+            this.wrappingKey = this.loadOrCreateWrappingKey();
+            // Allow a retry after a failure
+            this.wrappingKey.catch(() => {
+                this.wrappingKey = null;
+            });
+        }
+        return this.wrappingKey;
+    }
+
+    private async loadOrCreateWrappingKey(): Promise<CryptoKey> {
+        const existing = await this.keys.get(WRAPPING_KEY_ID);
+        if (existing) {
+            return existing;
+        }
+        const generated = await crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, false, ['encrypt', 'decrypt']);
+        await this.keys.put(WRAPPING_KEY_ID, generated);
+        // Another tab may have stored its key at the same time: use whichever was kept
+        return (await this.keys.get(WRAPPING_KEY_ID)) ?? generated;
+    }
+}
+
+/**
+ * sessionStorage backend (per tab, cleared when the tab closes)
+ */
+class SessionStorageSecureStorage implements SecureStorage {
+    readonly kind = 'session' as const;
+
+    async getItem(key: string): Promise<string | null> {
+        return sessionStorage.getItem(key);
+    }
+
+    async setItem(key: string, value: string): Promise<void> {
+        sessionStorage.setItem(key, value);
+    }
+
+    async removeItem(key: string): Promise<void> {
+        sessionStorage.removeItem(key);
+    }
+}
+
+/**
+ * In-memory backend (lost on reload)
+ */
+class MemorySecureStorage implements SecureStorage {
+    readonly kind = 'memory' as const;
+    private readonly values = new Map<string, string>();
+
+    async getItem(key: string): Promise<string | null> {
+        return this.values.get(key) ?? null;
+    }
+
+    async setItem(key: string, value: string): Promise<void> {
+        this.values.set(key, value);
+    }
+
+    async removeItem(key: string): Promise<void> {
+        this.values.delete(key);
+    }
+}
+
+const isWebCryptoAvailable = (): boolean => {
+    return typeof crypto !== 'undefined' && !!crypto.subtle;
+};
+
+const isSessionStorageAvailable = (): boolean => {
+    try {
+        const probe = '__zk_storage_probe__';
+        sessionStorage.setItem(probe, probe);
+        sessionStorage.removeItem(probe);
+        return true;
+    } catch {
+        return false;
+    }
+};
+
+const instances = new Map<SecureStorageKind, SecureStorage>();
+
+/**
+ * Create (or reuse) the secure storage for a backend
+ *
+ * Falls back from `indexeddb` to `session` to `memory` when the requested
+ * backend is unavailable; check `kind` for the one in use. Instances are
+ * shared per backend, so every caller sees the same in-memory values.
+ *
+ * @param kind - Preferred backend
+ * @returns Secure storage instance
+ */
+export const createSecureStorage = (kind: SecureStorageKind = 'indexeddb'): SecureStorage => {
+    const resolved: SecureStorageKind =
+        kind === 'indexeddb' && !(isIndexedDbAvailable() && isWebCryptoAvailable()) ? 'session' : kind;
+    const available: SecureStorageKind = resolved === 'session' && !isSessionStorageAvailable() ? 'memory' : resolved;
+
+    const existing = instances.get(available);
+    if (existing) {
+        return existing;
+    }
+
+    const storage =
+        available === 'indexeddb' ? new IndexedDbSecureStorage()
+            : available === 'session' ? new SessionStorageSecureStorage()
+                : new MemorySecureStorage();
+    instances.set(available, storage);
+    return storage;
+};
+
+/**
+ * Namespace a secure storage
+ *
+ * Every key is prefixed with `getPrefix()`, read on each call, so the same
+ * instance follows a scope that changes at runtime (e.g. the active network).
+ *
+ * @param storage - Underlying storage
+ * @param getPrefix - Current key prefix
+ * @returns Storage reading and writing prefixed keys
+ */
+export const createPrefixedStorage = (storage: SecureStorage, getPrefix: () => string): SecureStorage => ({
+    kind: storage.kind,
+    getItem: (key) => storage.getItem(`${getPrefix()}${key}`),
+    setItem: (key, value) => storage.setItem(`${getPrefix()}${key}`, value),
+    removeItem: (key) => storage.removeItem(`${getPrefix()}${key}`),
+});